@@ -17,6 +17,7 @@ import Editor from "./internal/api-code-editor";
 import ExampleSwitcher from "./internal/example-switcher";
 import PlaygroundCanvas from "./internal/playground";
 import { debugStore } from "./store/debug";
+import { ISemanticsError } from "./types/computation";
 import IconButton from "./ui/icon-button";
 import { executeUserCode } from "./util/code-executor";
 
@@ -110,11 +111,15 @@ const APIPage = observer(() => {
   }, [code, executeCode]);
 
   // Memoized callback to prevent Provider re-initialization on parent re-renders
-  const handleRenderError = useCallback((renderError: string | null) => {
-    if (renderError) {
-      setError(renderError);
-    }
-  }, []);
+  // Semantics errors are shown in the canvas error panel, not the editor
+  const handleRenderError = useCallback(
+    (renderError: string | ISemanticsError | null) => {
+      if (typeof renderError === "string") {
+        setError(renderError);
+      }
+    },
+    []
+  );
 
   return (
     <div className="relative h-full flex">
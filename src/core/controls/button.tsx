@@ -1,4 +1,3 @@
-import { runInAction } from "mobx";
 import { observer } from "mobx-react-lite";
 
 import Latex from "../../internal/latex";
@@ -22,8 +21,8 @@ export const ButtonControl = observer<ButtonControlProps>(({ control }) => {
   const handleClick = () => {
     if (code) {
       try {
-        // Execute code in a MobX action for proper reactivity
-        runInAction(() => {
+        // The whole click is one history entry, undone as a whole
+        computationStore.groupHistory(() => {
           // Create value accessor with just the values (same as manual engine)
           const vars: Record<string, any> = {};
           computationStore.variables.forEach((variable, key) => {
@@ -32,21 +31,33 @@ export const ButtonControl = observer<ButtonControlProps>(({ control }) => {
             }
           });
 
+          // Snapshot the values, so that only the variables the function
+          // changed are synced back. Element variables of an assigned vector
+          // or matrix still hold their old values and must not overwrite it.
+          const snapshot = new Map(
+            Object.entries(vars).map(([key, value]) => [
+              key,
+              JSON.stringify(value),
+            ])
+          );
+
           // Execute the function
           code(vars);
 
-          // Sync back all modified variables
+          // Sync back all modified variables through the store, which
+          // records them and recomputes. Vectors and matrices are synced
+          // with their elements either way.
           for (const [key, value] of Object.entries(vars)) {
             const variable = computationStore.variables.get(key);
-            if (
-              variable &&
-              (Array.isArray(value) || typeof value === "number")
-            ) {
-              variable.value = value;
+            if (!variable || JSON.stringify(value) === snapshot.get(key)) {
+              continue;
+            }
+            if (variable.dataType === "set" && Array.isArray(value)) {
+              computationStore.setSetValue(key, value);
+            } else if (Array.isArray(value) || typeof value === "number") {
+              computationStore.setValue(key, value);
             }
           }
-
-          computationStore.runComputation();
         });
       } catch (error) {
         console.error("Error executing button code:", error);
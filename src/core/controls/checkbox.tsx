@@ -1,5 +1,6 @@
 import { observer } from "mobx-react-lite";
 
+import { isSetValue } from "../../engine/matrix";
 import { ICheckboxControl } from "../../types/control";
 import Latex from "../../internal/latex";
 import { useStore } from "../hooks";
@@ -19,7 +20,7 @@ export const CheckboxControl = observer<CheckboxControlProps>(({ control }) => {
   const { variable, availableElements, orientation = "horizontal" } = control;
 
   const variableData = computationStore.variables.get(variable || "");
-  const selected = Array.isArray(variableData?.value) ? variableData.value : [];
+  const selected = isSetValue(variableData?.value) ? variableData.value : [];
 
   const toggle = (element: string) => {
     if (variable) {
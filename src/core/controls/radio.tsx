@@ -1,5 +1,6 @@
 import { observer } from "mobx-react-lite";
 
+import { getDisplayQuantity } from "../../engine/units";
 import { IRadioControl } from "../../types/control";
 import Latex from "../../internal/latex";
 import { useStore } from "../hooks";
@@ -30,11 +31,14 @@ export const RadioControl = observer<RadioControlProps>(({ control }) => {
     const precision = variableData.precision;
 
     const options = [];
+    // Options hold stored SI values and are labeled in the display units
     for (let value = min; value <= max; value += step) {
-      const formattedValue = value.toFixed(precision);
       options.push({
-        value: formattedValue,
-        label: formattedValue,
+        // Rounded so that accumulated steps match the selected value
+        value: String(Number(value.toPrecision(12))),
+        label: getDisplayQuantity(value, variableData).value.toFixed(
+          precision
+        ),
       });
     }
     return options;
@@ -2,6 +2,7 @@ import { useCallback, useEffect, useMemo, useState } from "react";
 
 import { observer } from "mobx-react-lite";
 
+import { isSetValue } from "../../engine/matrix";
 import { ISetControl } from "../../types/control";
 import { useStore } from "../hooks";
 
@@ -19,7 +20,7 @@ export const SetControl = observer<SetControlProps>(({ control }) => {
   const variableData = computationStore?.variables.get(variableId || "");
 
   const currentSelectedElements = useMemo(
-    () => (Array.isArray(variableData?.value) ? variableData.value : []),
+    () => (isSetValue(variableData?.value) ? variableData.value : []),
     [variableData?.value]
   );
 
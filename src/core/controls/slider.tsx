@@ -2,6 +2,7 @@ import React, { useCallback, useMemo } from "react";
 
 import { observer } from "mobx-react-lite";
 
+import { getDisplayQuantity } from "../../engine/units";
 import { ISliderControl } from "../../types/control";
 import { INPUT_VARIABLE_DEFAULT } from "../../types/variable";
 import { useStore } from "../hooks";
@@ -57,12 +58,16 @@ const Slider = observer(({ control }: SliderProps) => {
     [variableId]
   );
 
+  // The slider moves over stored SI values; the label shows display units
   const formatValue = useCallback(
     (value: number) => {
       const precision = variable?.precision ?? INPUT_VARIABLE_DEFAULT.PRECISION;
-      return value.toFixed(precision);
+      const shown = variable
+        ? getDisplayQuantity(value, variable).value
+        : value;
+      return shown.toFixed(precision);
     },
-    [variable?.precision, step]
+    [variable, step]
   );
 
   const isVertical = control.orientation === "vertical";
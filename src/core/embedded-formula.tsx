@@ -68,7 +68,8 @@ const EmbeddedFormulaInner = observer(
     const containerRef = useRef<HTMLDivElement>(null);
     const { isLoaded: mathJaxLoaded } = useMathJax();
     const [isExpanded, setIsExpanded] = useState(false);
-    const [isPinned, setIsPinned] = useState(false);
+    // Kept in the store so that pinned formulas are part of state snapshots
+    const isPinned = computationStore.isFormulaPinned(id);
     const isDraggingRef = useRef(false);
 
     // Get formula latex by ID or use direct latex
@@ -144,6 +145,7 @@ const EmbeddedFormulaInner = observer(
               const handleMouseUp = (e: MouseEvent) => {
                 if (isDragging) {
                   isDragging = false;
+                  computationStore.setVariableDrag(varId, false);
                   isDraggingRef.current = false;
                   e.preventDefault();
                   e.stopPropagation();
@@ -158,6 +160,8 @@ const EmbeddedFormulaInner = observer(
 
               const handleMouseDown = (e: MouseEvent) => {
                 isDragging = true;
+                // Groups the drag into one history entry and fires dragstart
+                computationStore.setVariableDrag(varId, true);
                 isDraggingRef.current = true;
                 startY = e.clientY;
                 // Get current value at drag start
@@ -315,10 +319,10 @@ const EmbeddedFormulaInner = observer(
           return;
         }
         if (abbreviation) {
-          setIsPinned((prev) => !prev);
+          computationStore.setFormulaPinned(id, !isPinned);
         }
       },
-      [abbreviation, allowPinning]
+      [id, abbreviation, allowPinning, isPinned, computationStore]
     );
 
     return (
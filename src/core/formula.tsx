@@ -44,6 +44,7 @@ import {
   addVariableNodesForFormula,
   updateVarNodes,
 } from "../util/canvas/variable-nodes";
+import { useUndoShortcuts } from "../util/use-undo-shortcuts";
 import { useStore } from "./hooks";
 
 const nodeTypes = {
@@ -598,6 +599,9 @@ export const Formula: React.FC<FormulaComponentProps> = observer(
     const config = context?.config;
     const computationStore = context?.computationStore;
 
+    // Ctrl+Z / Ctrl+Shift+Z undo and redo variable changes
+    useUndoShortcuts(computationStore);
+
     // Get formulas from context config (scoped per Provider)
     const formulas = config?.formulas || [];
 
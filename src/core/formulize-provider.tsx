@@ -5,13 +5,18 @@ import { observer } from "mobx-react-lite";
 import { refresh } from "../engine/controller";
 import Store, { Config, Instance } from "../formulize";
 import { MathJaxLoader } from "../internal/mathjax-loader";
+import { ISemanticsError } from "../types/computation";
 import { useMathJax } from "../util/use-mathjax";
 import { StoreContext, StoreContextValue } from "./hooks/use-formulize";
 
 interface ProviderProps {
   config?: Config;
   children: React.ReactNode;
-  onError?: (error: string | null) => void;
+  /**
+   * Called with a message when the config fails to load, and with a
+   * structured error whenever the semantics function throws.
+   */
+  onError?: (error: string | ISemanticsError | null) => void;
   onReady?: (instance: Instance) => void;
 }
 
@@ -22,6 +27,7 @@ const ProviderInner: React.FC<ProviderProps> = observer(
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const instanceRef = useRef<Instance | null>(null);
+    const unsubscribeErrorRef = useRef<(() => void) | null>(null);
     const { isLoaded: mathJaxLoaded } = useMathJax();
 
     useEffect(() => {
@@ -43,6 +49,8 @@ const ProviderInner: React.FC<ProviderProps> = observer(
 
         try {
           // Clean up previous instance
+          unsubscribeErrorRef.current?.();
+          unsubscribeErrorRef.current = null;
           if (instanceRef.current) {
             instanceRef.current.destroy();
             instanceRef.current = null;
@@ -57,6 +65,15 @@ const ProviderInner: React.FC<ProviderProps> = observer(
           const newInstance = await Store.create(config);
           instanceRef.current = newInstance;
 
+          // Forward semantics errors, including one from the initial computation
+          if (onError) {
+            const store = newInstance.computationStore;
+            unsubscribeErrorRef.current = store.onSemanticsError(onError);
+            if (store.semanticsError) {
+              onError(store.semanticsError);
+            }
+          }
+
           // Initialize steps if stepping mode is enabled
           if (config.stepping && newInstance.computationStore) {
             newInstance.computationStore.setStepping(true);
@@ -84,6 +101,8 @@ const ProviderInner: React.FC<ProviderProps> = observer(
 
       // Cleanup on unmount or config change
       return () => {
+        unsubscribeErrorRef.current?.();
+        unsubscribeErrorRef.current = null;
         if (instanceRef.current) {
           instanceRef.current.destroy();
           instanceRef.current = null;
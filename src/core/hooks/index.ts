@@ -1,2 +1,5 @@
 export { StoreContext, useStore } from "./use-formulize";
 export type { StoreContextValue } from "./use-formulize";
+export { useVariable } from "./use-variable";
+export { useCurrentStep } from "./use-current-step";
+export type { CurrentStep } from "./use-current-step";
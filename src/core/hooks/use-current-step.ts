@@ -0,0 +1,48 @@
+import { useEffect, useState } from "react";
+
+import { toJS } from "mobx";
+
+import { ICollectedStep } from "../../types/step";
+import { useStore } from "./use-formulize";
+
+/**
+ * The current step in step mode.
+ * @property step - The current step, undefined when there are no steps
+ * @property index - Index of the current step (0-based)
+ * @property total - Number of collected steps
+ */
+export interface CurrentStep {
+  step: ICollectedStep | undefined;
+  index: number;
+  total: number;
+}
+
+/**
+ * Hook to follow the current step, re-rendering when it changes.
+ */
+export const useCurrentStep = (): CurrentStep => {
+  const instance = useStore()?.instance ?? null;
+  const [current, setCurrent] = useState<CurrentStep>({
+    step: undefined,
+    index: 0,
+    total: 0,
+  });
+
+  useEffect(() => {
+    if (!instance) {
+      setCurrent({ step: undefined, index: 0, total: 0 });
+      return;
+    }
+    const store = instance.computationStore;
+    const update = () =>
+      setCurrent({
+        step: toJS(store.currentStep),
+        index: store.currentStepIndex,
+        total: store.totalSteps,
+      });
+    update();
+    return instance.on("step", update);
+  }, [instance]);
+
+  return current;
+};
@@ -0,0 +1,28 @@
+import { useEffect, useState } from "react";
+
+import { toJS } from "mobx";
+
+import { IValue } from "../../types/variable";
+import { useStore } from "./use-formulize";
+
+/**
+ * Hook to read a variable's value, re-rendering when it changes.
+ * Returns undefined outside a Provider or while the instance is loading.
+ */
+export const useVariable = (varId: string): IValue | undefined => {
+  const instance = useStore()?.instance ?? null;
+  const [value, setValue] = useState<IValue | undefined>(() =>
+    toJS(instance?.computationStore.variables.get(varId)?.value)
+  );
+
+  useEffect(() => {
+    if (!instance) {
+      setValue(undefined);
+      return;
+    }
+    setValue(toJS(instance.computationStore.variables.get(varId)?.value));
+    return instance.on("change", varId, (_, newValue) => setValue(newValue));
+  }, [instance, varId]);
+
+  return value;
+};
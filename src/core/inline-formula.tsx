@@ -164,6 +164,7 @@ const InlineFormulaInner = observer(
               const handleMouseUp = (e: MouseEvent) => {
                 if (isDragging) {
                   isDragging = false;
+                  computationStore.setVariableDrag(varId, false);
                   e.preventDefault();
                   e.stopPropagation();
                   document.removeEventListener(
@@ -177,6 +178,8 @@ const InlineFormulaInner = observer(
 
               const handleMouseDown = (e: MouseEvent) => {
                 isDragging = true;
+                // Groups the drag into one history entry and fires dragstart
+                computationStore.setVariableDrag(varId, true);
                 startY = e.clientY;
                 // Get current value at drag start
                 const currentVariable = computationStore.variables.get(varId);
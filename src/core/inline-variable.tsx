@@ -3,6 +3,12 @@ import React, { useCallback, useEffect, useRef } from "react";
 import { reaction } from "mobx";
 import { observer } from "mobx-react-lite";
 
+import {
+  fromSI,
+  getCompatibleUnits,
+  getDisplayQuantity,
+  unitsToLatex,
+} from "../engine/units";
 import { VAR_CLASSES } from "../internal/css-classes";
 import { ComputationStore } from "../store/computation";
 import { getInputVariableState } from "../util/parse/variable";
@@ -75,15 +81,20 @@ const InlineVariableInner = observer(
       const value = isStepMode
         ? computationStore.getDisplayValue(id)
         : variable.value;
-      const units = variable.units;
       const precision = variable.precision;
+      // Values are stored in SI and shown in the display units
+      const quantity =
+        typeof value === "number"
+          ? getDisplayQuantity(value, variable)
+          : { value, units: variable.units };
+      const units = quantity.units;
 
       // Format value
       let formattedValue = "";
-      if (typeof value === "number") {
-        formattedValue = Number.isInteger(value)
-          ? value.toString()
-          : value.toFixed(precision);
+      if (typeof quantity.value === "number") {
+        formattedValue = Number.isInteger(quantity.value)
+          ? quantity.value.toString()
+          : quantity.value.toFixed(precision);
       } else if (Array.isArray(value)) {
         formattedValue = `\\{${value.join(", ")}\\}`;
       } else {
@@ -99,7 +110,7 @@ const InlineVariableInner = observer(
           return `${id} = ${formattedValue}`;
         case "withUnits":
           return units
-            ? `${formattedValue} \\, \\text{${units}}`
+            ? `${formattedValue} \\, ${unitsToLatex(units)}`
             : formattedValue;
         default:
           return formattedValue;
@@ -126,6 +137,24 @@ const InlineVariableInner = observer(
           computationStore.setVariableHover(id, false);
         });
 
+        // Double-click cycles through the units the value can be shown in
+        // (assigned rather than added, since listeners are attached on every render)
+        const compatibleUnits = getCompatibleUnits(variable.units);
+        if (display === "withUnits" && compatibleUnits.length > 1) {
+          container.title = "Double-click to change units";
+          container.ondblclick = (e) => {
+            e.preventDefault();
+            const current = computationStore.variables.get(id);
+            const index = compatibleUnits.indexOf(
+              current?.displayUnits ?? current?.units ?? ""
+            );
+            computationStore.setDisplayUnits(
+              id,
+              compatibleUnits[(index + 1) % compatibleUnits.length]
+            );
+          };
+        }
+
         // Add drag-to-change for draggable variables
         if (isDraggable) {
           let isDragging = false;
@@ -157,6 +186,7 @@ const InlineVariableInner = observer(
           const handleMouseUp = (e: MouseEvent) => {
             if (isDragging) {
               isDragging = false;
+              computationStore.setVariableDrag(id, false);
               e.preventDefault();
               e.stopPropagation();
               document.removeEventListener("mousemove", handleMouseMove, true);
@@ -165,7 +195,7 @@ const InlineVariableInner = observer(
               if (isStepMode && config?.variables && config.variables[id]) {
                 const varDef = config.variables[id];
                 if (typeof varDef === "object") {
-                  varDef.default = lastClampedValue;
+                  varDef.default = fromSI(lastClampedValue, varDef.units);
                 }
               }
             }
@@ -173,6 +203,8 @@ const InlineVariableInner = observer(
 
           const handleMouseDown = (e: MouseEvent) => {
             isDragging = true;
+            // Groups the drag into one history entry and fires dragstart
+            computationStore.setVariableDrag(id, true);
             startY = e.clientY;
             const currentVariable = computationStore.variables.get(id);
             startValue =
@@ -190,7 +222,7 @@ const InlineVariableInner = observer(
           container.addEventListener("mousedown", handleMouseDown);
         }
       },
-      [id, computationStore, config]
+      [id, display, computationStore, config]
     );
 
     // Render the variable with MathJax
@@ -239,7 +271,12 @@ const InlineVariableInner = observer(
           // Also observe stepValuesVersion to re-render when step values change
           const stepVersion = computationStore.stepValuesVersion;
           return variable
-            ? { value: variable.value, input: variable.input, stepVersion }
+            ? {
+                value: variable.value,
+                input: variable.input,
+                displayUnits: variable.displayUnits,
+                stepVersion,
+              }
             : null;
         },
         () => {
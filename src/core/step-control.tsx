@@ -1,27 +1,83 @@
-import React from "react";
+import React, { useEffect, useState } from "react";
 
 import { observer } from "mobx-react-lite";
 
-import { SkipBack, SkipForward, StepBack, StepForward } from "lucide-react";
+import {
+  ArrowUpFromDot,
+  Gauge,
+  Pause,
+  Play,
+  RedoDot,
+  Repeat,
+  SkipBack,
+  SkipForward,
+  StepBack,
+  StepForward,
+} from "lucide-react";
 
-import { goToEnd, goToStart, nextStep, prevStep } from "../engine/controller";
+import {
+  goToEnd,
+  goToStart,
+  nextStep,
+  pause,
+  play,
+  prevStep,
+  stepOut,
+  stepOver,
+} from "../engine/controller";
 import Button from "../ui/button";
 import { useStore } from "./hooks";
 
 export interface StepControlProps {
   /** Optional className for additional styling */
   className?: string;
+  /** Start playing as soon as steps are available (default: false) */
+  autoplay?: boolean;
+  /** Time in milliseconds each step is shown for, unless the step sets its own (default: 1500) */
+  duration?: number;
+  /** Initial playback speed multiplier (default: 1) */
+  speed?: number;
+  /** Whether playback restarts from the first step after the last (default: false) */
+  loop?: boolean;
 }
 
+// Playback speeds cycled through by the speed button
+const SPEEDS = [0.5, 1, 2, 4];
+
 /**
  * A step control component for navigating through collected steps.
  * Uses the new reactive step system. Must be used inside a Provider.
  */
 export const StepControl: React.FC<StepControlProps> = observer(
-  ({ className = "" }) => {
+  ({
+    className = "",
+    autoplay = false,
+    duration = 1500,
+    speed: initialSpeed = 1,
+    loop: initialLoop = false,
+  }) => {
     const context = useStore();
     const computationStore = context?.computationStore ?? null;
     const isLoading = context?.isLoading ?? true;
+    const [speed, setSpeed] = useState(initialSpeed);
+    const [loop, setLoop] = useState(initialLoop);
+
+    const isPlaying = computationStore?.isPlaying ?? false;
+    const hasSteps = (computationStore?.totalSteps ?? 0) > 0;
+
+    // Start playing once the steps have been collected
+    useEffect(() => {
+      if (autoplay && hasSteps) {
+        play({ duration, speed, loop }, computationStore ?? undefined);
+      }
+      // Only when the steps first load; the buttons restart playback after
+      // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [autoplay, hasSteps, computationStore]);
+
+    // Stop playing when the control goes away, e.g. when leaving step mode
+    useEffect(() => {
+      return () => pause(computationStore ?? undefined);
+    }, [computationStore]);
 
     const containerStyle: React.CSSProperties = {
       width: "100%",
@@ -52,6 +108,14 @@ export const StepControl: React.FC<StepControlProps> = observer(
       nextStep(computationStore);
     };
 
+    const handleStepOver = () => {
+      stepOver(computationStore);
+    };
+
+    const handleStepOut = () => {
+      stepOut(computationStore);
+    };
+
     const handleGoToStart = () => {
       goToStart(computationStore);
     };
@@ -60,6 +124,30 @@ export const StepControl: React.FC<StepControlProps> = observer(
       goToEnd(computationStore);
     };
 
+    const handleTogglePlay = () => {
+      if (isPlaying) {
+        pause(computationStore);
+      } else {
+        play({ duration, speed, loop }, computationStore);
+      }
+    };
+
+    // Playback continues with the new speed or looping
+    const handleCycleSpeed = () => {
+      const nextSpeed = SPEEDS[(SPEEDS.indexOf(speed) + 1) % SPEEDS.length];
+      setSpeed(nextSpeed);
+      if (isPlaying) {
+        play({ duration, speed: nextSpeed, loop }, computationStore);
+      }
+    };
+
+    const handleToggleLoop = () => {
+      setLoop(!loop);
+      if (isPlaying) {
+        play({ duration, speed, loop: !loop }, computationStore);
+      }
+    };
+
     return (
       <div className={className} style={containerStyle}>
         <div className="flex justify-start items-center pb-2 gap-2">
@@ -78,11 +166,43 @@ export const StepControl: React.FC<StepControlProps> = observer(
             disabled={computationStore.isAtEnd}
             icon={StepForward}
           />
+          {/* Group navigation, only when the semantics uses step.group() */}
+          {computationStore.stepGroups.length > 0 && (
+            <>
+              <Button
+                onClick={handleStepOver}
+                disabled={computationStore.isAtEnd}
+                icon={RedoDot}
+                iconAlt="Step Over"
+              />
+              <Button
+                onClick={handleStepOut}
+                disabled={!computationStore.currentGroup}
+                icon={ArrowUpFromDot}
+                iconAlt="Step Out"
+              />
+            </>
+          )}
           <Button
             onClick={handleGoToEnd}
             disabled={computationStore.isAtEnd}
             icon={SkipForward}
           />
+          <Button
+            onClick={handleTogglePlay}
+            disabled={computationStore.totalSteps < 2}
+            icon={isPlaying ? Pause : Play}
+            iconAlt={isPlaying ? "Pause" : "Play"}
+          />
+          <Button onClick={handleCycleSpeed} icon={Gauge} iconAlt="Speed">
+            <span className="text-sm">{speed}×</span>
+          </Button>
+          <Button
+            onClick={handleToggleLoop}
+            variant={loop ? "secondary" : "primary"}
+            icon={Repeat}
+            iconAlt="Loop"
+          />
           <span className="text-sm text-slate-500 ml-2">
             {computationStore.totalSteps > 0
               ? `${computationStore.currentStepIndex + 1} / ${computationStore.totalSteps}`
@@ -88,6 +88,10 @@ export function refresh(computationStore?: ComputationStore): void {
     clearAllCues();
     const steps = computationStore.sampleSteps();
     computationStore.setSteps(steps);
+    // Steps collected before a semantics error are kept; surface the error too
+    if (computationStore.semanticsError) {
+      computationStore.setStepError(computationStore.semanticsError.message);
+    }
     if (steps.length > 0) {
       applyStepState(computationStore);
     }
@@ -117,6 +121,24 @@ export function prevStep(computationStore?: ComputationStore): void {
   applyStepState(computationStore);
 }
 
+/**
+ * Navigate past the group the next step starts, or to the next step.
+ */
+export function stepOver(computationStore?: ComputationStore): void {
+  if (!computationStore) return;
+  computationStore.stepOver();
+  applyStepState(computationStore);
+}
+
+/**
+ * Navigate to the first step after the current step's group.
+ */
+export function stepOut(computationStore?: ComputationStore): void {
+  if (!computationStore) return;
+  computationStore.stepOut();
+  applyStepState(computationStore);
+}
+
 /**
  * Navigate to a specific step by index.
  */
@@ -146,3 +168,75 @@ export function goToEnd(computationStore?: ComputationStore): void {
   computationStore.goToEnd();
   applyStepState(computationStore);
 }
+
+/**
+ * Autoplay settings.
+ * @property duration - Time in milliseconds a step is shown for, unless it sets its own
+ * @property speed - Speed multiplier applied to the durations
+ * @property loop - Whether to restart from the first step after the last
+ */
+export interface IPlaybackOptions {
+  duration: number;
+  speed: number;
+  loop: boolean;
+}
+
+// One timer per store, so several step controls do not advance it twice
+const playbackTimers = new WeakMap<
+  ComputationStore,
+  ReturnType<typeof setTimeout>
+>();
+
+const clearPlaybackTimer = (computationStore: ComputationStore): void => {
+  clearTimeout(playbackTimers.get(computationStore));
+  playbackTimers.delete(computationStore);
+};
+
+// Show the current step for its duration, then advance
+const scheduleNextStep = (
+  computationStore: ComputationStore,
+  options: IPlaybackOptions
+): void => {
+  const duration = computationStore.currentStep?.duration ?? options.duration;
+  const timeout = setTimeout(() => {
+    playbackTimers.delete(computationStore);
+    // Paused meanwhile, e.g. by the user changing a variable
+    if (!computationStore.isPlaying) return;
+    if (!computationStore.isAtEnd) {
+      nextStep(computationStore);
+    } else if (options.loop && computationStore.totalSteps > 1) {
+      goToStart(computationStore);
+    } else {
+      computationStore.setPlaying(false);
+      return;
+    }
+    scheduleNextStep(computationStore, options);
+  }, duration / options.speed);
+  playbackTimers.set(computationStore, timeout);
+};
+
+/**
+ * Start autoplay from the current step, or restart its timer with new
+ * options if already playing. Replays from the first step at the end.
+ */
+export function play(
+  options: IPlaybackOptions,
+  computationStore?: ComputationStore
+): void {
+  if (!computationStore || computationStore.totalSteps === 0) return;
+  clearPlaybackTimer(computationStore);
+  if (!computationStore.isPlaying && computationStore.isAtEnd) {
+    goToStart(computationStore);
+  }
+  computationStore.setPlaying(true);
+  scheduleNextStep(computationStore, options);
+}
+
+/**
+ * Pause autoplay.
+ */
+export function pause(computationStore?: ComputationStore): void {
+  if (!computationStore) return;
+  clearPlaybackTimer(computationStore);
+  computationStore.setPlaying(false);
+}
@@ -6,7 +6,7 @@
  *
  * @module engine/manual
  */
-import { ISemantics } from "../types/computation";
+import { ISemantics, ISemanticsError } from "../types/computation";
 import {
   IData2D,
   IData2DFn,
@@ -14,8 +14,15 @@ import {
   IData3DFn,
   IDataPoint,
 } from "../types/graph";
-import { ICollectedStep, IStepInput, IView } from "../types/step";
+import { ICollectedStep, IStepGroup, IStepInput, IView } from "../types/step";
 import { IValue, IVariable } from "../types/variable";
+import {
+  assignValue,
+  isMatrixVariable,
+  toArrayValue,
+  toMatrix,
+} from "./matrix";
+import { getSourceLine } from "./source";
 
 /**
  * Function signature for step collection during semantics execution.
@@ -23,39 +30,103 @@ import { IValue, IVariable } from "../types/variable";
  */
 export type IStepFn = (input: IStepInput, id?: string) => void;
 
+/**
+ * Function signature of step.group() in semantics functions.
+ */
+export type IStepGroupFn = (label: string, fn: () => void) => void;
+
+/**
+ * Dependencies observed through the vars proxy during a single run.
+ * Only reads of a variable before the run wrote it count as inputs, since later
+ * reads see the run's own value rather than the stored one.
+ * @property {Set<string>} inputs - Variables read before being written
+ * @property {Map<string, Set<string>>} outputs - Written variable -> inputs read before its last write
+ * @property {Map<string, Set<string>>} graphs - Graph ID -> inputs read before its data2d/data3d calls
+ */
+export interface IDependencyGraph {
+  inputs: Set<string>;
+  outputs: Map<string, Set<string>>;
+  graphs: Map<string, Set<string>>;
+}
+
 /**
  * Result from engine execution including variable values and graph dataPoints.
  * @property {Record<string, IValue>} values - Computed variable values after execution
  * @property {Map<string, IDataPoint[]>} dataPointMap - dataPoints captured by data2d/data3d calls, keyed by graph ID
  * @property {ICollectedStep[]} stepList - Steps collected during execution via step() calls
+ * @property {IStepGroup[]} stepGroups - Groups of steps collected via step.group() calls
+ * @property {IDependencyGraph} dependencies - Observed dependencies (only when tracking is enabled), up to the error if one was thrown
+ * @property {ISemanticsError} error - The error thrown by the semantics function, if any
  */
 export interface IManualEngineResult {
   values: Record<string, IValue>;
   dataPointMap: Map<string, IDataPoint[]>;
   stepList: ICollectedStep[];
+  stepGroups: IStepGroup[];
+  dependencies?: IDependencyGraph;
+  error?: ISemanticsError;
 }
 
 // ============================================================================
 // Helpers
 // ============================================================================
 
+/**
+ * Create an empty dependency graph for a run.
+ */
+function createDependencyGraph(): IDependencyGraph {
+  return { inputs: new Set(), outputs: new Map(), graphs: new Map() };
+}
+
+/**
+ * Record the inputs read so far as dependencies of a graph ID.
+ */
+function recordGraphDependencies(
+  dependencies: IDependencyGraph | undefined,
+  graphId: string
+): void {
+  if (!dependencies) return;
+  const graphDeps = dependencies.graphs.get(graphId);
+  if (graphDeps) {
+    dependencies.inputs.forEach((varId) => graphDeps.add(varId));
+  } else {
+    dependencies.graphs.set(graphId, new Set(dependencies.inputs));
+  }
+}
+
 /**
  * Creates a Proxy that allows direct mutation of variable values.
  * Reading `vars.K` returns `variables.K.value`
  * Writing `vars.K = 10` directly sets `variables.K.value = 10`
+ * Vectors and matrices are read as mathjs matrices, and writes keep them in
+ * sync with their element variables (see engine/matrix).
+ * When a dependency graph is given, reads and writes are recorded into it.
  */
 function createValueProxy(
-  variables: Record<string, IVariable>
+  variables: Record<string, IVariable>,
+  dependencies?: IDependencyGraph
 ): Record<string, IValue | undefined> {
   return new Proxy(
     {},
     {
       get(_target, prop: string) {
-        return variables[prop]?.value;
+        if (
+          dependencies &&
+          prop in variables &&
+          !dependencies.outputs.has(prop)
+        ) {
+          dependencies.inputs.add(prop);
+        }
+        const variable = variables[prop];
+        if (isMatrixVariable(variable) && Array.isArray(variable.value)) {
+          return toMatrix(variable.value);
+        }
+        return variable?.value;
       },
       set(_target, prop: string, value) {
         if (variables[prop]) {
-          variables[prop].value = value;
+          assignValue((id) => variables[id], prop, value);
+          dependencies?.outputs.set(prop, new Set(dependencies.inputs));
         }
         return true;
       },
@@ -93,6 +164,42 @@ function collectResults(
   return result;
 }
 
+/**
+ * Copy variable values into plain data (arrays may be MobX observables).
+ */
+function snapshotValues(
+  variables: Record<string, IVariable>
+): Record<string, IValue> {
+  const snapshot: Record<string, IValue> = {};
+  for (const [varName, value] of Object.entries(collectResults(variables))) {
+    snapshot[varName] = toArrayValue(value) as IValue;
+  }
+  return snapshot;
+}
+
+/**
+ * Build a structured error from anything thrown by a semantics function.
+ *
+ * @param error - The thrown value
+ * @param variables - Variables at the moment of the error
+ * @param stepIndex - Index of the last step() call reached (-1 if none)
+ */
+export function createSemanticsError(
+  error: unknown,
+  variables: Record<string, IVariable>,
+  stepIndex: number
+): ISemanticsError {
+  const isError = error instanceof Error;
+  return {
+    name: isError ? error.name : "Error",
+    message: isError ? error.message : String(error),
+    stack: isError ? error.stack : undefined,
+    variables: snapshotValues(variables),
+    stepIndex,
+    count: 1,
+  };
+}
+
 // ============================================================================
 // Semantic Function Execution
 // ============================================================================
@@ -102,17 +209,19 @@ function executeSemanticFunction(
   variables: Record<string, IVariable>,
   data3dFn: IData3DFn,
   data2dFn: IData2DFn,
-  stepFn: IStepFn
+  stepFn: IStepFn,
+  groupFn: IStepGroupFn,
+  dependencies?: IDependencyGraph
 ): void {
   // Create proxy that directly mutates variable values
-  const vars = createValueProxy(variables);
+  const vars = createValueProxy(variables, dependencies);
   // Execute the semantic function with context object
   // Users destructure what they need: ({ vars, data2d }) => { ... }
   semanticFn({
     vars,
     data2d: data2dFn,
     data3d: data3dFn,
-    step: stepFn,
+    step: Object.assign(stepFn, { group: groupFn }),
   });
 }
 
@@ -132,10 +241,17 @@ function isSingleView(input: IStepInput): input is IView {
  * This follows the reactive data collection pattern similar to data2d/data3d.
  *
  * @param stepList - The array to collect steps into
+ * @param openGroups - Indices of the step groups being collected, innermost last
  * @returns A step function that can be called from semantics
  */
-function createStepCollector(stepList: ICollectedStep[]): IStepFn {
+function createStepCollector(
+  stepList: ICollectedStep[],
+  openGroups: number[]
+): IStepFn {
   return (input: IStepInput, id?: string) => {
+    const parent = openGroups[openGroups.length - 1];
+    // Lines are only known for semantics compiled from source (engine/source)
+    const line = getSourceLine();
     if (isSingleView(input)) {
       // Single view mode - applies to all formulas
       // Use empty string key "" to indicate "all formulas"
@@ -146,6 +262,9 @@ function createStepCollector(stepList: ICollectedStep[]): IStepFn {
         values: input.values,
         expression: input.expression,
         formulas: { "": input },
+        duration: input.duration,
+        parent,
+        line: input.line ?? line,
       });
     } else {
       // Multi-formula mode - input is Record<string, IView>
@@ -159,11 +278,54 @@ function createStepCollector(stepList: ICollectedStep[]): IStepFn {
         values: firstView?.values,
         expression: firstView?.expression,
         formulas: input as Record<string, IView>,
+        // Any formula's view can set the duration of the whole step
+        duration: Object.values(input).find(
+          (view) => view.duration !== undefined
+        )?.duration,
+        parent,
+        line: firstView?.line ?? line,
       });
     }
   };
 }
 
+/**
+ * Create the step.group() function that nests the steps collected while
+ * running a callback under a labeled group.
+ *
+ * @param stepList - The array steps are collected into
+ * @param stepGroups - The array to collect groups into
+ * @param openGroups - Indices of the step groups being collected, innermost last
+ * @returns A group function that can be called from semantics
+ */
+function createGroupCollector(
+  stepList: ICollectedStep[],
+  stepGroups: IStepGroup[],
+  openGroups: number[]
+): IStepGroupFn {
+  return (label: string, fn: () => void) => {
+    const group: IStepGroup = {
+      index: stepGroups.length,
+      label,
+      parent: openGroups[openGroups.length - 1],
+      start: stepList.length,
+      end: stepList.length,
+    };
+    stepGroups.push(group);
+    openGroups.push(group.index);
+    try {
+      fn();
+    } finally {
+      openGroups.pop();
+      group.end = stepList.length;
+      // An empty group can only contain empty groups, which come after it
+      if (group.end === group.start) {
+        stepGroups.splice(group.index);
+      }
+    }
+  };
+}
+
 /**
  * Computes the formula with the given variable values using a custom JavaScript function.
  * Variables should already be normalized (typically from the computation store).
@@ -172,20 +334,26 @@ function createStepCollector(stepList: ICollectedStep[]): IStepFn {
  * @param variables - Record of variable definitions with current values
  * @param semanticFn - The semantic function to execute
  * @param collectSteps - Whether to collect step() calls (default: false for backward compatibility)
+ * @param trackDependencies - Whether to record which variables each output and graph reads (default: false)
  * @returns Object containing computed values, collected graph dataPoints, and step list
  */
 export function computeWithManualEngine(
   variables: Record<string, IVariable>,
   semanticFn?: ISemantics,
-  collectSteps: boolean = false
+  collectSteps: boolean = false,
+  trackDependencies: boolean = false
 ): IManualEngineResult {
   // Collect graph dataPoints during execution
   const dataPointMap = new Map<string, IDataPoint[]>();
   // Collect steps during execution (when enabled)
   const stepList: ICollectedStep[] = [];
+  const stepGroups: IStepGroup[] = [];
+  // Record dependencies during execution (when enabled)
+  const dependencies = trackDependencies ? createDependencyGraph() : undefined;
   // Create data3d function for 3D visualization data
   // Usage: data3d("id", {x, y, z})
   const data3dFn: IData3DFn = (id: string, values: IData3D) => {
+    recordGraphDependencies(dependencies, id);
     let dataPoints = dataPointMap.get(id);
     if (!dataPoints) {
       dataPoints = [];
@@ -194,20 +362,31 @@ export function computeWithManualEngine(
     dataPoints.push({ x: values.x, y: values.y, z: values.z });
   };
   // Create data2d function for 2D visualization data
-  // Usage: data2d("id", {x, y})
+  // Usage: data2d("id", {x, y}), adding {dx, dy} for fields or {value} for
+  // implicit curves
   const data2dFn: IData2DFn = (id: string, values: IData2D) => {
+    recordGraphDependencies(dependencies, id);
     let dataPoints = dataPointMap.get(id);
     if (!dataPoints) {
       dataPoints = [];
       dataPointMap.set(id, dataPoints);
     }
-    dataPoints.push({ x: values.x, y: values.y });
+    const dataPoint: IDataPoint = { x: values.x, y: values.y };
+    // Field graphs also collect the arrow direction
+    if (values.dx !== undefined) dataPoint.dx = values.dx;
+    if (values.dy !== undefined) dataPoint.dy = values.dy;
+    // Implicit graphs collect a scalar per grid point
+    if (values.value !== undefined) dataPoint.value = values.value;
+    dataPoints.push(dataPoint);
   };
   const emptyResult: IManualEngineResult = {
     values: {},
     dataPointMap: new Map(),
     stepList: [],
+    stepGroups: [],
   };
+  // Number of step() calls reached, for error reporting
+  let stepCount = 0;
   try {
     if (!variables || Object.keys(variables).length === 0) {
       console.warn("⚠️ No variables provided");
@@ -218,17 +397,44 @@ export function computeWithManualEngine(
       return emptyResult;
     }
     // Create step function - either collector or no-op based on collectSteps flag
-    const stepFn: IStepFn = collectSteps
-      ? createStepCollector(stepList)
+    // Calls are counted either way so errors can report the step reached
+    const openGroups: number[] = [];
+    const collectStep: IStepFn = collectSteps
+      ? createStepCollector(stepList, openGroups)
       : () => {};
-    executeSemanticFunction(semanticFn, variables, data3dFn, data2dFn, stepFn);
+    const groupFn: IStepGroupFn = collectSteps
+      ? createGroupCollector(stepList, stepGroups, openGroups)
+      : (_label, fn) => fn();
+    const stepFn: IStepFn = (input, id) => {
+      stepCount++;
+      collectStep(input, id);
+    };
+    executeSemanticFunction(
+      semanticFn,
+      variables,
+      data3dFn,
+      data2dFn,
+      stepFn,
+      groupFn,
+      dependencies
+    );
     return {
       values: collectResults(variables),
       dataPointMap,
       stepList,
+      stepGroups,
+      dependencies,
     };
   } catch (error) {
-    console.error("Error computing with semantic function:", error);
-    return emptyResult;
+    // Steps collected before the error are kept so the step viewer can show them.
+    // Dependencies read before the error are kept too: changing any other
+    // variable cannot change where the semantics throws.
+    return {
+      ...emptyResult,
+      stepList,
+      stepGroups,
+      dependencies,
+      error: createSemanticsError(error, variables, stepCount - 1),
+    };
   }
 }
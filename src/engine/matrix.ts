@@ -0,0 +1,198 @@
+/**
+ * Vector and Matrix Variables
+ *
+ * Variables with dataType "vector" or "matrix" hold (nested) arrays of numbers
+ * and are read through `vars` as mathjs matrices. Each element is also a scalar
+ * variable of its own, `A_{12}` for row 1, column 2 of A, so cells can be
+ * rendered, dragged, labeled and given step values like any other variable.
+ * Writing either the matrix or one of its elements keeps the other in sync.
+ *
+ * @module engine/matrix
+ */
+import { Matrix, isMatrix, matrix } from "mathjs";
+
+import { IValue, IVariable } from "../types/variable";
+
+/**
+ * An element of a vector or matrix variable.
+ * @property id - The element's variable ID, e.g. "A_{12}"
+ * @property index - Zero-based index into the matrix, e.g. [0, 1]
+ */
+export interface IMatrixElement {
+  id: string;
+  index: number[];
+}
+
+export const isMatrixVariable = (variable: IVariable | undefined): boolean =>
+  variable?.dataType === "vector" || variable?.dataType === "matrix";
+
+/**
+ * Whether a value is a set of options rather than a vector or matrix.
+ */
+export const isSetValue = (
+  value: IValue | undefined
+): value is (string | number)[] =>
+  Array.isArray(value) && !value.some((element) => Array.isArray(element));
+
+/**
+ * Get the shape of a vector or matrix variable from its value, falling back
+ * to its `dimensions` when it has no value yet (e.g. computed matrices).
+ */
+export function getMatrixShape(variable: IVariable): number[] {
+  const { value, dataType, dimensions } = variable;
+  if (Array.isArray(value) && value.length > 0) {
+    if (dataType === "matrix") {
+      const first = value[0];
+      return [value.length, Array.isArray(first) ? first.length : 1];
+    }
+    return [value.length];
+  }
+  return dimensions ?? [];
+}
+
+/**
+ * Build the variable ID of an element, e.g. A_{12} or A_{1,10}.
+ * Indices are one-based, matching mathematical notation.
+ */
+export function getElementId(
+  id: string,
+  index: number[],
+  shape: number[]
+): string {
+  const separator = shape.some((size) => size > 9) ? "," : "";
+  const base = id.includes("_") ? `{${id}}` : id;
+  return `${base}_{${index.map((i) => i + 1).join(separator)}}`;
+}
+
+/**
+ * List the elements of a vector or matrix variable in row-major order.
+ */
+export function getMatrixElements(
+  id: string,
+  variable: IVariable
+): IMatrixElement[] {
+  const shape = getMatrixShape(variable);
+  if (shape.length === 0) return [];
+  const [rows, columns] = shape;
+  const elements: IMatrixElement[] = [];
+  for (let i = 0; i < rows; i++) {
+    if (variable.dataType === "matrix") {
+      for (let j = 0; j < (columns ?? 1); j++) {
+        elements.push({ id: getElementId(id, [i, j], shape), index: [i, j] });
+      }
+    } else {
+      elements.push({ id: getElementId(id, [i], shape), index: [i] });
+    }
+  }
+  return elements;
+}
+
+/**
+ * Convert a mathjs matrix or (possibly observable) nested array into plain
+ * nested arrays. Other values are returned unchanged.
+ */
+export function toArrayValue(value: unknown): unknown {
+  if (isMatrix(value)) return (value as Matrix).toArray();
+  if (Array.isArray(value)) return value.map(toArrayValue);
+  return value;
+}
+
+/**
+ * Read a vector or matrix value as a mathjs matrix, as seen through `vars`.
+ */
+export function toMatrix(value: IValue): Matrix {
+  return matrix(toArrayValue(value) as number[] | number[][]);
+}
+
+export function getElementValue(
+  value: IValue | undefined,
+  index: number[]
+): number | undefined {
+  let current: unknown = value;
+  for (const i of index) {
+    if (!Array.isArray(current)) return undefined;
+    current = current[i];
+  }
+  return typeof current === "number" ? current : undefined;
+}
+
+// Copy of a vector or matrix value with one element replaced
+function withElementValue(
+  value: IValue,
+  index: number[],
+  element: number
+): IValue {
+  const copy = toArrayValue(value) as number[] | number[][];
+  if (index.length === 2) {
+    (copy as number[][])[index[0]][index[1]] = element;
+  } else {
+    (copy as number[])[index[0]] = element;
+  }
+  return copy;
+}
+
+/**
+ * Write a variable's value, keeping vector and matrix variables and their
+ * elements in sync. Mathjs matrices are stored as plain nested arrays.
+ *
+ * @param getVariable - Looks up a variable by ID
+ * @param id - The variable being written
+ * @param value - The new value
+ */
+export function assignValue(
+  getVariable: (id: string) => IVariable | undefined,
+  id: string,
+  value: unknown
+): void {
+  const variable = getVariable(id);
+  if (!variable) return;
+  if (isMatrixVariable(variable)) {
+    variable.value = toArrayValue(value) as IValue;
+    for (const element of getMatrixElements(id, variable)) {
+      const elementVariable = getVariable(element.id);
+      if (elementVariable) {
+        elementVariable.value = getElementValue(variable.value, element.index);
+      }
+    }
+    return;
+  }
+  variable.value = value as IValue;
+  const { element } = variable;
+  const parent = element ? getVariable(element.parent) : undefined;
+  if (element && Array.isArray(parent?.value) && typeof value === "number") {
+    parent.value = withElementValue(parent.value, element.index, value);
+  }
+}
+
+/**
+ * Create the element variables of a vector or matrix variable.
+ * Elements inherit the matrix's input, range, step, precision and units,
+ * show their value in formulas, and have no label by default.
+ *
+ * @param id - The matrix variable ID
+ * @param variable - The matrix variable
+ * @param overrides - Element settings from the config, keyed by element ID
+ */
+export function createElementVariables(
+  id: string,
+  variable: IVariable,
+  overrides: Record<string, IVariable> = {}
+): Record<string, IVariable> {
+  const elements: Record<string, IVariable> = {};
+  for (const { id: elementId, index } of getMatrixElements(id, variable)) {
+    elements[elementId] = {
+      input: variable.input,
+      range: variable.range,
+      step: variable.step,
+      precision: variable.precision,
+      units: variable.units,
+      latexDisplay: "value",
+      labelDisplay: "none",
+      ...overrides[elementId],
+      dataType: "scalar",
+      value: getElementValue(variable.value, index),
+      element: { parent: id, index },
+    };
+  }
+  return elements;
+}
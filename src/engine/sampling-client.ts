@@ -0,0 +1,195 @@
+/**
+ * Sampling Client
+ *
+ * Main-thread side of the sampling worker. Requests are keyed (typically by
+ * graph ID) and coalesced: while a request for a key is in flight, only the
+ * newest follow-up is kept, and superseded requests resolve to null. This keeps
+ * the worker from falling behind during continuous drags.
+ *
+ * @module engine/sampling-client
+ */
+import { ISemanticsError } from "../types/computation";
+import { IVariable } from "../types/variable";
+import { IFieldVector, IPoint2D, IPoint3D, IScalarSample } from "./sampling";
+import SamplingWorker from "./sampling-worker?worker&inline";
+
+interface ISamplingRequestBase {
+  id: number;
+  semantics: string;
+  variables: Record<string, IVariable>;
+  graphId: string;
+  samples: number;
+}
+
+export interface ILine2DRequest extends ISamplingRequestBase {
+  kind: "line2d";
+  parameter: string;
+  range: [number, number];
+}
+
+export interface ILine3DRequest extends ISamplingRequestBase {
+  kind: "line3d";
+  parameter: string;
+  range: [number, number];
+}
+
+export interface ISurfaceRequest extends ISamplingRequestBase {
+  kind: "surface";
+  parameters: [string, string];
+  ranges: [[number, number], [number, number]];
+}
+
+export interface IFieldRequest extends ISamplingRequestBase {
+  kind: "field";
+  parameters: [string, string];
+  ranges: [[number, number], [number, number]];
+}
+
+export interface IImplicitRequest extends ISamplingRequestBase {
+  kind: "implicit";
+  parameters: [string, string];
+  ranges: [[number, number], [number, number]];
+}
+
+export type ISamplingRequest =
+  | ILine2DRequest
+  | ILine3DRequest
+  | ISurfaceRequest
+  | IFieldRequest
+  | IImplicitRequest;
+
+export type ISamplingResponse =
+  | {
+      id: number;
+      points: IPoint2D[] | IPoint3D[] | IFieldVector[] | IScalarSample[];
+      errors: ISemanticsError[];
+      dependencies: string[];
+      error?: undefined;
+    }
+  | { id: number; points?: undefined; error: string };
+
+/**
+ * Sampled points together with the de-duplicated errors thrown while sampling
+ * and the variables the samples read.
+ */
+export interface ISamplingResult {
+  points: IPoint2D[] | IPoint3D[] | IFieldVector[] | IScalarSample[];
+  errors: ISemanticsError[];
+  dependencies: string[];
+}
+
+/**
+ * A sampling request without the bookkeeping fields filled in by the client.
+ */
+export type ISamplingPayload =
+  | Omit<ILine2DRequest, "id">
+  | Omit<ILine3DRequest, "id">
+  | Omit<ISurfaceRequest, "id">
+  | Omit<IFieldRequest, "id">
+  | Omit<IImplicitRequest, "id">;
+
+/**
+ * A sampling request as described by a plot: no semantics or variable snapshot yet.
+ */
+export type ISamplingJob =
+  | Omit<ILine2DRequest, "id" | "semantics" | "variables">
+  | Omit<ILine3DRequest, "id" | "semantics" | "variables">
+  | Omit<ISurfaceRequest, "id" | "semantics" | "variables">
+  | Omit<IFieldRequest, "id" | "semantics" | "variables">
+  | Omit<IImplicitRequest, "id" | "semantics" | "variables">;
+
+interface IPendingRequest {
+  payload: ISamplingPayload;
+  resolve: (result: ISamplingResult | null) => void;
+  reject: (error: Error) => void;
+}
+
+export class SamplingClient {
+  private worker: Worker;
+  private nextId = 0;
+  // Request ID -> in-flight request
+  private inFlight = new Map<number, IPendingRequest & { key: string }>();
+  // Keys with a request currently being processed by the worker
+  private busyKeys = new Set<string>();
+  // Key -> newest request waiting for the in-flight one to finish
+  private queued = new Map<string, IPendingRequest>();
+
+  constructor() {
+    this.worker = new SamplingWorker();
+    this.worker.onmessage = (event: MessageEvent<ISamplingResponse>) => {
+      this.handleResponse(event.data);
+    };
+    this.worker.onerror = (event: ErrorEvent) => {
+      this.failAll(new Error(event.message || "Sampling worker failed"));
+    };
+  }
+
+  /**
+   * Queue a sampling request for a key.
+   * Resolves with the sampled points, or null if a newer request for the same
+   * key replaced this one before it was sent.
+   * Rejects when the worker cannot run the semantics at all.
+   */
+  request(
+    key: string,
+    payload: ISamplingPayload
+  ): Promise<ISamplingResult | null> {
+    return new Promise((resolve, reject) => {
+      const pending: IPendingRequest = { payload, resolve, reject };
+      if (this.busyKeys.has(key)) {
+        this.queued.get(key)?.resolve(null);
+        this.queued.set(key, pending);
+        return;
+      }
+      this.send(key, pending);
+    });
+  }
+
+  /**
+   * Stop the worker and resolve outstanding requests as superseded.
+   */
+  terminate(): void {
+    this.worker.terminate();
+    this.inFlight.forEach((pending) => pending.resolve(null));
+    this.queued.forEach((pending) => pending.resolve(null));
+    this.inFlight.clear();
+    this.queued.clear();
+    this.busyKeys.clear();
+  }
+
+  private send(key: string, pending: IPendingRequest): void {
+    const id = this.nextId++;
+    this.busyKeys.add(key);
+    this.inFlight.set(id, { ...pending, key });
+    this.worker.postMessage({ ...pending.payload, id });
+  }
+
+  private handleResponse(response: ISamplingResponse): void {
+    const pending = this.inFlight.get(response.id);
+    if (!pending) return;
+    this.inFlight.delete(response.id);
+    this.busyKeys.delete(pending.key);
+    if (response.error !== undefined) {
+      pending.reject(new Error(response.error));
+    } else {
+      pending.resolve({
+        points: response.points,
+        errors: response.errors,
+        dependencies: response.dependencies,
+      });
+    }
+    const next = this.queued.get(pending.key);
+    if (next) {
+      this.queued.delete(pending.key);
+      this.send(pending.key, next);
+    }
+  }
+
+  private failAll(error: Error): void {
+    this.inFlight.forEach((pending) => pending.reject(error));
+    this.queued.forEach((pending) => pending.reject(error));
+    this.inFlight.clear();
+    this.queued.clear();
+    this.busyKeys.clear();
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * Sampling Worker
+ *
+ * Web Worker entry that runs semantics sampling off the main thread.
+ * The semantics function arrives as source text and is rebuilt here,
+ * so it must be self-contained (no references to outer closures). A request
+ * whose samples all fail as if it were not is rejected, so the main thread
+ * takes over.
+ *
+ * @module engine/sampling-worker
+ */
+import { ISemantics } from "../types/computation";
+import {
+  IScalarSample,
+  createSamplingErrorCollector,
+  extractPoint2D,
+  extractPoint3D,
+  sampleFieldGrid,
+  sampleLine,
+  sampleScalarGrid,
+  sampleSurfaceGrid,
+} from "./sampling";
+import type { ISamplingRequest, ISamplingResponse } from "./sampling-client";
+
+// Rebuilt semantics functions keyed by source text
+const semanticsCache = new Map<string, ISemantics>();
+
+function resolveSemantics(source: string): ISemantics {
+  let semantics = semanticsCache.get(source);
+  if (!semantics) {
+    semantics = new Function("return " + source)() as ISemantics;
+    if (typeof semantics !== "function") {
+      throw new Error("Semantics source did not evaluate to a function");
+    }
+    semanticsCache.set(source, semantics);
+  }
+  return semantics;
+}
+
+// Errors a semantics throws when it references outer closures, which do not
+// exist in the worker
+const CLOSURE_ERRORS = new Set(["ReferenceError", "TypeError"]);
+
+/**
+ * Throws when every sample failed with a closure error, since the main thread
+ * can still run the semantics. Per-sample errors are otherwise reported.
+ */
+function assertSelfContained(
+  request: ISamplingRequest,
+  response: ISamplingResponse
+): void {
+  if (response.error !== undefined) return;
+  const { points, errors } = response;
+  // Scalar grids keep failed samples as NaN values
+  const sampled =
+    request.kind === "implicit"
+      ? (points as IScalarSample[]).some(({ value }) => Number.isFinite(value))
+      : points.length > 0;
+  if (sampled) return;
+  if (
+    errors.length > 0 &&
+    errors.every(({ name }) => CLOSURE_ERRORS.has(name))
+  ) {
+    throw new Error(
+      `Semantics failed on every sample in the worker: ${errors[0].message}`
+    );
+  }
+}
+
+function handleRequest(request: ISamplingRequest): ISamplingResponse {
+  const semantics = resolveSemantics(request.semantics);
+  const variables = request.variables;
+  const collector = createSamplingErrorCollector(request.graphId);
+  const dependencies = new Set<string>();
+  const onDependencies = (variableIds: Set<string>) =>
+    variableIds.forEach((varId) => dependencies.add(varId));
+  switch (request.kind) {
+    case "line2d":
+      return {
+        id: request.id,
+        points: sampleLine(
+          variables,
+          semantics,
+          request.parameter,
+          request.range,
+          request.samples,
+          request.graphId,
+          extractPoint2D,
+          collector.report,
+          onDependencies
+        ),
+        errors: collector.errors(),
+        dependencies: Array.from(dependencies),
+      };
+    case "line3d":
+      return {
+        id: request.id,
+        points: sampleLine(
+          variables,
+          semantics,
+          request.parameter,
+          request.range,
+          request.samples,
+          request.graphId,
+          extractPoint3D,
+          collector.report,
+          onDependencies
+        ),
+        errors: collector.errors(),
+        dependencies: Array.from(dependencies),
+      };
+    case "surface":
+      return {
+        id: request.id,
+        points: sampleSurfaceGrid(
+          variables,
+          semantics,
+          request.parameters,
+          request.ranges,
+          request.samples,
+          request.graphId,
+          collector.report,
+          onDependencies
+        ),
+        errors: collector.errors(),
+        dependencies: Array.from(dependencies),
+      };
+    case "field":
+      return {
+        id: request.id,
+        points: sampleFieldGrid(
+          variables,
+          semantics,
+          request.parameters,
+          request.ranges,
+          request.samples,
+          request.graphId,
+          collector.report,
+          onDependencies
+        ),
+        errors: collector.errors(),
+        dependencies: Array.from(dependencies),
+      };
+    case "implicit":
+      return {
+        id: request.id,
+        points: sampleScalarGrid(
+          variables,
+          semantics,
+          request.parameters,
+          request.ranges,
+          request.samples,
+          request.graphId,
+          collector.report,
+          onDependencies
+        ),
+        errors: collector.errors(),
+        dependencies: Array.from(dependencies),
+      };
+  }
+}
+
+self.onmessage = (event: MessageEvent<ISamplingRequest>) => {
+  const request = event.data;
+  let response: ISamplingResponse;
+  try {
+    response = handleRequest(request);
+    assertSelfContained(request, response);
+  } catch (error) {
+    response = {
+      id: request.id,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+  self.postMessage(response);
+};
@@ -0,0 +1,571 @@
+/**
+ * Sampling helpers for graph-based visualizations.
+ *
+ * These functions are pure: they take a variable snapshot and a semantics
+ * function and return sampled points. They are shared by the ComputationStore
+ * (main thread) and the sampling worker (off the main thread).
+ *
+ * @module engine/sampling
+ */
+import { ISemantics, ISemanticsError } from "../types/computation";
+import { IDataPoint } from "../types/graph";
+import { IVariable } from "../types/variable";
+import { computeWithManualEngine } from "./manual";
+
+export type IPoint2D = { x: number; y: number };
+export type IPoint3D = { x: number; y: number; z: number };
+export type IFieldVector = { x: number; y: number; dx: number; dy: number };
+export type IScalarSample = { x: number; y: number; value: number };
+
+/**
+ * Receives an error thrown by the semantics during one sample.
+ */
+export type ISamplingErrorHandler = (error: ISemanticsError) => void;
+
+/**
+ * Receives the variables the semantics read to produce one sample of a graph.
+ */
+export type ISamplingDependencyHandler = (variableIds: Set<string>) => void;
+
+/**
+ * Create a collector that de-duplicates sampling errors by message.
+ * Sampling runs the semantics hundreds of times, so a single bug would
+ * otherwise be reported once per sample.
+ *
+ * @param graphId - The graph being sampled, recorded on each error
+ */
+export function createSamplingErrorCollector(graphId: string): {
+  report: ISamplingErrorHandler;
+  errors: () => ISemanticsError[];
+} {
+  const errors = new Map<string, ISemanticsError>();
+  return {
+    report: (error) => {
+      const existing = errors.get(error.message);
+      if (existing) {
+        existing.count++;
+      } else {
+        errors.set(error.message, { ...error, graphId, count: 1 });
+      }
+    },
+    errors: () => Array.from(errors.values()),
+  };
+}
+
+/**
+ * Extracts a point from collected data points.
+ * Implementations return null when the point is missing or non-finite.
+ */
+export type IPointExtractor<T> = (
+  dataPointMap: Map<string, IDataPoint[]>,
+  graphId: string
+) => T | null;
+
+/**
+ * Extract a 2D point from dataPoints map.
+ * @param dataPointMap - Map of graph ID to data points
+ * @param graphId - The graph ID to look up
+ * @returns The first valid {x, y} point or null
+ */
+export const extractPoint2D: IPointExtractor<IPoint2D> = (
+  dataPointMap,
+  graphId
+) => {
+  const dataPoints = dataPointMap.get(graphId);
+  if (!dataPoints || dataPoints.length === 0) return null;
+  const { x, y } = dataPoints[0];
+  if (
+    typeof x === "number" &&
+    typeof y === "number" &&
+    isFinite(x) &&
+    isFinite(y)
+  ) {
+    return { x, y };
+  }
+  return null;
+};
+
+/**
+ * Extract a 3D point from dataPoints map.
+ * @param dataPointMap - Map of graph ID to data points
+ * @param graphId - The graph ID to look up
+ * @returns The first valid {x, y, z} point or null
+ */
+export const extractPoint3D: IPointExtractor<IPoint3D> = (
+  dataPointMap,
+  graphId
+) => {
+  const dataPoints = dataPointMap.get(graphId);
+  if (!dataPoints || dataPoints.length === 0) return null;
+  const { x, y, z } = dataPoints[0];
+  if (
+    typeof x === "number" &&
+    typeof y === "number" &&
+    typeof z === "number" &&
+    isFinite(x) &&
+    isFinite(y) &&
+    isFinite(z)
+  ) {
+    return { x, y, z };
+  }
+  return null;
+};
+
+/**
+ * Extract a field vector from dataPoints map.
+ * @param dataPointMap - Map of graph ID to data points
+ * @param graphId - The graph ID to look up
+ * @returns The first valid {x, y, dx, dy} vector or null
+ */
+export const extractFieldVector: IPointExtractor<IFieldVector> = (
+  dataPointMap,
+  graphId
+) => {
+  const dataPoints = dataPointMap.get(graphId);
+  if (!dataPoints || dataPoints.length === 0) return null;
+  const { x, y, dx, dy } = dataPoints[0];
+  if (
+    typeof x === "number" &&
+    typeof y === "number" &&
+    typeof dx === "number" &&
+    typeof dy === "number" &&
+    isFinite(x) &&
+    isFinite(y) &&
+    isFinite(dx) &&
+    isFinite(dy)
+  ) {
+    return { x, y, dx, dy };
+  }
+  return null;
+};
+
+/**
+ * Extract a scalar sample from dataPoints map.
+ * @param dataPointMap - Map of graph ID to data points
+ * @param graphId - The graph ID to look up
+ * @returns The first valid {x, y, value} sample or null
+ */
+export const extractScalarSample: IPointExtractor<IScalarSample> = (
+  dataPointMap,
+  graphId
+) => {
+  const dataPoints = dataPointMap.get(graphId);
+  if (!dataPoints || dataPoints.length === 0) return null;
+  const { x, y, value } = dataPoints[0];
+  if (
+    typeof x === "number" &&
+    typeof y === "number" &&
+    typeof value === "number" &&
+    isFinite(x) &&
+    isFinite(y) &&
+    isFinite(value)
+  ) {
+    return { x, y, value };
+  }
+  return null;
+};
+
+/**
+ * Run the semantics function once and extract a point for a graph ID.
+ * @param variables - Variable values to use
+ * @param semantics - The semantics function
+ * @param graphId - Graph ID to match data2d()/data3d() calls
+ * @param extractor - Point extractor (extractPoint2D or extractPoint3D)
+ * @param onError - Optional handler for errors thrown by the semantics
+ * @param onDependencies - Optional handler for the variables each sample read
+ * @returns The extracted point or null
+ */
+export function computePoint<T>(
+  variables: Record<string, IVariable>,
+  semantics: ISemantics,
+  graphId: string,
+  extractor: IPointExtractor<T>,
+  onError?: ISamplingErrorHandler,
+  onDependencies?: ISamplingDependencyHandler
+): T | null {
+  const result = computeWithManualEngine(
+    variables,
+    semantics,
+    false,
+    onDependencies !== undefined
+  );
+  if (result.error) {
+    onError?.(result.error);
+  }
+  if (result.dependencies) {
+    // Where the graph was not reached, any variable read may have decided that
+    const { graphs, inputs } = result.dependencies;
+    onDependencies?.(graphs.get(graphId) ?? inputs);
+  }
+  return extractor(result.dataPointMap, graphId);
+}
+
+// Refinement passes; each pass halves the intervals that need it
+const MAX_REFINE_DEPTH = 10;
+// Extra evaluations refinement may spend, as a multiple of the uniform samples
+const REFINE_BUDGET_FACTOR = 3;
+// Normalized chord length above which an interval is refined
+const SEGMENT_TOLERANCE = 0.05;
+// Turning angle (radians) at a point above which its intervals are refined
+const BEND_TOLERANCE = 0.1;
+// Normalized chord length above which a reversing interval is a discontinuity
+const JUMP_TOLERANCE = 0.25;
+// How many times longer than its neighbors a fully refined jump is
+const JUMP_RATIO = 10;
+
+/**
+ * A parameter value and the point sampled at it, null where the semantics
+ * produced no finite point.
+ */
+interface ILineSample<T> {
+  t: number;
+  point: T | null;
+}
+
+/**
+ * Check whether a sampled line point is a break. sampleLine inserts breaks
+ * (points with NaN coordinates) between the segments of a line that is split
+ * at discontinuities and undefined values.
+ */
+export function isLineBreak(point: IPoint2D | IPoint3D): boolean {
+  return Object.values(point).some((value) => Number.isNaN(value));
+}
+
+function createLineBreak<T extends IPoint2D | IPoint3D>(template: T): T {
+  return Object.fromEntries(
+    Object.keys(template).map((key) => [key, NaN])
+  ) as T;
+}
+
+/**
+ * Robust spread of each coordinate (5th to 95th percentile), used to compare
+ * distances across coordinates without letting asymptotes dominate.
+ */
+function getCoordinateScales(coordinates: number[][]): number[] {
+  return coordinates[0].map((_, i) => {
+    const values = coordinates.map((point) => point[i]).sort((a, b) => a - b);
+    const low = values[Math.floor((values.length - 1) * 0.05)];
+    const high = values[Math.ceil((values.length - 1) * 0.95)];
+    return high - low > 0 ? high - low : 1;
+  });
+}
+
+/**
+ * Sample the semantics function across a single parameter range.
+ * Starts from uniform samples and adaptively refines intervals where the
+ * line bends sharply, moves fast or becomes undefined, within a budget of
+ * extra evaluations. The line is split into segments with break points (see
+ * isLineBreak) at discontinuities and wherever no finite point is produced.
+ * Mutates the given variable snapshot, so callers should pass a copy.
+ *
+ * @param variables - Variable snapshot to sample with
+ * @param semantics - The semantics function
+ * @param parameter - The variable to vary during sampling
+ * @param range - The range to sample [min, max]
+ * @param samples - Number of uniform samples (samples + 1 points are evaluated
+ *                  before refinement, which adds at most 3 * samples more)
+ * @param graphId - Graph ID to match data calls
+ * @param extractor - Point extractor (extractPoint2D or extractPoint3D)
+ * @param onError - Optional handler for errors thrown by the semantics
+ * @param onDependencies - Optional handler for the variables each sample read
+ * @returns Array of extracted points and breaks
+ */
+export function sampleLine<T extends IPoint2D | IPoint3D>(
+  variables: Record<string, IVariable>,
+  semantics: ISemantics,
+  parameter: string,
+  range: [number, number],
+  samples: number,
+  graphId: string,
+  extractor: IPointExtractor<T>,
+  onError?: ISamplingErrorHandler,
+  onDependencies?: ISamplingDependencyHandler
+): T[] {
+  const [min, max] = range;
+  const step = (max - min) / samples;
+  const evaluate = (t: number): ILineSample<T> => {
+    variables[parameter] = { ...variables[parameter], value: t };
+    const point = computePoint(
+      variables,
+      semantics,
+      graphId,
+      extractor,
+      onError,
+      onDependencies
+    );
+    return { t, point };
+  };
+
+  let lineSamples: ILineSample<T>[] = [];
+  for (let i = 0; i <= samples; i++) {
+    lineSamples.push(evaluate(min + i * step));
+  }
+
+  const definedPoints = lineSamples
+    .map((sample) => sample.point)
+    .filter((point): point is T => point !== null);
+  if (definedPoints.length === 0) return [];
+  const scales = getCoordinateScales(
+    definedPoints.map((point) => Object.values(point))
+  );
+
+  // Normalized vector from a to b
+  const delta = (a: T, b: T) => {
+    const from = Object.values(a);
+    return Object.values(b).map((value, i) => (value - from[i]) / scales[i]);
+  };
+  const length = (v: number[]) => Math.hypot(...v);
+  const chord = (index: number): number | null => {
+    const a = lineSamples[index]?.point;
+    const b = lineSamples[index + 1]?.point;
+    return a && b ? length(delta(a, b)) : null;
+  };
+  // Turning angle of the line at a sample, 0 where it cannot be measured
+  const turn = (index: number): number => {
+    const prev = lineSamples[index - 1]?.point;
+    const point = lineSamples[index]?.point;
+    const next = lineSamples[index + 1]?.point;
+    if (!prev || !point || !next) return 0;
+    const d1 = delta(prev, point);
+    const d2 = delta(point, next);
+    const norm = length(d1) * length(d2);
+    if (norm === 0) return 0;
+    const dot = d1.reduce((sum, value, i) => sum + value * d2[i], 0);
+    return Math.acos(Math.max(-1, Math.min(1, dot / norm)));
+  };
+  // Priority of refining the interval after a sample; above 1 means refine
+  const refinementScore = (index: number): number => {
+    const a = lineSamples[index].point;
+    const b = lineSamples[index + 1].point;
+    if (!a && !b) return 0;
+    // Locate the edge of an undefined region first
+    if (!a || !b) return Infinity;
+    return Math.max(
+      (chord(index) ?? 0) / SEGMENT_TOLERANCE,
+      Math.max(turn(index), turn(index + 1)) / BEND_TOLERANCE
+    );
+  };
+
+  let budget = REFINE_BUDGET_FACTOR * samples;
+  for (let depth = 0; depth < MAX_REFINE_DEPTH && budget > 0; depth++) {
+    const candidates: { index: number; score: number }[] = [];
+    for (let i = 0; i < lineSamples.length - 1; i++) {
+      const score = refinementScore(i);
+      if (score > 1) candidates.push({ index: i, score });
+    }
+    if (candidates.length === 0) break;
+    // Spend the budget on the worst intervals first
+    candidates.sort((a, b) => b.score - a.score);
+    const refined = new Set(
+      candidates.slice(0, budget).map((candidate) => candidate.index)
+    );
+    budget -= refined.size;
+
+    const nextSamples: ILineSample<T>[] = [];
+    lineSamples.forEach((sample, i) => {
+      nextSamples.push(sample);
+      if (refined.has(i)) {
+        nextSamples.push(evaluate((sample.t + lineSamples[i + 1].t) / 2));
+      }
+    });
+    lineSamples = nextSamples;
+  }
+
+  // Intervals at the finest resolution, where a remaining jump is genuine
+  const minInterval = Math.abs(step) / 2 ** MAX_REFINE_DEPTH;
+  const isJump = (index: number): boolean => {
+    const jump = chord(index);
+    if (jump === null || jump <= SEGMENT_TOLERANCE) return false;
+    const before = chord(index - 1);
+    const after = chord(index + 1);
+    const interval = Math.abs(lineSamples[index + 1].t - lineSamples[index].t);
+    if (
+      interval <= minInterval * 1.5 &&
+      jump > JUMP_RATIO * Math.max(before ?? 0, after ?? 0)
+    ) {
+      return true;
+    }
+    // Asymptotes: the interval reverses the direction of both neighbors
+    if (jump <= JUMP_TOLERANCE || before === null || after === null) {
+      return false;
+    }
+    const [prev, a, b, next] = [-1, 0, 1, 2].map(
+      (offset) => lineSamples[index + offset].point as T
+    );
+    const direction = delta(a, b);
+    const dot = (v: number[]) =>
+      v.reduce((sum, value, i) => sum + value * direction[i], 0);
+    return dot(delta(prev, a)) < 0 && dot(delta(b, next)) < 0;
+  };
+
+  const points: T[] = [];
+  lineSamples.forEach(({ point }, i) => {
+    const last = points[points.length - 1];
+    if (!point) {
+      if (last && !isLineBreak(last)) points.push(createLineBreak(last));
+      return;
+    }
+    if (last && !isLineBreak(last) && isJump(i - 1)) {
+      points.push(createLineBreak(point));
+    }
+    points.push(point);
+  });
+  if (points.length > 0 && isLineBreak(points[points.length - 1])) {
+    points.pop();
+  }
+  return points;
+}
+
+/**
+ * Sample the semantics function across a 2D parameter grid.
+ * Points are ordered row by row: for each value of param1, every value of param2.
+ * Mutates the given variable snapshot, so callers should pass a copy.
+ *
+ * @param variables - Variable snapshot to sample with
+ * @param semantics - The semantics function
+ * @param parameters - The two variables to vary [param1, param2]
+ * @param ranges - The ranges for each parameter [[min1, max1], [min2, max2]]
+ * @param samples - Number of samples per dimension
+ * @param graphId - Graph ID to match data3d() calls
+ * @param onError - Optional handler for errors thrown by the semantics
+ * @param onDependencies - Optional handler for the variables each sample read
+ * @returns Array of {x, y, z} points
+ */
+export function sampleSurfaceGrid(
+  variables: Record<string, IVariable>,
+  semantics: ISemantics,
+  parameters: [string, string],
+  ranges: [[number, number], [number, number]],
+  samples: number,
+  graphId: string,
+  onError?: ISamplingErrorHandler,
+  onDependencies?: ISamplingDependencyHandler
+): IPoint3D[] {
+  const [param1, param2] = parameters;
+  const [[min1, max1], [min2, max2]] = ranges;
+  const step1 = (max1 - min1) / samples;
+  const step2 = (max2 - min2) / samples;
+  const points: IPoint3D[] = [];
+  for (let i = 0; i <= samples; i++) {
+    const value1 = min1 + i * step1;
+    for (let j = 0; j <= samples; j++) {
+      const value2 = min2 + j * step2;
+      variables[param1] = { ...variables[param1], value: value1 };
+      variables[param2] = { ...variables[param2], value: value2 };
+      const point = computePoint(
+        variables,
+        semantics,
+        graphId,
+        extractPoint3D,
+        onError,
+        onDependencies
+      );
+      if (point) points.push(point);
+    }
+  }
+  return points;
+}
+
+/**
+ * Sample the semantics function at the cell centers of a 2D parameter grid
+ * to collect the arrows of a vector or slope field.
+ * Vectors are ordered row by row: for each value of param1, every value of param2.
+ * Mutates the given variable snapshot, so callers should pass a copy.
+ *
+ * @param variables - Variable snapshot to sample with
+ * @param semantics - The semantics function
+ * @param parameters - The two variables to vary [param1, param2]
+ * @param ranges - The ranges for each parameter [[min1, max1], [min2, max2]]
+ * @param density - Number of grid cells per dimension
+ * @param graphId - Graph ID to match data2d() calls
+ * @param onError - Optional handler for errors thrown by the semantics
+ * @param onDependencies - Optional handler for the variables each sample read
+ * @returns Array of {x, y, dx, dy} vectors
+ */
+export function sampleFieldGrid(
+  variables: Record<string, IVariable>,
+  semantics: ISemantics,
+  parameters: [string, string],
+  ranges: [[number, number], [number, number]],
+  density: number,
+  graphId: string,
+  onError?: ISamplingErrorHandler,
+  onDependencies?: ISamplingDependencyHandler
+): IFieldVector[] {
+  const [param1, param2] = parameters;
+  const [[min1, max1], [min2, max2]] = ranges;
+  const step1 = (max1 - min1) / density;
+  const step2 = (max2 - min2) / density;
+  const vectors: IFieldVector[] = [];
+  for (let i = 0; i < density; i++) {
+    const value1 = min1 + (i + 0.5) * step1;
+    for (let j = 0; j < density; j++) {
+      const value2 = min2 + (j + 0.5) * step2;
+      variables[param1] = { ...variables[param1], value: value1 };
+      variables[param2] = { ...variables[param2], value: value2 };
+      const vector = computePoint(
+        variables,
+        semantics,
+        graphId,
+        extractFieldVector,
+        onError,
+        onDependencies
+      );
+      if (vector) vectors.push(vector);
+    }
+  }
+  return vectors;
+}
+
+/**
+ * Sample a scalar at the vertices of a 2D parameter grid, e.g. to trace the
+ * level sets of an implicit curve.
+ * Samples are ordered row by row: for each value of param1, every value of param2.
+ * The grid is always complete, with (samples + 1)^2 entries: vertices without a
+ * valid sample keep their parameter values as position and a NaN value.
+ * Mutates the given variable snapshot, so callers should pass a copy.
+ *
+ * @param variables - Variable snapshot to sample with
+ * @param semantics - The semantics function
+ * @param parameters - The two variables to vary [param1, param2]
+ * @param ranges - The ranges for each parameter [[min1, max1], [min2, max2]]
+ * @param samples - Number of grid cells per dimension
+ * @param graphId - Graph ID to match data2d() calls
+ * @param onError - Optional handler for errors thrown by the semantics
+ * @param onDependencies - Optional handler for the variables each sample read
+ * @returns Array of {x, y, value} samples
+ */
+export function sampleScalarGrid(
+  variables: Record<string, IVariable>,
+  semantics: ISemantics,
+  parameters: [string, string],
+  ranges: [[number, number], [number, number]],
+  samples: number,
+  graphId: string,
+  onError?: ISamplingErrorHandler,
+  onDependencies?: ISamplingDependencyHandler
+): IScalarSample[] {
+  const [param1, param2] = parameters;
+  const [[min1, max1], [min2, max2]] = ranges;
+  const step1 = (max1 - min1) / samples;
+  const step2 = (max2 - min2) / samples;
+  const grid: IScalarSample[] = [];
+  for (let i = 0; i <= samples; i++) {
+    const value1 = min1 + i * step1;
+    for (let j = 0; j <= samples; j++) {
+      const value2 = min2 + j * step2;
+      variables[param1] = { ...variables[param1], value: value1 };
+      variables[param2] = { ...variables[param2], value: value2 };
+      const sample = computePoint(
+        variables,
+        semantics,
+        graphId,
+        extractScalarSample,
+        onError,
+        onDependencies
+      );
+      grid.push(sample ?? { x: value1, y: value2, value: NaN });
+    }
+  }
+  return grid;
+}
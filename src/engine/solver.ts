@@ -0,0 +1,122 @@
+/**
+ * Numeric root finding for solving computed variables.
+ *
+ * Used when a dragged output cannot be inverted symbolically: the semantics
+ * function is treated as a black box mapping one input to the output.
+ *
+ * @module engine/solver
+ */
+
+/**
+ * Evaluates the output for a candidate input value.
+ * Returns null when the output is not a finite number.
+ */
+export type ISolverFunction = (input: number) => number | null;
+
+const MAX_ITERATIONS = 50;
+const SCAN_INTERVALS = 64;
+
+const isClose = (a: number, b: number): boolean =>
+  Math.abs(a - b) <= 1e-9 * Math.max(1, Math.abs(b));
+
+const inRange = (value: number, range?: [number, number]): boolean =>
+  !range || (value >= range[0] && value <= range[1]);
+
+/**
+ * Refine the secant method from the current input value.
+ * Fast for smooth outputs, but may diverge or leave the range.
+ */
+function secant(
+  fn: ISolverFunction,
+  target: number,
+  initial: number,
+  step: number
+): number | null {
+  let x0 = initial;
+  let x1 = initial + step;
+  let f0 = fn(x0);
+  let f1 = fn(x1);
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    if (f0 === null || f1 === null) return null;
+    if (isClose(f1, target)) return x1;
+    if (f1 === f0) return null;
+    const x2 = x1 - ((f1 - target) * (x1 - x0)) / (f1 - f0);
+    if (!Number.isFinite(x2)) return null;
+    x0 = x1;
+    f0 = f1;
+    x1 = x2;
+    f1 = fn(x1);
+  }
+  return f1 !== null && isClose(f1, target) ? x1 : null;
+}
+
+/**
+ * Scan the range for sign changes and bisect the bracket closest to the
+ * current input value. Slower than the secant method, but always stays in range.
+ */
+function bisectRange(
+  fn: ISolverFunction,
+  target: number,
+  initial: number,
+  range: [number, number]
+): number | null {
+  const [min, max] = range;
+  const width = (max - min) / SCAN_INTERVALS;
+  let best: [number, number] | null = null;
+  let previous = fn(min);
+  for (let i = 1; i <= SCAN_INTERVALS; i++) {
+    const x = min + i * width;
+    const current = fn(x);
+    if (
+      previous !== null &&
+      current !== null &&
+      Math.sign(previous - target) !== Math.sign(current - target)
+    ) {
+      const distance = Math.abs(x - width / 2 - initial);
+      if (!best || distance < Math.abs((best[0] + best[1]) / 2 - initial)) {
+        best = [x - width, x];
+      }
+    }
+    previous = current;
+  }
+  if (!best) return null;
+
+  let [low, high] = best;
+  const lowSign = Math.sign((fn(low) ?? target) - target);
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const middle = (low + high) / 2;
+    const value = fn(middle);
+    if (value === null) return null;
+    if (isClose(value, target)) return middle;
+    if (Math.sign(value - target) === lowSign) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * Find an input value for which the output equals the target.
+ * Tries the secant method from the current value first, then falls back to
+ * bisection over the input's range.
+ *
+ * @param fn - Maps an input value to the output value
+ * @param target - The desired output value
+ * @param initial - The current input value
+ * @param step - Initial secant step, e.g. the input's drag step
+ * @param range - The input's allowed range, if any
+ * @returns The input value, or null if no solution was found
+ */
+export function findRoot(
+  fn: ISolverFunction,
+  target: number,
+  initial: number,
+  step: number,
+  range?: [number, number]
+): number | null {
+  const result = secant(fn, target, initial, step);
+  if (result !== null && inRange(result, range)) return result;
+  return range ? bisectRange(fn, target, initial, range) : null;
+}
@@ -0,0 +1,41 @@
+/**
+ * Semantics Source Positions
+ *
+ * Functions compiled from source text here are tagged with a source URL, so
+ * stack traces taken while they run point into their source. Step collection
+ * uses this to record the line of each step() call.
+ *
+ * @module engine/source
+ */
+
+// Script name of compiled functions in stack traces
+const SOURCE_URL = "formulize-semantics.js";
+
+const SOURCE_FRAME = new RegExp(
+  `${SOURCE_URL.replace(".", "\\.")}:(\\d+):\\d+`
+);
+
+/**
+ * Compile a function expression from its source text in the global scope.
+ * The source starts on line 1, so stack trace lines are lines of the source.
+ *
+ * @param source - Function source, e.g. from `fn.toString()`
+ * @returns The value of the expression
+ * @throws SyntaxError if the source is not a valid expression
+ */
+export function compileFunction(source: string): unknown {
+  // Indirect eval runs in the global scope, like new Function, but does not
+  // wrap the source in a function header that would shift its lines
+  const globalEval = eval;
+  return globalEval(`(${source}\n)\n//# sourceURL=${SOURCE_URL}`);
+}
+
+/**
+ * Get the source line the innermost compiled function is running, e.g. the
+ * line of the step() call that is being collected.
+ * @returns The one-based line, or undefined outside of compiled functions
+ */
+export function getSourceLine(): number | undefined {
+  const match = new Error().stack?.match(SOURCE_FRAME);
+  return match ? Number(match[1]) : undefined;
+}
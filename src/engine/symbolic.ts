@@ -0,0 +1,776 @@
+/**
+ * Symbolic Engine
+ *
+ * Derives a semantics function from the formulas themselves. Each
+ * assignment-style formula (`K = \frac{1}{2} m v^2`) is parsed into an
+ * AugmentedFormula tree, compiled into a mathjs expression, and evaluated
+ * whenever its inputs change. Used when a config leaves out `semantics`.
+ *
+ * @module engine/symbolic
+ */
+import { EvalFunction, MathNode, all, create } from "mathjs";
+
+import { ISemantics } from "../types/computation";
+import { IFormula } from "../types/formula";
+import { IVariable } from "../types/variable";
+import {
+  AugmentedFormulaNode,
+  MathSymbol,
+  Op,
+  deriveTreeWithVars,
+  parseVariableStrings,
+} from "../util/parse/formula-tree";
+
+const math = create(all);
+
+// Big operators are compiled to calls of these helpers with an inline
+// function for the body, e.g. summation(1, n, f(idx0) = X[idx0]). Over a set,
+// the body also receives the 1-based position of the value.
+math.import({
+  summation: (from: number, to: number, body: (i: number) => number) => {
+    let total = 0;
+    for (let i = from; i <= to; i++) total += body(i);
+    return total;
+  },
+  product: (from: number, to: number, body: (i: number) => number) => {
+    let total = 1;
+    for (let i = from; i <= to; i++) total *= body(i);
+    return total;
+  },
+  summationOver: (
+    values: unknown,
+    body: (value: number, position: number) => number
+  ) =>
+    toArray(values).reduce((total, value, i) => total + body(value, i + 1), 0),
+  productOver: (
+    values: unknown,
+    body: (value: number, position: number) => number
+  ) =>
+    toArray(values).reduce((total, value, i) => total * body(value, i + 1), 1),
+});
+
+/**
+ * A formula compiled into an assignment of one variable.
+ * @property formulaId - The IFormula ID the assignment came from
+ * @property target - The variable being assigned
+ * @property inputs - Variables read by the expression
+ * @property symbols - The mathjs symbol name of each input
+ * @property expression - The mathjs expression source
+ * @property compiled - The compiled mathjs expression
+ */
+export interface ICompiledAssignment {
+  formulaId: string;
+  target: string;
+  inputs: string[];
+  symbols: Record<string, string>;
+  expression: string;
+  compiled: EvalFunction;
+}
+
+// LaTeX operators that map directly to mathjs functions
+const FUNCTIONS: Record<string, string> = {
+  "\\sin": "sin",
+  "\\cos": "cos",
+  "\\tan": "tan",
+  "\\cot": "cot",
+  "\\sec": "sec",
+  "\\csc": "csc",
+  "\\arcsin": "asin",
+  "\\arccos": "acos",
+  "\\arctan": "atan",
+  "\\sinh": "sinh",
+  "\\cosh": "cosh",
+  "\\tanh": "tanh",
+  "\\exp": "exp",
+  "\\ln": "log",
+  "\\log": "log10",
+  "\\min": "min",
+  "\\max": "max",
+};
+
+const BINARY_OPERATORS: Record<string, string> = {
+  "+": "+",
+  "-": "-",
+  "*": "*",
+  "/": "/",
+  "\\cdot": "*",
+  "\\times": "*",
+  "\\div": "/",
+};
+
+const CONSTANTS: Record<string, string> = {
+  "\\pi": "pi",
+  e: "e",
+  "\\infty": "Infinity",
+};
+
+const SPACES = new Set(["\\,", "\\:", "\\;", "\\!", "\\quad", "\\qquad", " "]);
+
+interface ICompileContext {
+  // Variable ID -> mathjs symbol name
+  symbols: Map<string, string>;
+  // Summation index (LaTeX) -> mathjs parameter name, shadowing variables
+  locals: Map<string, string>;
+  // Index of a sum over a set -> mathjs parameter name of its position
+  positions: Map<string, string>;
+  // Variable ID -> the index its values are keyed by, e.g. P(x) keyed by x
+  keys: Map<string, string>;
+  // Variables the expression reads
+  inputs: Set<string>;
+}
+
+function toArray(values: unknown): number[] {
+  if (Array.isArray(values)) return values.flat(Infinity) as number[];
+  if (math.isMatrix(values)) return values.toArray().flat(Infinity) as number[];
+  throw new TypeError("Expected a set or list of values to iterate over");
+}
+
+const getVariableIds = (variables: Record<string, IVariable>): string[] =>
+  Object.keys(variables).filter((id) => id.length > 0);
+
+// Variable IDs are arbitrary LaTeX, so each gets a plain mathjs symbol name
+const createSymbolNames = (variableIds: string[]): Map<string, string> =>
+  new Map(variableIds.map((id, i) => [id, `var${i}`]));
+
+function unsupported(node: AugmentedFormulaNode): Error {
+  return new Error(
+    `Unsupported formula syntax: ${node.toLatex("no-id", 0)[0].trim()}`
+  );
+}
+
+const symbolValue = (node: AugmentedFormulaNode): string | null =>
+  node.type === "symbol" ? node.value : null;
+
+const isSpace = (node: AugmentedFormulaNode): boolean =>
+  node.type === "space" || SPACES.has(symbolValue(node) ?? "");
+
+const isDigit = (node: AugmentedFormulaNode): boolean =>
+  /^[0-9.]$/.test(symbolValue(node) ?? "");
+
+const isAdditive = (node: AugmentedFormulaNode): boolean => {
+  const value = symbolValue(node);
+  return value === "+" || value === "-" || value === "=";
+};
+
+// The delimiter a node closes a group with, unwrapping the superscript of a
+// closing delimiter such as the )^2 of (a+b)^2
+const delimiterValue = (node: AugmentedFormulaNode): string | null =>
+  node.type === "script" && !node.sub
+    ? symbolValue(node.base)
+    : symbolValue(node);
+
+/**
+ * The operator node of a function or big operator, unwrapping scripts
+ * such as \sin^2 or \sum_{i=1}^{n}.
+ */
+function getOperator(node: AugmentedFormulaNode): Op | null {
+  if (node.type === "op") return node;
+  if (node.type === "script" && node.base.type === "op") return node.base;
+  return null;
+}
+
+function resolveVariable(id: string, context: ICompileContext): string | null {
+  const local = context.locals.get(id);
+  if (local) return local;
+  const symbol = context.symbols.get(id);
+  if (!symbol) return null;
+  context.inputs.add(id);
+  // Inside a sum over a set, a keyed variable holds one value per member
+  const position = context.positions.get(context.keys.get(id) ?? "");
+  return position ? `${symbol}[${position}]` : symbol;
+}
+
+/**
+ * Resolve an indexed variable such as X_i inside a sum over i to X[i].
+ * mathjs indices are 1-based, matching the usual \sum_{i=1}^{n} bounds.
+ */
+function resolveIndexed(id: string, context: ICompileContext): string | null {
+  const match = id.match(/^(.+?)_\{?([^{}]+)\}?$/);
+  if (!match) return null;
+  const [, base, index] = match;
+  const indexSymbol = context.locals.get(index);
+  if (!indexSymbol) return null;
+  const baseSymbol = resolveVariable(base, context);
+  return baseSymbol ? `${baseSymbol}[${indexSymbol}]` : null;
+}
+
+// LaTeX name of a variable or symbol node, e.g. the X and i of X_i
+const nodeName = (node: AugmentedFormulaNode): string | null =>
+  node.type === "variable" ? node.originalSymbol : symbolValue(node);
+
+/**
+ * Compile a subscripted variable such as X_i inside a sum over i to X[i],
+ * when X_i itself is not a variable.
+ */
+function compileIndexed(
+  script: AugmentedFormulaNode,
+  context: ICompileContext
+): string {
+  if (script.type !== "script" || !script.sub) throw unsupported(script);
+  const sub =
+    script.sub.type === "group" && script.sub.body.length === 1
+      ? script.sub.body[0]
+      : script.sub;
+  const indexName = nodeName(sub);
+  const baseName = nodeName(script.base);
+  const indexSymbol = indexName ? context.locals.get(indexName) : undefined;
+  const baseSymbol =
+    indexSymbol && baseName ? resolveVariable(baseName, context) : null;
+  if (!baseSymbol) throw unsupported(script);
+  return `${baseSymbol}[${indexSymbol}]`;
+}
+
+function compileSymbol(node: MathSymbol, context: ICompileContext): string {
+  if (isDigit(node)) return node.value;
+  const variable = resolveVariable(node.value, context);
+  if (variable) return variable;
+  const constant = CONSTANTS[node.value];
+  if (constant) return constant;
+  throw new Error(`Unknown symbol "${node.value}" in formula`);
+}
+
+function compileNode(
+  node: AugmentedFormulaNode,
+  context: ICompileContext
+): string {
+  switch (node.type) {
+    case "variable":
+      return (
+        resolveIndexed(node.originalSymbol, context) ??
+        resolveVariable(node.originalSymbol, context) ??
+        compileNode(node.body, context)
+      );
+    case "symbol":
+      return compileSymbol(node, context);
+    case "group":
+    case "color":
+      return `(${compileSequence(node.body, context)})`;
+    case "box":
+    case "strikethrough":
+    case "brace":
+      return compileNode(
+        node.type === "brace" ? node.base : node.body,
+        context
+      );
+    case "frac":
+      return `(${compileNode(node.numerator, context)}) / (${compileNode(node.denominator, context)})`;
+    case "root":
+      return node.index
+        ? `nthRoot(${compileNode(node.body, context)}, ${compileNode(node.index, context)})`
+        : `sqrt(${compileNode(node.body, context)})`;
+    case "script": {
+      const base = node.sub
+        ? compileIndexed(node, context)
+        : compileNode(node.base, context);
+      return node.sup
+        ? `(${base}) ^ (${compileNode(node.sup, context)})`
+        : base;
+    }
+    case "delimited": {
+      const body = compileSequence(node.body, context);
+      if (node.left === "|" || node.left === "\\vert") return `abs(${body})`;
+      if (node.left === "\\|" || node.left === "\\Vert") return `norm(${body})`;
+      return `(${body})`;
+    }
+    case "matrix":
+      return `[${node.body
+        .map(
+          (row) =>
+            `[${row.map((cell) => compileNode(cell, context)).join(", ")}]`
+        )
+        .join(", ")}]`;
+    default:
+      throw unsupported(node);
+  }
+}
+
+/**
+ * Compile a big operator (\sum or \prod) applied to the nodes that follow it.
+ * Supports index ranges (\sum_{i=1}^{n}) and iteration over a set (\sum_{x \in X}).
+ */
+function compileBigOperator(
+  script: AugmentedFormulaNode,
+  body: AugmentedFormulaNode[],
+  context: ICompileContext
+): string {
+  const operator = getOperator(script)!.operator;
+  if (script.type !== "script" || !script.sub) throw unsupported(script);
+  const sub = script.sub.type === "group" ? script.sub.body : [script.sub];
+  const indexName = nodeName(sub[0]);
+  const relation = sub[1] ? symbolValue(sub[1]) : null;
+  if (!indexName || (relation !== "=" && relation !== "\\in")) {
+    throw unsupported(script);
+  }
+  const bound = sub.slice(2);
+
+  const parameter = `idx${context.locals.size}`;
+  const locals = new Map(context.locals).set(indexName, parameter);
+  const isSum = operator === "\\sum";
+
+  if (relation === "\\in") {
+    // Variables keyed by the index are read at the member's position
+    const position = `pos${context.locals.size}`;
+    const positions = new Map(context.positions).set(indexName, position);
+    const bodyExpression = compileSequence(body, {
+      ...context,
+      locals,
+      positions,
+    });
+    const values = compileSequence(bound, context);
+    return `${isSum ? "summationOver" : "productOver"}(${values}, f(${parameter}, ${position}) = ${bodyExpression})`;
+  }
+  const bodyExpression = compileSequence(body, { ...context, locals });
+  const fn = `f(${parameter}) = ${bodyExpression}`;
+  if (!script.sup) throw unsupported(script);
+  const from = compileSequence(bound, context);
+  const to = compileNode(script.sup, context);
+  return `${isSum ? "summation" : "product"}(${from}, ${to}, ${fn})`;
+}
+
+/**
+ * Compile a run of sibling nodes. Juxtaposed operands are multiplied
+ * (`mv^2` is m * v^2) and parentheses arrive as separate symbols.
+ */
+function compileSequence(
+  nodes: AugmentedFormulaNode[],
+  context: ICompileContext
+): string {
+  const parts: string[] = [];
+  let expectOperand = true;
+  const pushOperand = (expression: string) => {
+    if (!expectOperand) parts.push("*");
+    parts.push(expression);
+    expectOperand = false;
+  };
+
+  // Read a group in parentheses, brackets or bars starting at index i,
+  // returning it, the next index and its closing node. The closing node
+  // carries the superscript of the group, as in (a+b)^2.
+  const readGroup = (
+    i: number
+  ): [string, number, AugmentedFormulaNode] | null => {
+    const value = symbolValue(nodes[i]);
+    if (value === "(" || value === "[") {
+      const close = value === "(" ? ")" : "]";
+      let depth = 0;
+      for (let j = i; j < nodes.length; j++) {
+        if (symbolValue(nodes[j]) === value) depth++;
+        if (delimiterValue(nodes[j]) === close && --depth === 0) {
+          return [
+            `(${compileSequence(nodes.slice(i + 1, j), context)})`,
+            j + 1,
+            nodes[j],
+          ];
+        }
+      }
+      throw new Error(`Unbalanced "${value}" in formula`);
+    }
+    if (value === "|") {
+      for (let j = i + 1; j < nodes.length; j++) {
+        if (delimiterValue(nodes[j]) === "|") {
+          return [
+            `abs(${compileSequence(nodes.slice(i + 1, j), context)})`,
+            j + 1,
+            nodes[j],
+          ];
+        }
+      }
+      throw new Error('Unbalanced "|" in formula');
+    }
+    return null;
+  };
+
+  // Raise an expression to the superscript of a group's closing node, if any
+  const raiseToClose = (expression: string, close: AugmentedFormulaNode) =>
+    close.type === "script" && close.sup
+      ? `(${expression}) ^ (${compileNode(close.sup, context)})`
+      : expression;
+
+  // Read one operand starting at index i, returning it and the next index
+  const readOperand = (i: number): [string, number] => {
+    const node = nodes[i];
+    const group = readGroup(i);
+    if (group) {
+      const [expression, next, close] = group;
+      return [raiseToClose(expression, close), next];
+    }
+    if (isDigit(node)) {
+      let j = i;
+      let digits = "";
+      while (j < nodes.length && isDigit(nodes[j])) {
+        digits += symbolValue(nodes[j]);
+        j++;
+      }
+      return [digits, j];
+    }
+    const operator = getOperator(node);
+    if (operator && FUNCTIONS[operator.operator]) {
+      let j = i + 1;
+      while (j < nodes.length && isSpace(nodes[j])) j++;
+      if (j >= nodes.length) throw unsupported(node);
+      // The superscript of a parenthesized argument applies to the call
+      const group = readGroup(j);
+      const [argument, next] = group ?? readOperand(j);
+      let call = `${FUNCTIONS[operator.operator]}(${argument})`;
+      // \sin^2 x is (sin x)^2
+      if (node.type === "script" && node.sup) {
+        call = `(${call}) ^ (${compileNode(node.sup, context)})`;
+      }
+      // \sin(x)^2 is (sin x)^2 as well
+      return [group ? raiseToClose(call, group[2]) : call, next];
+    }
+    return [compileNode(node, context), i + 1];
+  };
+
+  let i = 0;
+  while (i < nodes.length) {
+    const node = nodes[i];
+    const value = symbolValue(node);
+    if (isSpace(node)) {
+      i++;
+    } else if (value === "\\pm" || value === "\\mp") {
+      // Either sign could be meant, so neither is picked
+      throw unsupported(node);
+    } else if (value && BINARY_OPERATORS[value]) {
+      // A leading + or - is a unary sign, which mathjs accepts as-is
+      if (expectOperand && value !== "-" && value !== "+") {
+        throw unsupported(node);
+      }
+      parts.push(BINARY_OPERATORS[value]);
+      expectOperand = true;
+      i++;
+    } else if (value === "!" && !expectOperand) {
+      parts[parts.length - 1] += "!";
+      i++;
+    } else if (
+      getOperator(node)?.operator === "\\sum" ||
+      getOperator(node)?.operator === "\\prod"
+    ) {
+      // The body of a big operator extends to the next + or -
+      let end = i + 1;
+      while (end < nodes.length && !isAdditive(nodes[end])) end++;
+      pushOperand(compileBigOperator(node, nodes.slice(i + 1, end), context));
+      i = end;
+    } else {
+      const [expression, next] = readOperand(i);
+      pushOperand(expression);
+      i = next;
+    }
+  }
+  if (expectOperand) {
+    throw new Error("Formula expression is incomplete");
+  }
+  return parts.join(" ");
+}
+
+/**
+ * The variable ID a side of an equation consists of, if it is a single variable.
+ */
+function getSingleVariable(
+  nodes: AugmentedFormulaNode[],
+  variableIds: Set<string>
+): string | null {
+  const content = nodes.filter((node) => !isSpace(node));
+  if (content.length !== 1) return null;
+  const node = content[0];
+  if (node.type === "variable") return node.originalSymbol;
+  if ((node.type === "group" || node.type === "color") && node.body.length) {
+    return getSingleVariable(node.body, variableIds);
+  }
+  const value = symbolValue(node);
+  return value && variableIds.has(value) ? value : null;
+}
+
+/**
+ * Compile an assignment-style formula (`target = expression`, or
+ * `expression = target`) into a mathjs expression.
+ *
+ * @param formula - The formula to compile
+ * @param variables - All variables, keyed by ID
+ * @returns The compiled assignment, or null if the formula is not an
+ * assignment to a computed variable
+ * @throws If the expression uses syntax that cannot be compiled
+ */
+export function compileFormula(
+  formula: IFormula,
+  variables: Record<string, IVariable>
+): ICompiledAssignment | null {
+  const variableIds = getVariableIds(variables);
+  const tree = deriveTreeWithVars(
+    formula.latex,
+    parseVariableStrings(variableIds),
+    variableIds
+  );
+  const nodes = tree.children;
+  const equals = nodes.flatMap((node, i) =>
+    symbolValue(node) === "=" ? [i] : []
+  );
+  if (equals.length !== 1) return null;
+  const left = nodes.slice(0, equals[0]);
+  const right = nodes.slice(equals[0] + 1);
+
+  const ids = new Set(variableIds);
+  let target = getSingleVariable(left, ids);
+  let expressionNodes = right;
+  if (!target || variables[target]?.input) {
+    target = getSingleVariable(right, ids);
+    expressionNodes = left;
+  }
+  if (!target || variables[target]?.input) return null;
+
+  const context: ICompileContext = {
+    symbols: createSymbolNames(variableIds),
+    locals: new Map(),
+    positions: new Map(),
+    keys: new Map(
+      variableIds.flatMap((id) => {
+        const key = variables[id].key;
+        return key ? [[id, key] as const] : [];
+      })
+    ),
+    inputs: new Set(),
+  };
+  const expression = compileSequence(expressionNodes, context);
+  const inputs = Array.from(context.inputs);
+  return {
+    formulaId: formula.id,
+    target,
+    inputs,
+    symbols: Object.fromEntries(
+      inputs.map((input) => [input, context.symbols.get(input)!])
+    ),
+    expression,
+    compiled: math.compile(expression),
+  };
+}
+
+/**
+ * Order assignments so that each runs after the assignments it reads from.
+ * Cyclic assignments keep their declaration order.
+ */
+function sortAssignments(
+  assignments: ICompiledAssignment[]
+): ICompiledAssignment[] {
+  const byTarget = new Map(assignments.map((a) => [a.target, a]));
+  const sorted: ICompiledAssignment[] = [];
+  const visited = new Set<ICompiledAssignment>();
+  const visit = (assignment: ICompiledAssignment) => {
+    if (visited.has(assignment)) return;
+    visited.add(assignment);
+    for (const input of assignment.inputs) {
+      const dependency = byTarget.get(input);
+      if (dependency) visit(dependency);
+    }
+    sorted.push(assignment);
+  };
+  assignments.forEach(visit);
+  return sorted;
+}
+
+function toValue(result: unknown, assignment: ICompiledAssignment) {
+  if (typeof result === "number") return result;
+  if (typeof result === "boolean") return result ? 1 : 0;
+  if (math.isMatrix(result)) return result.toArray();
+  throw new TypeError(
+    `Formula "${assignment.formulaId}" did not evaluate to a number for ${assignment.target}`
+  );
+}
+
+/**
+ * Assignments compiled from a config's formulas.
+ * @property assignments - Compiled assignments, ordered so dependencies run first
+ * @property errors - Messages for assignment formulas that failed to compile
+ */
+export interface ICompiledFormulas {
+  assignments: ICompiledAssignment[];
+  errors: string[];
+}
+
+/**
+ * Compile every assignment-style formula of a config.
+ * Formulas that are not assignments (e.g. `x + y + z = 1`) are ignored.
+ *
+ * @param formulas - The formulas from the config
+ * @param variables - All variables, keyed by ID
+ */
+export function compileFormulas(
+  formulas: IFormula[],
+  variables: Record<string, IVariable>
+): ICompiledFormulas {
+  const assignments: ICompiledAssignment[] = [];
+  const errors: string[] = [];
+  for (const formula of formulas) {
+    try {
+      const assignment = compileFormula(formula, variables);
+      if (assignment) assignments.push(assignment);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      errors.push(`Formula "${formula.id}": ${message}`);
+    }
+  }
+  return { assignments: sortAssignments(assignments), errors };
+}
+
+/**
+ * Create a semantics function that evaluates compiled assignments.
+ * Formulas that failed to compile are reported as an error on every run,
+ * after the remaining formulas have been evaluated.
+ *
+ * @param formulas - The compiled formulas
+ * @returns The semantics function, or null if there is nothing to evaluate
+ */
+export function createFormulaSemantics({
+  assignments,
+  errors,
+}: ICompiledFormulas): ISemantics | null {
+  if (assignments.length === 0 && errors.length === 0) return null;
+  return ({ vars }) => {
+    for (const assignment of assignments) {
+      // Read only the inputs through vars so dependency tracking stays precise
+      const scope: Record<string, unknown> = {};
+      for (const input of assignment.inputs) {
+        scope[assignment.symbols[input]] = vars[input];
+      }
+      vars[assignment.target] = toValue(
+        assignment.compiled.evaluate(scope),
+        assignment
+      );
+    }
+    if (errors.length > 0) {
+      throw new Error(errors.join("\n"));
+    }
+  };
+}
+
+// ============= Solving =============
+
+// Inverses of single-argument functions, used to isolate their argument
+const INVERSE_FUNCTIONS: Record<string, (value: number) => number> = {
+  sqrt: (value) => (value >= 0 ? value * value : NaN),
+  exp: Math.log,
+  log: Math.exp,
+  log10: (value) => Math.pow(10, value),
+  sin: Math.asin,
+  cos: Math.acos,
+  tan: Math.atan,
+  asin: Math.sin,
+  acos: Math.cos,
+  atan: Math.tan,
+  sinh: Math.asinh,
+  cosh: Math.acosh,
+  tanh: Math.atanh,
+};
+
+const countSymbol = (node: MathNode, name: string): number =>
+  node.filter((child) => math.isSymbolNode(child) && child.name === name)
+    .length;
+
+/**
+ * Isolate a symbol that occurs exactly once in an expression tree by
+ * applying inverse operations from the root down, evaluating the branches
+ * that do not contain the symbol.
+ * @returns The symbol's value, or null if an operation cannot be inverted
+ */
+function isolate(
+  node: MathNode,
+  name: string,
+  target: number,
+  scope: Record<string, unknown>
+): number | null {
+  if (!Number.isFinite(target)) return null;
+  if (math.isSymbolNode(node) && node.name === name) return target;
+  if (math.isParenthesisNode(node)) {
+    return isolate(node.content, name, target, scope);
+  }
+  if (math.isOperatorNode(node) && node.args.length === 1) {
+    if (node.fn === "unaryMinus")
+      return isolate(node.args[0], name, -target, scope);
+    if (node.fn === "unaryPlus")
+      return isolate(node.args[0], name, target, scope);
+    return null;
+  }
+  if (math.isOperatorNode(node) && node.args.length === 2) {
+    const [left, right] = node.args;
+    const inLeft = countSymbol(left, name) > 0;
+    const unknown = inLeft ? left : right;
+    const known = (inLeft ? right : left).evaluate(scope);
+    if (typeof known !== "number") return null;
+    let next: number;
+    switch (node.op) {
+      case "+":
+        next = target - known;
+        break;
+      case "-":
+        next = inLeft ? target + known : known - target;
+        break;
+      case "*":
+        if (known === 0) return null;
+        next = target / known;
+        break;
+      case "/":
+        if (!inLeft && target === 0) return null;
+        next = inLeft ? target * known : known / target;
+        break;
+      case "^": {
+        if (!inLeft) {
+          next = Math.log(target) / Math.log(known);
+          break;
+        }
+        // Keep the sign of the current value for even roots (x^2 = 4 -> x = ±2)
+        const current = unknown.evaluate(scope);
+        const root = Math.pow(Math.abs(target), 1 / known);
+        if (target < 0 && !(Number.isInteger(known) && known % 2 === 1)) {
+          return null;
+        }
+        next =
+          target < 0 || (typeof current === "number" && current < 0)
+            ? -root
+            : root;
+        break;
+      }
+      default:
+        return null;
+    }
+    return isolate(unknown, name, next, scope);
+  }
+  if (math.isFunctionNode(node) && node.args.length === 1) {
+    const inverse = INVERSE_FUNCTIONS[node.fn.name];
+    if (!inverse) return null;
+    return isolate(node.args[0], name, inverse(target), scope);
+  }
+  return null;
+}
+
+/**
+ * Solve an assignment symbolically for one of its inputs, so that the
+ * assigned variable takes the target value. Works when the input occurs
+ * exactly once in the expression and every operation on its path can be
+ * inverted (arithmetic, powers, roots, exp/log and trigonometric functions).
+ *
+ * @param assignment - The compiled assignment
+ * @param unknown - The input variable to solve for
+ * @param target - The desired value of the assigned variable
+ * @param values - Current values of the assignment's inputs
+ * @returns The input value, or null if the expression cannot be inverted
+ */
+export function solveAssignment(
+  assignment: ICompiledAssignment,
+  unknown: string,
+  target: number,
+  values: Record<string, unknown>
+): number | null {
+  const name = assignment.symbols[unknown];
+  if (!name) return null;
+  const root = math.parse(assignment.expression);
+  if (countSymbol(root, name) !== 1) return null;
+  const scope: Record<string, unknown> = {};
+  for (const input of assignment.inputs) {
+    scope[assignment.symbols[input]] = values[input];
+  }
+  try {
+    const result = isolate(root, name, target, scope);
+    return result !== null && Number.isFinite(result) ? result : null;
+  } catch {
+    return null;
+  }
+}
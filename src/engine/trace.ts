@@ -0,0 +1,351 @@
+/**
+ * Automatic Step Tracing
+ *
+ * Instruments the source of a semantics function so that every assignment to
+ * a variable through `vars` (e.g. `vars.x = 1`, `vars["\\bar{X}"] += 2`) and
+ * every loop iteration collects a step, without hand-written step() calls.
+ * Generated steps get a description and the values involved. An explicit
+ * step() call takes over the generated step just before it: its description
+ * replaces the generated one and its values are added to the generated ones.
+ *
+ * The semantics function is rebuilt from its source, so it must not use
+ * variables from its enclosing scope (as with worker sampling).
+ *
+ * @module engine/trace
+ */
+import { javascriptLanguage } from "@codemirror/lang-javascript";
+
+import { ISemantics, ISemanticsContext } from "../types/computation";
+import { IStepInput, IView } from "../types/step";
+import { IValue } from "../types/variable";
+import { toArrayValue } from "./matrix";
+import { compileFunction } from "./source";
+
+// Name of the tracer parameter of the instrumented function
+const TRACER = "__trace";
+
+type SyntaxNode = ReturnType<typeof javascriptLanguage.parser.parse>["topNode"];
+
+const LOOPS = ["ForStatement", "WhileStatement", "DoStatement"];
+
+/**
+ * Receives the calls inserted into the instrumented source.
+ * Lines are one-based and relative to the semantics source.
+ */
+interface ITracer {
+  assign: <T>(varId: string, line: number, result: T) => T;
+  enterLoop: (loopId: number) => void;
+  iterate: (
+    loopId: number,
+    line: number,
+    locals: Record<string, unknown>
+  ) => void;
+}
+
+interface IInsertion {
+  at: number;
+  text: string;
+}
+
+const lineAt = (source: string, position: number): number =>
+  source.slice(0, position).split("\n").length;
+
+const text = (source: string, node: SyntaxNode): string =>
+  source.slice(node.from, node.to);
+
+// Binding of the `vars` property in an object pattern, e.g. `a` in `{ vars: a }`
+function getPatternBinding(source: string, pattern: SyntaxNode): string | null {
+  for (const property of pattern.getChildren("PatternProperty")) {
+    const name = property.getChild("PropertyName");
+    if (name && text(source, name) === "vars") {
+      const binding = property.getChild("VariableDefinition");
+      return binding ? text(source, binding) : "vars";
+    }
+  }
+  return null;
+}
+
+/**
+ * How the function body refers to `vars`, read from its first parameter:
+ * `vars` (or a renamed binding) when destructured, `ctx.vars` otherwise.
+ * Minifiers rename destructured bindings, e.g. `({ vars: a }) => ...`.
+ * A context parameter may also be destructured at the top of the body,
+ * e.g. `ctx => { const { vars } = ctx; ... }`.
+ */
+function getVarsReference(source: string, params: SyntaxNode | null): string {
+  // Arrow functions with a single parameter may leave out the parentheses
+  const first = params?.firstChild;
+  const param = first?.name === "(" ? first.nextSibling : first;
+  if (param?.name === "VariableDefinition") {
+    const context = text(source, param);
+    const body = params?.parent?.getChild("Block");
+    for (const declaration of body?.getChildren("VariableDeclaration") ?? []) {
+      const pattern = declaration.getChild("ObjectPattern");
+      const value = declaration.getChild("VariableName");
+      if (pattern && value && text(source, value) === context) {
+        const binding = getPatternBinding(source, pattern);
+        if (binding) return binding;
+      }
+    }
+    return `${context}.vars`;
+  }
+  return (param && getPatternBinding(source, param)) ?? "vars";
+}
+
+// Variable ID of a `vars.x` or `vars["x"]` target, as a string literal
+function getVarKey(
+  source: string,
+  target: SyntaxNode | null,
+  varsReference: string
+): string | null {
+  if (target?.name !== "MemberExpression") return null;
+  const object = target.firstChild;
+  if (!object || text(source, object).replace(/\s/g, "") !== varsReference) {
+    return null;
+  }
+  const property = object.nextSibling?.nextSibling;
+  if (property?.name === "PropertyName") {
+    return JSON.stringify(text(source, property));
+  }
+  return property?.name === "String" ? text(source, property) : null;
+}
+
+// Names declared in a for loop's head, e.g. i in `for (let i = 0; ...)`
+function getLoopLocals(source: string, loop: SyntaxNode): string[] {
+  const spec =
+    loop.getChild("ForSpec") ??
+    loop.getChild("ForInSpec") ??
+    loop.getChild("ForOfSpec");
+  if (!spec) return [];
+  const names: string[] = [];
+  spec.cursor().iterate((node) => {
+    // The head ends where the loop body starts
+    if (node.from >= spec.to) return false;
+    if (node.name === "VariableDefinition") {
+      names.push(source.slice(node.from, node.to));
+    }
+    // Default values and initializers cannot declare loop variables
+    return node.name !== "ArrowFunction" && node.name !== "FunctionExpression";
+  });
+  return names;
+}
+
+// The statement run on each iteration of a loop
+const getLoopBody = (loop: SyntaxNode): SyntaxNode | null =>
+  loop.name === "DoStatement"
+    ? loop.firstChild?.nextSibling ?? null
+    : loop.lastChild;
+
+/**
+ * Insert tracer calls around assignments to `vars` and into loop bodies.
+ * @returns The instrumented source, or null if it cannot be parsed
+ */
+export function instrumentSource(source: string): string | null {
+  const tree = javascriptLanguage.parser.parse(source);
+  const insertions: IInsertion[] = [];
+  let isValid = true;
+  let loopCount = 0;
+  let varsReference: string | null = null;
+
+  tree.iterate({
+    enter: (ref) => {
+      if (ref.type.isError) {
+        isValid = false;
+        return false;
+      }
+      const node = ref.node;
+      if (varsReference === null && node.name === "ParamList") {
+        varsReference = getVarsReference(source, node);
+        return false;
+      }
+      const line = lineAt(source, node.from);
+      if (
+        node.name === "AssignmentExpression" ||
+        node.name === "PostfixExpression" ||
+        node.name === "UnaryExpression"
+      ) {
+        const target =
+          node.name === "UnaryExpression" ? node.lastChild : node.firstChild;
+        // Unary operators other than ++ and -- do not assign
+        const operator =
+          node.name === "UnaryExpression" ? node.firstChild : null;
+        if (operator && !["++", "--"].includes(text(source, operator))) {
+          return;
+        }
+        const key = getVarKey(source, target, varsReference ?? "vars");
+        if (key) {
+          insertions.push(
+            { at: node.from, text: `${TRACER}.assign(${key}, ${line}, (` },
+            { at: node.to, text: "))" }
+          );
+        }
+        return;
+      }
+      if (!LOOPS.includes(node.name)) return;
+      const body = getLoopBody(node);
+      if (!body) return;
+      const loopId = loopCount++;
+      const locals = getLoopLocals(source, node)
+        .map((name) => `${JSON.stringify(name)}: ${name}`)
+        .join(", ");
+      const iterate = `${TRACER}.iterate(${loopId}, ${line}, { ${locals} });`;
+      if (body.name === "Block") {
+        insertions.push({ at: body.from + 1, text: ` ${iterate}` });
+      } else {
+        insertions.push(
+          { at: body.from, text: `{ ${iterate} ` },
+          { at: body.to, text: " }" }
+        );
+      }
+      // Labeled loops must stay directly after their label
+      if (node.parent?.name !== "LabeledStatement") {
+        insertions.push(
+          { at: node.from, text: `{ ${TRACER}.enterLoop(${loopId}); ` },
+          { at: node.to, text: " }" }
+        );
+      }
+    },
+  });
+  if (!isValid) return null;
+
+  // Apply from the end so earlier positions stay valid. Insertions at the same
+  // position are applied in reverse so that opening text ends up outermost.
+  const sorted = insertions
+    .map((insertion, order) => ({ ...insertion, order }))
+    .sort((a, b) => b.at - a.at || b.order - a.order);
+  let result = source;
+  for (const { at, text: inserted } of sorted) {
+    result = result.slice(0, at) + inserted + result.slice(at);
+  }
+  return result;
+}
+
+const formatValue = (value: unknown): string => {
+  if (typeof value === "number") {
+    return String(Number.isInteger(value) ? value : +value.toPrecision(6));
+  }
+  return JSON.stringify(toArrayValue(value)) ?? String(value);
+};
+
+const isSingleView = (input: IStepInput): input is IView =>
+  typeof input === "object" && "description" in input;
+
+/**
+ * Create the tracer for one run of the semantics function.
+ * Generated steps are held back until the next step, so that an explicit
+ * step() call right after them can take them over.
+ */
+function createTracer(ctx: ISemanticsContext) {
+  let pending: IView | null = null;
+  const iterations = new Map<number, number>();
+
+  const flush = () => {
+    if (pending) ctx.step(pending);
+    pending = null;
+  };
+
+  const tracer: ITracer = {
+    assign: (varId, line, result) => {
+      flush();
+      const value = ctx.vars[varId];
+      pending = {
+        description: `Set $${varId}$ to ${formatValue(value)} (line ${line})`,
+        values: [[varId, toArrayValue(value) as IValue]],
+        line,
+      };
+      return result;
+    },
+    enterLoop: (loopId) => {
+      iterations.set(loopId, 0);
+    },
+    iterate: (loopId, line, locals) => {
+      flush();
+      const iteration = (iterations.get(loopId) ?? 0) + 1;
+      iterations.set(loopId, iteration);
+      const entries = Object.entries(locals);
+      const details = entries
+        .map(([name, value]) => `${name} = ${formatValue(value)}`)
+        .join(", ");
+      pending = {
+        description:
+          `Iteration ${iteration} of the loop on line ${line}` +
+          (details ? ` (${details})` : ""),
+        values: entries.map(([name, value]) => [name, value as IValue]),
+        line,
+      };
+    },
+  };
+
+  // An explicit step takes over the pending generated step
+  const step = (input: IStepInput, id?: string) => {
+    const generated = pending;
+    pending = null;
+    if (!generated || !isSingleView(input)) {
+      if (generated) ctx.step(generated);
+      ctx.step(input, id);
+      return;
+    }
+    const explicit = new Set(input.values?.map(([varId]) => varId));
+    ctx.step(
+      {
+        ...input,
+        values: [
+          ...(generated.values ?? []).filter(([varId]) => !explicit.has(varId)),
+          ...(input.values ?? []),
+        ],
+      },
+      id
+    );
+  };
+
+  // Generated steps stay inside the group they were generated in
+  const group = (label: string, fn: () => void) => {
+    flush();
+    ctx.step.group(label, () => {
+      try {
+        fn();
+      } finally {
+        flush();
+      }
+    });
+  };
+
+  return { tracer, step: Object.assign(step, { group }), flush };
+}
+
+/**
+ * Wrap a semantics function so that running it collects a step for every
+ * assignment to `vars` and every loop iteration.
+ *
+ * @param semantics - The semantics function to trace
+ * @returns The traced semantics function, or null if its source cannot be
+ * instrumented (e.g. native or bound functions)
+ */
+export function traceSemantics(semantics: ISemantics): ISemantics | null {
+  let source = semantics.toString().trim();
+  // Method shorthand, e.g. `semantics({ vars }) { ... }`
+  if (/^[\w$]+\s*\(/.test(source) && !source.startsWith("function")) {
+    source = `function ${source}`;
+  }
+  const instrumented = instrumentSource(`(${source})`);
+  if (!instrumented) return null;
+
+  let build: (tracer: ITracer) => ISemantics;
+  try {
+    // Inserted code keeps to the lines it is inserted on, so the lines of
+    // step() calls stay those of the original source
+    build = compileFunction(
+      `function (${TRACER}) { return ${instrumented}; }`
+    ) as typeof build;
+  } catch {
+    return null;
+  }
+  return (ctx: ISemanticsContext) => {
+    const { tracer, step, flush } = createTracer(ctx);
+    try {
+      build(tracer)({ ...ctx, step });
+    } finally {
+      flush();
+    }
+  };
+}
@@ -0,0 +1,373 @@
+/**
+ * Units Engine
+ *
+ * Parses the `units` strings of variables with mathjs, checks assignment
+ * formulas for dimensional consistency, and converts values between units
+ * of the same dimension. Values are stored in SI base units (e.g. a variable
+ * in km holds meters), so formulas that mix units of the same dimension
+ * compute correctly. Config values (default, range, step) are written in the
+ * declared units and converted when the variables are normalized; displays
+ * convert back to the variable's display units, or its declared units.
+ *
+ * Units mathjs does not know (e.g. "atoms") are treated as unknown and leave
+ * the formulas that use them unchecked. Offset units (degC, degF) are
+ * converted by scale only.
+ *
+ * @module engine/units
+ */
+import { Unit, all, create } from "mathjs";
+
+import { IUnitWarning } from "../types/computation";
+import { IValue, IVariable } from "../types/variable";
+import { ICompiledAssignment } from "./symbolic";
+
+const math = create(all);
+
+// The mathjs typings leave out typed-function's conversion API
+interface ITyped {
+  addConversion(conversion: {
+    from: string;
+    to: string;
+    convert: (value: Unit) => number;
+  }): void;
+}
+
+// Dimensionless quantities (e.g. f·t) stay mathjs Units; let them be used as
+// numbers so that `2πft + 1` and `sin(2πft)` check, while `x + 1` with x in m
+// still fails
+(math.typed as unknown as ITyped).addConversion({
+  from: "Unit",
+  to: "number",
+  convert: (unit: Unit) => {
+    if (!isDimensionless(unit)) {
+      throw new Error(
+        `Units do not match: expected a dimensionless value, got ${unit.formatUnits()}`
+      );
+    }
+    return toBaseValue(unit);
+  },
+});
+
+// Candidate display units, filtered by dimension for each variable
+const COMMON_UNITS = [
+  "mm",
+  "cm",
+  "m",
+  "km",
+  "in",
+  "ft",
+  "mi",
+  "mg",
+  "g",
+  "kg",
+  "t",
+  "lb",
+  "ms",
+  "s",
+  "min",
+  "hr",
+  "day",
+  "m/s",
+  "km/hr",
+  "mi/hr",
+  "m/s^2",
+  "N",
+  "kN",
+  "lbf",
+  "J",
+  "kJ",
+  "MJ",
+  "eV",
+  "Wh",
+  "kWh",
+  "W",
+  "kW",
+  "MW",
+  "hp",
+  "Pa",
+  "kPa",
+  "bar",
+  "atm",
+  "psi",
+  "L",
+  "mL",
+  "m^3",
+  "rad",
+  "deg",
+  "Hz",
+  "kHz",
+  "1/s",
+  "1/hr",
+];
+
+// Unicode exponents and operators that mathjs does not parse
+const REPLACEMENTS: [RegExp, string][] = [
+  [/⁻¹/g, "^-1"],
+  [/⁻²/g, "^-2"],
+  [/¹/g, "^1"],
+  [/²/g, "^2"],
+  [/³/g, "^3"],
+  [/[·⋅×]/g, "*"],
+  [/Ω/g, "ohm"],
+  [/µ|μ/g, "u"],
+];
+
+const normalizeUnits = (units: string): string =>
+  REPLACEMENTS.reduce(
+    (result, [pattern, replacement]) => result.replace(pattern, replacement),
+    units.trim()
+  );
+
+/**
+ * Parse a units string such as "m/s²" or "1/hr".
+ * @returns The parsed unit, or null for empty or unknown units
+ */
+export function parseUnits(units: string | undefined): Unit | null {
+  if (!units || !units.trim()) return null;
+  try {
+    const result = math.evaluate(normalizeUnits(units));
+    return math.isUnit(result) ? result : null;
+  } catch {
+    return null;
+  }
+}
+
+// Value of one of the unit in SI base units
+function toBaseValue(unit: Unit): number {
+  return (math.multiply(1, unit) as Unit).value as unknown as number;
+}
+
+function isDimensionless(unit: Unit): boolean {
+  return unit.dimensions.every((power) => power === 0);
+}
+
+// Angles are dimensionless, but mathjs gives them a dimension of their own
+const isAngle = (unit: Unit): boolean => unit.equalBase(math.unit("rad"));
+
+/**
+ * Whether two units strings measure the same dimension.
+ * False when either cannot be parsed.
+ */
+export function isCompatibleUnits(a: string, b: string): boolean {
+  const unitA = parseUnits(a);
+  const unitB = parseUnits(b);
+  return !!unitA && !!unitB && unitA.equalBase(unitB);
+}
+
+/**
+ * Convert a value in the given units to SI base units, e.g. 5 hr -> 18000.
+ * Values in unknown units are returned unchanged.
+ */
+export function toSI(value: number, units: string | undefined): number {
+  const unit = parseUnits(units);
+  return unit ? value * toBaseValue(unit) : value;
+}
+
+/**
+ * Convert a value in SI base units to the given units, e.g. 18000 -> 5 hr.
+ * Values in unknown units are returned unchanged.
+ */
+export function fromSI(value: number, units: string | undefined): number {
+  const unit = parseUnits(units);
+  return unit ? value / toBaseValue(unit) : value;
+}
+
+// Apply a conversion to every number of a scalar, set, vector or matrix
+const mapValue = (value: IValue, convert: (n: number) => number): IValue =>
+  typeof value === "number"
+    ? convert(value)
+    : (value.map((item) =>
+        Array.isArray(item)
+          ? item.map(convert)
+          : typeof item === "number"
+            ? convert(item)
+            : item
+      ) as IValue);
+
+// Convert the value, range and step of a variable with one conversion
+function convertVariable(
+  variable: IVariable,
+  convert: (n: number) => number
+): IVariable {
+  const { value, range, step } = variable;
+  return {
+    ...variable,
+    value: value === undefined ? undefined : mapValue(value, convert),
+    range: range && [convert(range[0]), convert(range[1])],
+    step: step === undefined ? undefined : convert(step),
+  };
+}
+
+/**
+ * Convert the value, range and step of a variable from its declared units to
+ * the SI base units it is stored in. Variables in unknown units are returned
+ * as they are.
+ */
+export function toSIVariable(variable: IVariable): IVariable {
+  const { units } = variable;
+  return parseUnits(units)
+    ? convertVariable(variable, (n) => toSI(n, units))
+    : variable;
+}
+
+/**
+ * Convert the value, range and step of a stored variable back to its declared
+ * units, as they are written in a config.
+ */
+export function fromSIVariable(variable: IVariable): IVariable {
+  const { units } = variable;
+  return parseUnits(units)
+    ? convertVariable(variable, (n) => fromSI(n, units))
+    : variable;
+}
+
+/**
+ * List the units a variable can be displayed in, including its own.
+ * Empty when the variable's units are unknown.
+ */
+export function getCompatibleUnits(units: string | undefined): string[] {
+  const unit = parseUnits(units);
+  if (!unit || !units) return [];
+  const normalized = normalizeUnits(units);
+  const compatible = COMMON_UNITS.filter((candidate) =>
+    parseUnits(candidate)?.equalBase(unit)
+  ).map((candidate) =>
+    normalizeUnits(candidate) === normalized ? units : candidate
+  );
+  return compatible.includes(units) ? compatible : [units, ...compatible];
+}
+
+// The display units when they can be converted to, else the declared units
+const getShownUnits = ({ units, displayUnits }: IVariable) =>
+  displayUnits && units && isCompatibleUnits(units, displayUnits)
+    ? displayUnits
+    : units;
+
+/**
+ * Get the value and units a variable is displayed with: the stored SI value
+ * converted to the display units, or else to the declared units. Values in
+ * unknown units are shown as they are stored.
+ */
+export function getDisplayQuantity(
+  value: number,
+  variable: IVariable
+): { value: number; units: string | undefined } {
+  const units = getShownUnits(variable);
+  return { value: fromSI(value, units), units };
+}
+
+/**
+ * Convert a value entered in the units a variable is displayed in to the SI
+ * value it is stored as. The inverse of getDisplayQuantity.
+ */
+export function fromDisplayValue(value: number, variable: IVariable): number {
+  return toSI(value, getShownUnits(variable));
+}
+
+/**
+ * Format units for LaTeX, e.g. "m/s^2" -> \text{m/s}^{2}.
+ */
+export function unitsToLatex(units: string): string {
+  return normalizeUnits(units)
+    .split(/(\^-?\d+)/)
+    .filter((part) => part.length > 0)
+    .map((part) =>
+      part.startsWith("^")
+        ? `^{${part.slice(1)}}`
+        : `\\text{${part.replace(/\*/g, "·")}}`
+    )
+    .join("");
+}
+
+const formatUnits = (unit: Unit): string => unit.simplify().formatUnits();
+
+/**
+ * Result of checking the assignment formulas for dimensional consistency.
+ * @property warnings - Formulas whose sides have different dimensions
+ * @property units - Units inferred for computed variables that declare none
+ */
+export interface IUnitAnalysis {
+  warnings: IUnitWarning[];
+  units: Record<string, string>;
+}
+
+// mathjs reports dimension errors with messages mentioning units
+const isUnitError = (error: unknown): error is Error =>
+  error instanceof Error && /\bunits?\b/i.test(error.message);
+
+/**
+ * Check each assignment by evaluating its expression with unit-carrying
+ * inputs and comparing the result with the target's units. Targets without
+ * units take the units of their expression, so they propagate to later
+ * assignments. Assignments with an input of unknown units are skipped.
+ *
+ * @param assignments - Compiled assignments, ordered so dependencies come first
+ * @param variables - All variables, keyed by ID
+ */
+export function analyzeUnits(
+  assignments: ICompiledAssignment[],
+  variables: Record<string, IVariable>
+): IUnitAnalysis {
+  const warnings: IUnitWarning[] = [];
+  const inferred: Record<string, string> = {};
+  const getUnits = (id: string) => variables[id]?.units ?? inferred[id];
+
+  for (const assignment of assignments) {
+    const scope: Record<string, unknown> = {};
+    const isCheckable = assignment.inputs.every((input) => {
+      const unit = parseUnits(getUnits(input));
+      const value = variables[input]?.value;
+      if (!unit || (value !== undefined && typeof value !== "number")) {
+        return false;
+      }
+      // The actual value keeps functions like log and sqrt in their domain.
+      // It is stored in SI, so it multiplies the unit's base.
+      const base = value ?? toBaseValue(unit);
+      scope[assignment.symbols[input]] = isAngle(unit)
+        ? base
+        : math.multiply(base / toBaseValue(unit), unit);
+      return true;
+    });
+    if (!isCheckable) continue;
+
+    let result: unknown;
+    try {
+      // Compiled here so the dimensionless conversion above applies.
+      // Big operators are not defined in this instance and stay unchecked.
+      result = math.evaluate(assignment.expression, scope);
+    } catch (error) {
+      if (isUnitError(error)) {
+        warnings.push({
+          formulaId: assignment.formulaId,
+          variable: assignment.target,
+          message: `The formula for ${assignment.target} combines incompatible units (${error.message})`,
+        });
+      }
+      continue;
+    }
+    if (typeof result !== "number" && !math.isUnit(result)) continue;
+
+    const actual = math.isUnit(result) ? result : null;
+    const declared = variables[assignment.target]?.units;
+    if (!declared) {
+      if (actual && !isDimensionless(actual)) {
+        inferred[assignment.target] = formatUnits(actual);
+      }
+      continue;
+    }
+    const expected = parseUnits(declared);
+    if (!expected) continue;
+    const expectsNumber = isDimensionless(expected) || isAngle(expected);
+    const matches = actual
+      ? actual.equalBase(expected) || (isDimensionless(actual) && expectsNumber)
+      : expectsNumber;
+    if (!matches) {
+      warnings.push({
+        formulaId: assignment.formulaId,
+        variable: assignment.target,
+        message: `${assignment.target} is in ${declared}, but its formula gives ${actual ? formatUnits(actual) : "a dimensionless value"}`,
+      });
+    }
+  }
+  return { warnings, units: inferred };
+}
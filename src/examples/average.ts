@@ -33,11 +33,13 @@ export const average = `const config = {
     var average = 0;
     step({ description: "Get the count $n$ of values", values: [["n", n]] });
     for (var i = 0; i < n; i++) {
-      var xi = xValues[i];
-      step({ description: "Get value $X_i$ from $X$", values: [["i", i + 1], ["X_i", xi], ["X", xValues]] });
-      step({ description: "Add $X_i$ to running sum of " + sum, values: [["X_i", xi]] });
-      sum = sum + xi;
-      step({ description: "Sum is now " + sum, expression: "\\\\sum_{i=1}^{n} X_i" });
+      step.group("Add value " + (i + 1), function() {
+        var xi = xValues[i];
+        step({ description: "Get value $X_i$ from $X$", values: [["i", i + 1], ["X_i", xi], ["X", xValues]] });
+        step({ description: "Add $X_i$ to running sum of " + sum, values: [["X_i", xi]] });
+        sum = sum + xi;
+        step({ description: "Sum is now " + sum, expression: "\\\\sum_{i=1}^{n} X_i" });
+      });
     }
     average = sum / n;
     average = Math.round(average * 100) / 100;
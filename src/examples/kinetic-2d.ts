@@ -8,7 +8,8 @@ export const kinetic2D = `const config = {
   variables: {
     K: {
       name: "Kinetic Energy",
-      precision: 2
+      precision: 2,
+      solveFor: "v"
     },
     m: {
       input: "drag",
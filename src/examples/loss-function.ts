@@ -73,28 +73,32 @@ export const lossFunction = `const config = {
     var theta_params = vars["\\\\theta"];
     var mse = 0;
     step({ description: "Starting MSE calculation for m examples", values: [["m", m], ["y", y_data], ["\\\\hat{y}", yHat_data]], expression: "\\\\frac{1}{m} \\\\sum_{i=1}^{m}" });
-    for (var i = 0; i < m; i++) {
-      var index = i + 1;
-      var y_i = y_data[i];
-      var yHat_i = yHat_data[i];
-      if (i === 0) {
-        step({ description: "Get value y:", values: [["y^{(i)}", y_i], ["i", index], ["y", y_data]] });
-        step({ description: "Get value $\\\\hat{y}$:", values: [["\\\\hat{y}^{(i)}", yHat_i], ["i", index]] });
+    step.group("Errors of the m examples", function() {
+      for (var i = 0; i < m; i++) {
+        var index = i + 1;
+        var y_i = y_data[i];
+        var yHat_i = yHat_data[i];
+        if (i === 0) {
+          step({ description: "Get value y:", values: [["y^{(i)}", y_i], ["i", index], ["y", y_data]] });
+          step({ description: "Get value $\\\\hat{y}$:", values: [["\\\\hat{y}^{(i)}", yHat_i], ["i", index]] });
+        }
+        var error = y_i - yHat_i;
+        step({ description: "Calculating individual error for example:", values: [["y^{(i)}", y_i], ["\\\\hat{y}^{(i)}", yHat_i], ["i", index]] });
+        mse += error * error;
       }
-      var error = y_i - yHat_i;
-      step({ description: "Calculating individual error for example:", values: [["y^{(i)}", y_i], ["\\\\hat{y}^{(i)}", yHat_i], ["i", index]] });
-      mse += error * error;
-    }
+    });
     mse = mse / m;
     step({ description: "Computed Mean Squared Error", values: [["m", m]], expression: "\\\\frac{1}{m} \\\\sum_{i=1}^{m} \\\\left( y^{(i)} - \\\\hat{y}^{(i)} \\\\right)^2" });
     var regularization = 0;
     step({ description: "Starting Regularization calculation", values: [["\\\\lambda", lambda], ["\\\\theta", theta_params]] });
-    for (var j = 0; j < theta_params.length; j++) {
-      var index_j = j + 1;
-      var theta_j = theta_params[j];
-      step({ description: "Adding squared parameter to penalty", values: [["\\\\theta_j", theta_j], ["j", index_j]] });
-      regularization += theta_j * theta_j;
-    }
+    step.group("Squared parameters", function() {
+      for (var j = 0; j < theta_params.length; j++) {
+        var index_j = j + 1;
+        var theta_j = theta_params[j];
+        step({ description: "Adding squared parameter to penalty", values: [["\\\\theta_j", theta_j], ["j", index_j]] });
+        regularization += theta_j * theta_j;
+      }
+    });
     var reg_term = lambda * regularization;
     step({ description: "Total Regularization Penalty", values: [["\\\\lambda", lambda]], expression: "\\\\lambda \\\\sum_{j=1}^{K} \\\\left\\\\| \\\\theta_j \\\\right\\\\|^2" });
     var loss = mse + reg_term;
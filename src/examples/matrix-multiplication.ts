@@ -2,128 +2,69 @@ export const matrixMultiplication = `const config = {
   formulas: [
     {
       id: "matrix-multiplication",
-      latex: "\\\\begin{bmatrix} {a_{11}} & {a_{12}} & {a_{13}} \\\\\\\\ {a_{21}} & {a_{22}} & {a_{23}} \\\\\\\\ {a_{31}} & {a_{32}} & {a_{33}} \\\\end{bmatrix} \\\\begin{bmatrix} {b_{11}} & {b_{12}} & {b_{13}} \\\\\\\\ {b_{21}} & {b_{22}} & {b_{23}} \\\\\\\\ {b_{31}} & {b_{32}} & {b_{33}} \\\\end{bmatrix} = \\\\begin{bmatrix} {c_{11}} & {c_{12}} & {c_{13}} \\\\\\\\ {c_{21}} & {c_{22}} & {c_{23}} \\\\\\\\ {c_{31}} & {c_{32}} & {c_{33}} \\\\end{bmatrix}"
+      latex: "A B = C"
     }
   ],
   variables: {
-    // Matrix A (3x3)
-    "a_{11}": { input: "drag", default: 1, range: [-5, 5], step: 1, precision: 0, latexDisplay: "value", labelDisplay: "none" },
-    "a_{12}": { input: "drag", default: 2, range: [-5, 5], step: 1, precision: 0, latexDisplay: "value", labelDisplay: "none" },
-    "a_{13}": { input: "drag", default: 0, range: [-5, 5], step: 1, precision: 0, latexDisplay: "value", labelDisplay: "none" },
-    "a_{21}": { input: "drag", default: 0, range: [-5, 5], step: 1, precision: 0, latexDisplay: "value", labelDisplay: "none" },
-    "a_{22}": { input: "drag", default: 1, range: [-5, 5], step: 1, precision: 0, latexDisplay: "value", labelDisplay: "none" },
-    "a_{23}": { input: "drag", default: 1, range: [-5, 5], step: 1, precision: 0, latexDisplay: "value", labelDisplay: "none" },
-    "a_{31}": { input: "drag", default: 3, range: [-5, 5], step: 1, precision: 0, latexDisplay: "value", labelDisplay: "none" },
-    "a_{32}": { input: "drag", default: 0, range: [-5, 5], step: 1, precision: 0, latexDisplay: "value", labelDisplay: "none" },
-    "a_{33}": { input: "drag", default: 2, range: [-5, 5], step: 1, precision: 0, latexDisplay: "value", labelDisplay: "none" },
-    // Matrix B (3x3)
-    "b_{11}": { input: "drag", default: 2, range: [-5, 5], step: 1, precision: 0, latexDisplay: "value", labelDisplay: "none" },
-    "b_{12}": { input: "drag", default: 1, range: [-5, 5], step: 1, precision: 0, latexDisplay: "value", labelDisplay: "none" },
-    "b_{13}": { input: "drag", default: 0, range: [-5, 5], step: 1, precision: 0, latexDisplay: "value", labelDisplay: "none" },
-    "b_{21}": { input: "drag", default: 0, range: [-5, 5], step: 1, precision: 0, latexDisplay: "value", labelDisplay: "none" },
-    "b_{22}": { input: "drag", default: 1, range: [-5, 5], step: 1, precision: 0, latexDisplay: "value", labelDisplay: "none" },
-    "b_{23}": { input: "drag", default: 2, range: [-5, 5], step: 1, precision: 0, latexDisplay: "value", labelDisplay: "none" },
-    "b_{31}": { input: "drag", default: 1, range: [-5, 5], step: 1, precision: 0, latexDisplay: "value", labelDisplay: "none" },
-    "b_{32}": { input: "drag", default: 0, range: [-5, 5], step: 1, precision: 0, latexDisplay: "value", labelDisplay: "none" },
-    "b_{33}": { input: "drag", default: 1, range: [-5, 5], step: 1, precision: 0, latexDisplay: "value", labelDisplay: "none" },
-    // Matrix C (3x3 result)
-    "c_{11}": { precision: 0, latexDisplay: "value", labelDisplay: "none" },
-    "c_{12}": { precision: 0, latexDisplay: "value", labelDisplay: "none" },
-    "c_{13}": { precision: 0, latexDisplay: "value", labelDisplay: "none" },
-    "c_{21}": { precision: 0, latexDisplay: "value", labelDisplay: "none" },
-    "c_{22}": { precision: 0, latexDisplay: "value", labelDisplay: "none" },
-    "c_{23}": { precision: 0, latexDisplay: "value", labelDisplay: "none" },
-    "c_{31}": { precision: 0, latexDisplay: "value", labelDisplay: "none" },
-    "c_{32}": { precision: 0, latexDisplay: "value", labelDisplay: "none" },
-    "c_{33}": { precision: 0, latexDisplay: "value", labelDisplay: "none" }
+    // Matrices render as a bmatrix whose cells A_{11} ... A_{33} can each be dragged
+    A: {
+      dataType: "matrix",
+      input: "drag",
+      default: [[1, 2, 0], [0, 1, 1], [3, 0, 2]],
+      range: [-5, 5],
+      step: 1,
+      precision: 0
+    },
+    B: {
+      dataType: "matrix",
+      input: "drag",
+      default: [[2, 1, 0], [0, 1, 2], [1, 0, 1]],
+      range: [-5, 5],
+      step: 1,
+      precision: 0
+    },
+    // The result has no default, so its size is given by dimensions
+    C: { dataType: "matrix", dimensions: [3, 3], precision: 0 }
   },
   controls: [
     {
       type: "radio",
-      variable: "a_{11}",
+      variable: "A_{11}",
       orientation: "horizontal"
     },
     {
       type: "radio",
-      variable: "a_{12}",
+      variable: "A_{12}",
       orientation: "horizontal"
     },
     {
       type: "radio",
-      variable: "b_{22}",
+      variable: "B_{22}",
       orientation: "horizontal"
     },
     {
       type: "button",
       label: "Reset All to Zero",
       code: (vars) => {
-        vars["a_{11}"] = 0;
-        vars["a_{12}"] = 0;
-        vars["a_{13}"] = 0;
-        vars["a_{21}"] = 0;
-        vars["a_{22}"] = 0;
-        vars["a_{23}"] = 0;
-        vars["a_{31}"] = 0;
-        vars["a_{32}"] = 0;
-        vars["a_{33}"] = 0;
-        vars["b_{11}"] = 0;
-        vars["b_{12}"] = 0;
-        vars["b_{13}"] = 0;
-        vars["b_{21}"] = 0;
-        vars["b_{22}"] = 0;
-        vars["b_{23}"] = 0;
-        vars["b_{31}"] = 0;
-        vars["b_{32}"] = 0;
-        vars["b_{33}"] = 0;
+        vars.A = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+        vars.B = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
       }
     },
     {
       type: "button",
       label: "Identity Matrix A",
       code: function(vars) {
-        vars["a_{11}"] = 1;
-        vars["a_{12}"] = 0;
-        vars["a_{13}"] = 0;
-        vars["a_{21}"] = 0;
-        vars["a_{22}"] = 1;
-        vars["a_{23}"] = 0;
-        vars["a_{31}"] = 0;
-        vars["a_{32}"] = 0;
-        vars["a_{33}"] = 1;
+        vars.A = [[1, 0, 0], [0, 1, 0], [0, 0, 1]];
       }
     }
   ],
   semantics: ({ vars }) => {
-    // Matrix A
-    const a11 = vars["a_{11}"] || 0;
-    const a12 = vars["a_{12}"] || 0;
-    const a13 = vars["a_{13}"] || 0;
-    const a21 = vars["a_{21}"] || 0;
-    const a22 = vars["a_{22}"] || 0;
-    const a23 = vars["a_{23}"] || 0;
-    const a31 = vars["a_{31}"] || 0;
-    const a32 = vars["a_{32}"] || 0;
-    const a33 = vars["a_{33}"] || 0;
-    // Matrix B
-    const b11 = vars["b_{11}"] || 0;
-    const b12 = vars["b_{12}"] || 0;
-    const b13 = vars["b_{13}"] || 0;
-    const b21 = vars["b_{21}"] || 0;
-    const b22 = vars["b_{22}"] || 0;
-    const b23 = vars["b_{23}"] || 0;
-    const b31 = vars["b_{31}"] || 0;
-    const b32 = vars["b_{32}"] || 0;
-    const b33 = vars["b_{33}"] || 0;
-    // Matrix multiplication C = A * B
-    vars["c_{11}"] = a11 * b11 + a12 * b21 + a13 * b31;
-    vars["c_{12}"] = a11 * b12 + a12 * b22 + a13 * b32;
-    vars["c_{13}"] = a11 * b13 + a12 * b23 + a13 * b33;
-    vars["c_{21}"] = a21 * b11 + a22 * b21 + a23 * b31;
-    vars["c_{22}"] = a21 * b12 + a22 * b22 + a23 * b32;
-    vars["c_{23}"] = a21 * b13 + a22 * b23 + a23 * b33;
-    vars["c_{31}"] = a31 * b11 + a32 * b21 + a33 * b31;
-    vars["c_{32}"] = a31 * b12 + a32 * b22 + a33 * b32;
-    vars["c_{33}"] = a31 * b13 + a32 * b23 + a33 * b33;
+    // vars.A and vars.B are mathjs matrices; C takes a matrix or nested array
+    const A = vars.A;
+    const B = vars.B;
+    vars.C = A.map((_, [i, j]) =>
+      A.toArray()[i].reduce((sum, a, k) => sum + a * B.get([k, j]), 0)
+    );
   },
   fontSize: 1.5,
   labelFontSize:  1.0
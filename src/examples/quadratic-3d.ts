@@ -39,6 +39,7 @@ export const quadratic3D = `const config = {
       name: "Coefficient c"
     }
   },
+  worker: true,
   semantics: function({ vars, data3d }) {
     vars.y = vars.a * vars.x * vars.x + vars.b * vars.x + vars.c;
     data3d("quadratic", {x: vars.x, y: vars.c, z: vars.y});
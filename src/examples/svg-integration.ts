@@ -101,9 +101,9 @@ export const svgIntegration = `const config = {
   visualizations: [
     {
       type: "plot2d",
-      xAxisLabel: "t",
+      xAxisLabel: "t (s)",
       xAxisVar: "t",
-      xRange: [0, 50],
+      xRange: [0, 180000],
       xGrid: "show",
       yAxisLabel: "N",
       yAxisVar: "N",
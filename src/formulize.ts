@@ -3,9 +3,15 @@
  *
  * This provides a declarative API for creating interactive visualizations.
  */
+import { isSetValue } from "./engine/matrix";
+import { compileFormulas, createFormulaSemantics } from "./engine/symbolic";
+import { analyzeUnits } from "./engine/units";
 import { ComputationStore, createComputationStore } from "./store/computation";
 import { IEnvironment } from "./types/environment";
+import { IInstanceEvent, IInstanceEvents, IInstanceOn } from "./types/events";
+import { IState } from "./types/state";
 import { IVariable } from "./types/variable";
+import { subscribe } from "./util/instance-events";
 import { normalizeVariables } from "./util/normalize-variables";
 
 /**
@@ -21,16 +27,41 @@ export interface Instance {
   computationStore: ComputationStore;
   getVariable: (name: string) => IVariable;
   setVariable: (name: string, value: number) => boolean;
+  /** Restore the variable values from before the latest change or drag */
+  undo: () => boolean;
+  /** Reapply the most recently undone change */
+  redo: () => boolean;
+  readonly canUndo: boolean;
+  readonly canRedo: boolean;
+  /** Snapshot the input values, current step, formula and plot state as JSON */
+  getState: () => IState;
+  /** Restore a snapshot from getState */
+  setState: (state: IState) => void;
+  /** Subscribe to changes, steps, hovers, drags and errors */
+  on: IInstanceOn;
   update: (config: Config) => Promise<Instance>;
   destroy: () => void;
 }
 
 // Set up computation engine configuration
+// Without a semantics function, the assignment formulas are evaluated directly
 function setupComputationEngine(
   environment: IEnvironment,
+  variables: Record<string, IVariable>,
   computationStore: ComputationStore
 ) {
-  computationStore.setSemantics(environment.semantics ?? null);
+  const compiled = compileFormulas(environment.formulas, variables);
+  // Units are checked against the formulas even when semantics computes the values
+  computationStore.setUnitAnalysis(
+    analyzeUnits(compiled.assignments, variables)
+  );
+  if (environment.semantics) {
+    computationStore.setSemantics(environment.semantics);
+    return;
+  }
+  computationStore.setSemantics(createFormulaSemantics(compiled));
+  // Kept for solving computed variables symbolically when they are dragged
+  computationStore.setFormulaAssignments(compiled.assignments);
 }
 
 // Validate environment configuration
@@ -65,6 +96,8 @@ async function initializeInstance(
       visualizations: config.visualizations,
       controls: config.controls,
       stepping: config.stepping,
+      trace: config.trace,
+      worker: config.worker,
       fontSize: config.fontSize,
       labelFontSize: config.labelFontSize,
       labelNodeStyle: config.labelNodeStyle,
@@ -78,13 +111,19 @@ async function initializeInstance(
 
     // Set stepping mode from config
     computationStore.setStepping(config.stepping === true);
+    computationStore.setStepTracing(
+      config.stepping === true && config.trace === true
+    );
+
+    // Set worker-backed sampling mode from config
+    computationStore.setWorkerSampling(config.worker === true);
 
     // Setup variables (if provided)
     if (Object.keys(normalizedVariables).length > 0) {
       Object.entries(normalizedVariables).forEach(([varId, variable]) => {
         computationStore.addVariable(varId, variable);
         if (variable.value !== undefined) {
-          if (variable.dataType === "set" && Array.isArray(variable.value)) {
+          if (variable.dataType === "set" && isSetValue(variable.value)) {
             computationStore.setSetValue(varId, variable.value);
           } else if (typeof variable.value === "number") {
             computationStore.setValue(varId, variable.value);
@@ -94,7 +133,7 @@ async function initializeInstance(
     }
 
     // Set up the computation engine
-    setupComputationEngine(environment, computationStore);
+    setupComputationEngine(environment, normalizedVariables, computationStore);
 
     // Store the formulas from the environment in the computation store
     computationStore.setEnvironment(environment);
@@ -103,7 +142,7 @@ async function initializeInstance(
     computationStore.setFormulas(environment.formulas);
 
     // Set up semantics function and enable evaluation
-    if (environment.semantics) {
+    if (computationStore.semantics) {
       await computationStore.setComputation();
     }
 
@@ -112,6 +151,12 @@ async function initializeInstance(
       computationStore.runComputation();
     }
 
+    // Setting the initial values is not a change the user can undo
+    computationStore.clearHistory();
+
+    // Subscriptions made through on(), ended when the instance is destroyed
+    const subscriptions = new Set<() => void>();
+
     // Store the id for setVariable method to use
     const instance: Instance = {
       environment: environment,
@@ -151,11 +196,41 @@ async function initializeInstance(
         }
         return false;
       },
+      undo: () => computationStore.undo(),
+      redo: () => computationStore.redo(),
+      get canUndo() {
+        return computationStore.canUndo;
+      },
+      get canRedo() {
+        return computationStore.canRedo;
+      },
+      getState: () => computationStore.getState(),
+      setState: (state: IState) => computationStore.setState(state),
+      on: ((
+        event: IInstanceEvent,
+        varIdOrCallback: string | IInstanceEvents[IInstanceEvent],
+        callback?: IInstanceEvents[IInstanceEvent]
+      ) => {
+        const unsubscribe = subscribe(
+          computationStore,
+          event,
+          varIdOrCallback,
+          callback
+        );
+        subscriptions.add(unsubscribe);
+        return () => {
+          unsubscribe();
+          subscriptions.delete(unsubscribe);
+        };
+      }) as IInstanceOn,
       update: async (updatedConfig: Config) => {
         return await initializeInstance(updatedConfig, computationStore);
       },
       destroy: () => {
+        subscriptions.forEach((unsubscribe) => unsubscribe());
+        subscriptions.clear();
         computationStore.resetSteps();
+        computationStore.setWorkerSampling(false);
       },
     };
     return instance;
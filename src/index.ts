@@ -21,7 +21,8 @@ export {
   StepControl,
 } from "./core";
 export type { StepControlProps } from "./core";
-export { useStore } from "./core/hooks";
+export { useStore, useVariable, useCurrentStep } from "./core/hooks";
+export type { CurrentStep } from "./core/hooks";
 
 // Export computation API - factory function and type for scoped stores
 // Step functionality is now integrated into ComputationStore
@@ -52,7 +53,12 @@ export {
 export type { LoopRange, LoopSpec, LoopContext } from "./util/generators";
 
 // Export types
-export type { ISemantics, ISemanticsContext } from "./types/computation";
+export type {
+  ISemantics,
+  ISemanticsContext,
+  ISemanticsError,
+  IUnitWarning,
+} from "./types/computation";
 export type { IEnvironment } from "./types/environment";
 export type { IFormula } from "./types/formula";
 export type {
@@ -62,14 +68,40 @@ export type {
   IVariableUserInput,
   IVariablesUserInput,
 } from "./types/variable";
-export type { IVisualization } from "./types/visualization";
+export type {
+  IImageFormat,
+  IPlotHandle,
+  IVisualization,
+} from "./types/visualization";
 export type {
   IPlot2D,
+  I2DAnnotation,
+  I2DArea,
+  I2DAxisScale,
+  I2DBand,
   I2DConfig,
+  I2DField,
+  I2DImplicit,
+  I2DInteraction,
   I2DLine,
   I2DPoint,
+  I2DReferenceLine,
+  I2DTextAnnotation,
+  I2DTickFormat,
+  IPointTrail,
 } from "./types/plot2d";
-export type { ICollectedStep, IView, IStepInput } from "./types/step";
+export type {
+  ICollectedStep,
+  IStepGroup,
+  IView,
+  IStepInput,
+} from "./types/step";
+export type { ICamera3D, IPlotView, IState } from "./types/state";
+export type {
+  IInstanceEvent,
+  IInstanceEvents,
+  IInstanceOn,
+} from "./types/events";
 export type { IPlot3D } from "./types/plot3d";
 export type { ICustom, IContext } from "./types/custom";
 export type { IControls } from "./types/control";
@@ -1,17 +1,41 @@
-import { useEffect, useRef } from "react";
+import { useEffect, useMemo, useRef } from "react";
 
 import { observer } from "mobx-react-lite";
 
 import { javascript } from "@codemirror/lang-javascript";
+import { StateEffect } from "@codemirror/state";
+import { EditorView } from "@codemirror/view";
 import CodeMirror, { ReactCodeMirrorRef } from "@uiw/react-codemirror";
 
+import { goToStep } from "../engine/controller";
 import { debugStore } from "../store/debug";
+import { ISemantics } from "../types/computation";
 import { createAutocompletion } from "../util/codemirror";
 import {
+  addArrowMarker,
+  addLineMarker,
+  clearArrowMarkers,
+  clearLineMarkers,
+  createStepLineGutter,
+  debugExtensions,
   highlightVariableRange,
+  setStepLines,
   variableHighlightExtension,
 } from "../util/codemirror/extension";
 
+/**
+ * Find the editor line (0-based) the semantics function starts on, so that
+ * step lines, which count from the start of the function, map to the editor.
+ */
+const findSemanticsLine = (
+  view: EditorView,
+  semantics: ISemantics | null | undefined
+): number | null => {
+  if (typeof semantics !== "function") return null;
+  const offset = view.state.doc.toString().indexOf(semantics.toString());
+  return offset < 0 ? null : view.state.doc.lineAt(offset).number - 1;
+};
+
 interface EditorProps {
   code: string;
   onChange: (value: string) => void;
@@ -28,6 +52,31 @@ const Editor = observer(({ code, onChange, onRender, error }: EditorProps) => {
 
   // Read observable during render so observer triggers re-render on change
   const hoveredVariable = debugStore.hoveredVariable;
+  const stepStore = debugStore.stepViewerStore;
+  const semantics = stepStore?.semantics;
+  const steps = stepStore?.steps;
+  const currentLine = stepStore?.currentStep?.line;
+
+  const scrolledLineRef = useRef<number | null>(null);
+
+  // Jump to the first step collected on a clicked line
+  const handleStepLineClickRef = useRef<(line: number) => void>(() => {});
+  handleStepLineClickRef.current = (line: number) => {
+    const view = editorRef.current?.view;
+    const semanticsLine = view ? findSemanticsLine(view, semantics) : null;
+    if (!stepStore || !steps || semanticsLine === null) return;
+    const index = steps.findIndex(
+      (step) =>
+        step.line !== undefined && semanticsLine + step.line - 1 === line
+    );
+    if (index >= 0) {
+      goToStep(index, stepStore);
+    }
+  };
+  const stepLineGutter = useMemo(
+    () => createStepLineGutter((line) => handleStepLineClickRef.current(line)),
+    []
+  );
 
   // React to hoveredVariable changes and update highlighting
   useEffect(() => {
@@ -50,6 +99,37 @@ const Editor = observer(({ code, onChange, onRender, error }: EditorProps) => {
     });
   }, [hoveredVariable, code]);
 
+  // Mark the lines that collected steps and highlight the current step's line
+  useEffect(() => {
+    const view = editorRef.current?.view;
+    if (!view) return;
+    const semanticsLine = findSemanticsLine(view, semantics);
+    const toEditorLine = (line: number | undefined) =>
+      semanticsLine === null || line === undefined
+        ? null
+        : semanticsLine + line - 1;
+    const stepLines = (steps ?? [])
+      .map((step) => toEditorLine(step.line))
+      .filter((line): line is number => line !== null);
+    const line = toEditorLine(currentLine);
+    const effects: StateEffect<unknown>[] = [setStepLines.of(stepLines)];
+    if (line !== null && line < view.state.doc.lines) {
+      effects.push(addLineMarker.of({ line }), addArrowMarker.of({ line }));
+      // Only follow step changes, not edits elsewhere in the code
+      if (line !== scrolledLineRef.current) {
+        effects.push(
+          EditorView.scrollIntoView(view.state.doc.line(line + 1).from, {
+            y: "nearest",
+          })
+        );
+      }
+    } else {
+      effects.push(clearLineMarkers.of(null), clearArrowMarkers.of(null));
+    }
+    scrolledLineRef.current = line;
+    view.dispatch({ effects });
+  }, [stepStore, semantics, steps, currentLine, code]);
+
   return (
     <div className="w-full h-full flex flex-col overflow-hidden">
       <div className="flex-1 overflow-auto scrollbar-hide">
@@ -65,6 +145,8 @@ const Editor = observer(({ code, onChange, onRender, error }: EditorProps) => {
             javascript(),
             ...createAutocompletion(),
             ...variableHighlightExtension,
+            // Step markers only while the step viewer is open
+            ...(stepStore ? [...debugExtensions, ...stepLineGutter] : []),
           ]}
           theme="light"
           style={{
@@ -1,15 +1,20 @@
 import { memo, useCallback, useEffect, useRef } from "react";
 
 import { useReactFlow } from "@xyflow/react";
-import { Maximize } from "lucide-react";
+import { FileCode, Image, Maximize } from "lucide-react";
+
+import { type IImageFormat } from "../types/visualization";
+import { exportVisualizationImage } from "../visualizations/export";
 
 interface ContextMenuProps {
   onClose: () => void;
   position: { x: number; y: number };
+  // Plot the menu was opened on, which adds the export entries
+  plotElement?: HTMLElement | null;
 }
 
 export const CanvasContextMenu = memo(
-  ({ onClose, position }: ContextMenuProps) => {
+  ({ onClose, position, plotElement }: ContextMenuProps) => {
     const { fitView } = useReactFlow();
     const menuRef = useRef<HTMLDivElement>(null);
 
@@ -18,6 +23,18 @@ export const CanvasContextMenu = memo(
       onClose();
     }, [fitView, onClose]);
 
+    const handleExport = useCallback(
+      (format: IImageFormat) => {
+        if (plotElement) {
+          exportVisualizationImage(plotElement, format).catch((error) =>
+            console.error("Error exporting plot:", error)
+          );
+        }
+        onClose();
+      },
+      [plotElement, onClose]
+    );
+
     // Close menu when clicking outside
     useEffect(() => {
       const handleClickOutside = (event: MouseEvent) => {
@@ -62,6 +79,24 @@ export const CanvasContextMenu = memo(
           <Maximize size={14} />
           <span>Fit to View</span>
         </button>
+        {plotElement && (
+          <>
+            <button
+              onClick={() => handleExport("svg")}
+              className="w-full px-3 py-2 text-left text-sm text-slate-700 rounded-lg hover:bg-slate-50 flex items-center gap-2 transition-colors"
+            >
+              <FileCode size={14} />
+              <span>Export as SVG</span>
+            </button>
+            <button
+              onClick={() => handleExport("png")}
+              className="w-full px-3 py-2 text-left text-sm text-slate-700 rounded-lg hover:bg-slate-50 flex items-center gap-2 transition-colors"
+            >
+              <Image size={14} />
+              <span>Export as PNG</span>
+            </button>
+          </>
+        )}
       </div>
     );
   }
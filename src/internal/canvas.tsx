@@ -1,4 +1,4 @@
-import { useCallback, useEffect, useMemo, useRef } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 
 import { reaction } from "mobx";
 import { observer } from "mobx-react-lite";
@@ -40,6 +40,7 @@ import {
   useAddVariableNodes,
   useUpdateVariableNodes,
 } from "../util/canvas/variable-nodes";
+import { CanvasContextMenu } from "./canvas-context-menu";
 import { CanvasControls } from "./canvas-controls";
 import { nodeTypes as defaultNodeTypes } from "./nodes/node";
 
@@ -66,6 +67,13 @@ const CanvasFlow = observer(
     // Track if step nodes have been repositioned after label adjustment
     const stepNodeRepositionedRef = useRef(false);
 
+    // Context menu position, and the plot it was opened on for image export
+    const [contextMenu, setContextMenu] = useState<{
+      x: number;
+      y: number;
+      plotElement: HTMLElement | null;
+    } | null>(null);
+
     // React Flow hooks for accessing measured node data
     const { getNodes, getViewport, fitView } = useReactFlow();
     const nodesInitialized = useNodesInitialized();
@@ -530,8 +538,31 @@ const CanvasFlow = observer(
 
     const proOptions = useMemo(() => ({ hideAttribution: true }), []);
 
+    // Handle context menu
+    const handleContextMenu = useCallback((event: React.MouseEvent) => {
+      event.preventDefault();
+      const rect = canvasContainerRef.current?.getBoundingClientRect();
+      if (rect) {
+        setContextMenu({
+          x: event.clientX - rect.left,
+          y: event.clientY - rect.top,
+          plotElement: (event.target as Element).closest<HTMLElement>(
+            ".mn-plot2d, .mn-plot3d"
+          ),
+        });
+      }
+    }, []);
+
+    const closeContextMenu = useCallback(() => {
+      setContextMenu(null);
+    }, []);
+
     return (
-      <div ref={canvasContainerRef} className="w-full h-full min-h-[500px]">
+      <div
+        ref={canvasContainerRef}
+        className="w-full h-full min-h-[500px] relative"
+        onContextMenu={handleContextMenu}
+      >
         <ReactFlow
           nodes={nodes}
           edges={edges}
@@ -562,6 +593,13 @@ const CanvasFlow = observer(
           />
           <CanvasControls />
         </ReactFlow>
+        {contextMenu && (
+          <CanvasContextMenu
+            position={contextMenu}
+            plotElement={contextMenu.plotElement}
+            onClose={closeContextMenu}
+          />
+        )}
       </div>
     );
   }
@@ -1,14 +1,16 @@
-import React from "react";
+import React, { useEffect, useState } from "react";
 
 import { observer } from "mobx-react-lite";
 
-import { RotateCcw, X } from "lucide-react";
+import { ChevronDown, ChevronRight, RotateCcw, X } from "lucide-react";
 
 import { useStore } from "../core/hooks";
 import { StepControl } from "../core/step-control";
 import { goToStep, refresh } from "../engine/controller";
+import { debugStore } from "../store/debug";
 import Button from "../ui/button";
 import CollapsibleSection from "../ui/collapsible-section";
+import SemanticsError from "./semantics-error";
 
 interface StepViewerProps {
   isOpen: boolean;
@@ -23,6 +25,18 @@ const StepViewer: React.FC<StepViewerProps> = observer(
   ({ isOpen, onClose }) => {
     const context = useStore();
     const computationStore = context?.computationStore;
+    // Groups the user opened or closed; others are open while they contain
+    // the current step
+    const [toggledGroups, setToggledGroups] = useState(
+      new Map<number, boolean>()
+    );
+
+    // Let the code editor follow the steps while the viewer is open
+    useEffect(() => {
+      if (!isOpen || !computationStore) return;
+      debugStore.setStepViewerStore(computationStore);
+      return () => debugStore.setStepViewerStore(null);
+    }, [isOpen, computationStore]);
 
     // Guard: stores must be available
     if (!computationStore) {
@@ -38,6 +52,83 @@ const StepViewer: React.FC<StepViewerProps> = observer(
     };
 
     const currentStep = computationStore.currentStep;
+    const { currentStepIndex, stepGroups } = computationStore;
+
+    const handleGroupToggle = (index: number, isOpen: boolean) => {
+      setToggledGroups(new Map(toggledGroups).set(index, !isOpen));
+    };
+
+    const renderStep = (index: number) => {
+      const step = computationStore.steps[index];
+      return (
+        <div
+          key={`step-${index}`}
+          onClick={() => handleStepClick(index)}
+          className={`p-2 rounded cursor-pointer text-sm ${
+            index === currentStepIndex
+              ? "bg-blue-100 border border-blue-300"
+              : "bg-slate-50 hover:bg-slate-100"
+          }`}
+        >
+          <div className="font-normal">
+            {index + 1}. {step.description.substring(0, 50)}
+            {step.description.length > 50 ? "..." : ""}
+          </div>
+          {step.id && (
+            <div className="text-xs text-slate-400">ID: {step.id}</div>
+          )}
+        </div>
+      );
+    };
+
+    // Render the steps in [start, end) with the groups directly in parent
+    const renderSteps = (
+      start: number,
+      end: number,
+      parent?: number
+    ): React.ReactNode[] => {
+      const items: React.ReactNode[] = [];
+      let index = start;
+      while (index < end) {
+        const group = stepGroups.find(
+          (candidate) =>
+            candidate.parent === parent && candidate.start === index
+        );
+        if (!group) {
+          items.push(renderStep(index));
+          index++;
+          continue;
+        }
+        const hasCurrent =
+          currentStepIndex >= group.start && currentStepIndex < group.end;
+        const isOpen = toggledGroups.get(group.index) ?? hasCurrent;
+        items.push(
+          <div key={`group-${group.index}`} className="space-y-1">
+            <div
+              onClick={() => handleGroupToggle(group.index, isOpen)}
+              className={`p-2 rounded cursor-pointer text-sm flex items-center gap-1 ${
+                hasCurrent && !isOpen
+                  ? "bg-blue-100 border border-blue-300"
+                  : "bg-slate-100 hover:bg-slate-200"
+              }`}
+            >
+              {isOpen ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+              <span className="font-medium flex-1">{group.label}</span>
+              <span className="text-xs text-slate-400">
+                {group.start + 1}–{group.end}
+              </span>
+            </div>
+            {isOpen && (
+              <div className="ml-2 pl-2 border-l border-slate-200 space-y-1">
+                {renderSteps(group.start, group.end, group.index)}
+              </div>
+            )}
+          </div>
+        );
+        index = group.end;
+      }
+      return items;
+    };
 
     return (
       <div
@@ -57,10 +148,17 @@ const StepViewer: React.FC<StepViewerProps> = observer(
           <StepControl />
         </div>
         {/* Error Display */}
-        {computationStore.stepError && (
-          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 mx-4 mt-2 rounded text-sm min-w-80">
-            <strong>Error:</strong> {computationStore.stepError}
-          </div>
+        {computationStore.semanticsError ? (
+          <SemanticsError
+            errors={[computationStore.semanticsError]}
+            className="mx-4 mt-2 min-w-80"
+          />
+        ) : (
+          computationStore.stepError && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 mx-4 mt-2 rounded text-sm min-w-80">
+              <strong>Error:</strong> {computationStore.stepError}
+            </div>
+          )
         )}
         {/* Main Content */}
         <div className="flex-1 flex flex-col overflow-hidden min-w-80">
@@ -77,6 +175,11 @@ const StepViewer: React.FC<StepViewerProps> = observer(
                     ID: {currentStep.id}
                   </div>
                 )}
+                {currentStep.line !== undefined && (
+                  <div className="text-xs text-slate-400">
+                    Line: {currentStep.line}
+                  </div>
+                )}
                 <div className="text-sm font-medium">
                   {currentStep.description}
                 </div>
@@ -117,25 +220,7 @@ const StepViewer: React.FC<StepViewerProps> = observer(
             onToggleCollapse={() => {}}
           >
             <div className="space-y-1 max-h-64 p-2 overflow-y-auto">
-              {computationStore.steps.map((step, index) => (
-                <div
-                  key={index}
-                  onClick={() => handleStepClick(index)}
-                  className={`p-2 rounded cursor-pointer text-sm ${
-                    index === computationStore.currentStepIndex
-                      ? "bg-blue-100 border border-blue-300"
-                      : "bg-slate-50 hover:bg-slate-100"
-                  }`}
-                >
-                  <div className="font-normal">
-                    {index + 1}. {step.description.substring(0, 50)}
-                    {step.description.length > 50 ? "..." : ""}
-                  </div>
-                  {step.id && (
-                    <div className="text-xs text-slate-400">ID: {step.id}</div>
-                  )}
-                </div>
-              ))}
+              {renderSteps(0, computationStore.steps.length)}
               {computationStore.steps.length === 0 && (
                 <div className="text-sm text-slate-500 p-2">
                   No steps collected. Add step() calls to your semantics
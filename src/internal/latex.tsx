@@ -45,7 +45,12 @@ const LatexLabel = observer(
       };
     }, [latex, fontSize]); // Add fontSize to dependencies
 
-    return <span ref={labelRef}>{latex}</span>;
+    // The source is kept for image export, which typesets labels itself
+    return (
+      <span ref={labelRef} data-latex={latex}>
+        {latex}
+      </span>
+    );
   }
 );
 
@@ -6,8 +6,13 @@ import { observer } from "mobx-react-lite";
 import { Handle, Position } from "@xyflow/react";
 
 import { useStore } from "../../core/hooks";
+import {
+  fromDisplayValue,
+  getDisplayQuantity,
+  unitsToLatex,
+} from "../../engine/units";
 import { debugStore } from "../../store/debug";
-import { INPUT_VARIABLE_DEFAULT } from "../../types/variable";
+import { INPUT_VARIABLE_DEFAULT, IValue } from "../../types/variable";
 import { buildDebugStyles } from "../../util/debug-styles";
 import { useVariableDrag } from "../../util/use-variable-drag";
 import { VAR_CLASSES } from "../css-classes";
@@ -39,9 +44,11 @@ const InlineInput = observer(
   }: {
     varId: string;
     variable: {
-      value?: number | (string | number)[];
+      value?: IValue;
       precision?: number;
       step?: number;
+      units?: string;
+      displayUnits?: string;
     };
     fontSize?: number;
   }) => {
@@ -57,12 +64,13 @@ const InlineInput = observer(
     const formatValue = useCallback(
       (val: number) => {
         // Use precision, but don't show trailing zeros for integers
-        if (Number.isInteger(val) && displayPrecision === 0) {
-          return String(val);
+        const shown = getDisplayQuantity(val, variable).value;
+        if (Number.isInteger(shown) && displayPrecision === 0) {
+          return String(shown);
         }
-        return val.toFixed(displayPrecision);
+        return shown.toFixed(displayPrecision);
       },
-      [displayPrecision]
+      [displayPrecision, variable]
     );
 
     const [localValue, setLocalValue] = useState<string>(
@@ -82,11 +90,12 @@ const InlineInput = observer(
         const newValue = event.target.value;
         setLocalValue(newValue);
         const parsed = parseFloat(newValue);
+        // Typed in the display units, stored in SI
         if (!isNaN(parsed) && computationStore) {
-          computationStore.setValue(varId, parsed);
+          computationStore.setValue(varId, fromDisplayValue(parsed, variable));
         }
       },
-      [varId, computationStore]
+      [varId, variable, computationStore]
     );
 
     const handleBlur = useCallback(() => {
@@ -156,9 +165,16 @@ const LabelNode = observer(({ data }: { data: LabelNodeData }) => {
   // Highlighted if mouse is over OR if dragging this variable
   const isHovered = computationStore?.isVariableHighlighted(varId) ?? false;
 
+  // Computed variables can be dragged when an input can be solved for
+  const isSolvable =
+    !!computationStore &&
+    !computationStore.isStepMode() &&
+    computationStore.getSolveTarget(varId) !== null;
+
   const valueDragRef = useVariableDrag({
     varId,
     isDraggable: variable?.input === "drag",
+    isSolvable,
     hasDropdownOptions: !!(Array.isArray(variable?.value) || variable?.options),
     computationStore,
   });
@@ -225,7 +241,13 @@ const LabelNode = observer(({ data }: { data: LabelNodeData }) => {
       }
     } else if (typeof value === "number" && value !== null) {
       const displayPrecision = precision ?? INPUT_VARIABLE_DEFAULT.PRECISION;
-      mainDisplayText = value.toFixed(displayPrecision);
+      // Units are shown once the user switches away from the declared units
+      const quantity = getDisplayQuantity(value, variable);
+      const formatted = quantity.value.toFixed(displayPrecision);
+      mainDisplayText =
+        quantity.units && quantity.units !== variable.units
+          ? `${formatted} \\, ${unitsToLatex(quantity.units)}`
+          : formatted;
       displayComponent = (
         <LatexLabel latex={mainDisplayText} fontSize={labelFontSize} />
       );
@@ -279,11 +301,12 @@ const LabelNode = observer(({ data }: { data: LabelNodeData }) => {
   const isSetVariable = Array.isArray(value);
   // Enable drag for input variables even in step mode (so users can change values)
   const isDraggableVar = input === "drag" && !isSetVariable && !isInlineInput;
+  const isDraggableValue = isDraggableVar || (isSolvable && !isSetVariable);
   const cursor = isDraggableVar ? "grab" : "default";
   const valueCursor =
     isSetVariable && !isStepModeActive
       ? "pointer"
-      : input === "drag" && !isInlineInput
+      : isDraggableValue
         ? "ns-resize"
         : "default";
 
@@ -309,18 +332,14 @@ const LabelNode = observer(({ data }: { data: LabelNodeData }) => {
         ...customStyle,
         ...debugStyles,
       }}
-      title={`Variable: ${varId}${name ? ` (${name})` : ""}${isDraggableVar ? " (draggable)" : ""}`}
+      title={`Variable: ${varId}${name ? ` (${name})` : ""}${isDraggableVar ? " (draggable)" : ""}${isSolvable ? ` (drag to solve for ${computationStore.getSolveTarget(varId)})` : ""}`}
       onMouseEnter={() => computationStore.setVariableHover(varId, true)}
       onMouseLeave={() => computationStore.setVariableHover(varId, false)}
     >
       <div className="flex flex-col items-center gap-2">
         {displayComponent && (
           <div
-            ref={
-              input === "drag" && !isSetVariable && !isInlineInput
-                ? valueDragRef
-                : null
-            }
+            ref={isDraggableValue ? valueDragRef : null}
             className={`${interactiveClass} ${isHovered ? "hovered" : ""}`}
             style={{ cursor: valueCursor }}
           >
@@ -30,10 +30,16 @@ const VariableNode = observer(({ data }: { data: VariableNodeData }) => {
     Array.isArray(variable?.value) || variable?.options
   );
   const isSetVariable = variable?.dataType === "set";
+  // Computed variables can be dragged when an input can be solved for
+  const isSolvable =
+    !isSetVariable &&
+    !computationStore.isStepMode() &&
+    computationStore.getSolveTarget(varId) !== null;
 
   const nodeRef = useVariableDrag({
     varId,
     isDraggable: isSetVariable ? false : isDraggable, // Set variables are not draggable
+    isSolvable,
     hasDropdownOptions: hasDropdownOptions || isSetVariable,
     computationStore: computationStore,
   });
@@ -50,7 +56,7 @@ const VariableNode = observer(({ data }: { data: VariableNodeData }) => {
   // Set variables get pointer cursor for click input
   const cursor = isSetVariable
     ? "pointer"
-    : isDraggable && !hasDropdownOptions
+    : (isDraggable || isSolvable) && !hasDropdownOptions
       ? "ns-resize"
       : "default";
 
@@ -9,11 +9,19 @@ import { Config } from "../index.ts";
 import { debugStore } from "../store/debug";
 import IconButton from "../ui/icon-button";
 import Modal from "../ui/modal";
+import {
+  readUrlState,
+  useUrlStateSync,
+  writeUrlState,
+} from "../util/url-state";
+import { useUndoShortcuts } from "../util/use-undo-shortcuts";
 import Canvas from "./canvas.tsx";
 import DebugModal from "./interpreter";
 import NodeVisibilitySidebar from "./node-visibility-sidebar";
+import SemanticsError from "./semantics-error";
 import Toolbar from "./toolbar";
 import TreeInspectorSidebar from "./tree-inspector-sidebar";
+import UnitWarnings from "./unit-warnings";
 import VariablesSidebar from "./variables-sidebar";
 
 /**
@@ -30,12 +38,22 @@ const PlaygroundCanvas = observer(() => {
     useState<boolean>(false);
   const [showDebugModal, setShowDebugModal] = useState<boolean>(false);
   const [isCreditsModalOpen, setIsCreditsModalOpen] = useState<boolean>(false);
+  // Opt-in, but on by default when opening a link that carries a state
+  const [isUrlSyncEnabled, setIsUrlSyncEnabled] = useState<boolean>(
+    () => readUrlState("query") !== null
+  );
   const [configKey, setConfigKey] = useState<number>(0);
   const containerRef = useRef<HTMLDivElement>(null);
   const prevConfigRef = useRef<Config | null>(null);
   const computationStore = context?.computationStore;
   const currentConfig = context?.config;
 
+  // Ctrl+Z / Ctrl+Shift+Z undo and redo variable changes
+  useUndoShortcuts(computationStore);
+
+  // Keep the state in the ?state= query so the page URL is a permalink
+  useUrlStateSync(context?.instance, isUrlSyncEnabled);
+
   // Update configKey when config changes to force re-render of Canvas
   useEffect(() => {
     if (currentConfig && currentConfig !== prevConfigRef.current) {
@@ -76,10 +94,15 @@ const PlaygroundCanvas = observer(() => {
               setShowTreeInspectorSidebar((prev) => !prev)
             }
             onToggleVariables={() => setShowVariablesSidebar((prev) => !prev)}
+            onToggleUrlSync={() => {
+              if (isUrlSyncEnabled) writeUrlState({}, "query");
+              setIsUrlSyncEnabled(!isUrlSyncEnabled);
+            }}
             onToggleInterpreter={() => setShowDebugModal((prev) => !prev)}
             isNodeVisibilityOpen={showNodeVisibilitySidebar}
             isTreeInspectorOpen={showTreeInspectorSidebar}
             isVariablesOpen={showVariablesSidebar}
+            isUrlSyncEnabled={isUrlSyncEnabled}
             isInterpreterOpen={showDebugModal}
             showInterpreterButton={isStepMode}
           />
@@ -96,6 +119,14 @@ const PlaygroundCanvas = observer(() => {
               />
             </div>
           </div>
+          {/* Semantics errors and unit warnings - overlaid on the canvas */}
+          {(computationStore.errors.length > 0 ||
+            computationStore.unitWarnings.length > 0) && (
+            <div className="absolute bottom-4 left-4 z-30 max-w-md max-h-[50%] overflow-auto space-y-2">
+              <SemanticsError errors={computationStore.errors} />
+              <UnitWarnings warnings={computationStore.unitWarnings} />
+            </div>
+          )}
           {/* Credits button - positioned in main content area */}
           <div className="absolute bottom-4 right-4 z-30">
             <IconButton
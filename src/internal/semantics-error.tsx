@@ -0,0 +1,85 @@
+import React, { useState } from "react";
+
+import { ChevronDown, ChevronRight } from "lucide-react";
+
+import { ISemanticsError } from "../types/computation";
+
+interface SemanticsErrorProps {
+  errors: ISemanticsError[];
+  className?: string;
+}
+
+const formatValue = (value: unknown): string => {
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+};
+
+const ErrorDetails: React.FC<{ title: string; children: React.ReactNode }> = ({
+  title,
+  children,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const Icon = isOpen ? ChevronDown : ChevronRight;
+  return (
+    <div className="mt-1">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1 text-xs text-red-600 hover:text-red-800"
+      >
+        <Icon size={12} />
+        {title}
+      </button>
+      {isOpen && (
+        <div className="mt-1 max-h-40 overflow-auto rounded bg-red-100/60 p-2 font-mono text-xs whitespace-pre">
+          {children}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Lists errors thrown by the semantics function, with the step reached,
+ * the graph being sampled, and collapsible stack and variable details.
+ */
+const SemanticsError: React.FC<SemanticsErrorProps> = ({
+  errors,
+  className = "",
+}) => {
+  if (errors.length === 0) return null;
+  return (
+    <div
+      className={`bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded text-sm text-left space-y-3 ${className}`}
+    >
+      {errors.map((error, index) => (
+        <div key={`${error.graphId ?? ""}:${error.message}:${index}`}>
+          <div>
+            <strong>{error.name}:</strong> {error.message}
+          </div>
+          <div className="text-xs text-red-500">
+            {error.stepIndex >= 0
+              ? `After step ${error.stepIndex + 1}`
+              : "Before the first step"}
+            {error.graphId && ` · while sampling "${error.graphId}"`}
+            {error.count > 1 && ` · ×${error.count}`}
+          </div>
+          {error.stack && (
+            <ErrorDetails title="Stack trace">{error.stack}</ErrorDetails>
+          )}
+          {Object.keys(error.variables).length > 0 && (
+            <ErrorDetails title="Variables">
+              {Object.entries(error.variables)
+                .map(([name, value]) => `${name} = ${formatValue(value)}`)
+                .join("\n")}
+            </ErrorDetails>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default SemanticsError;
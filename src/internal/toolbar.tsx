@@ -1,4 +1,4 @@
-import { Braces, Footprints, ListTree, SquareStack } from "lucide-react";
+import { Braces, Footprints, Link, ListTree, SquareStack } from "lucide-react";
 
 import IconButton from "../ui/icon-button";
 
@@ -7,10 +7,12 @@ interface ToolbarProps {
   onToggleTreeInspector: () => void;
   onToggleInterpreter: () => void;
   onToggleVariables: () => void;
+  onToggleUrlSync: () => void;
   isNodeVisibilityOpen?: boolean;
   isTreeInspectorOpen?: boolean;
   isInterpreterOpen?: boolean;
   isVariablesOpen?: boolean;
+  isUrlSyncEnabled?: boolean;
   showInterpreterButton?: boolean;
 }
 
@@ -19,10 +21,12 @@ const Toolbar = ({
   onToggleTreeInspector,
   onToggleInterpreter,
   onToggleVariables,
+  onToggleUrlSync,
   isNodeVisibilityOpen = false,
   isTreeInspectorOpen = false,
   isInterpreterOpen = false,
   isVariablesOpen = false,
+  isUrlSyncEnabled = false,
   showInterpreterButton = false,
 }: ToolbarProps) => {
   return (
@@ -51,6 +55,14 @@ const Toolbar = ({
         title="Variable Editor"
         isActive={isVariablesOpen}
       />
+      <IconButton
+        size="lg"
+        icon={Link}
+        alt="Sync State to URL"
+        onClick={onToggleUrlSync}
+        title="Sync State to URL"
+        isActive={isUrlSyncEnabled}
+      />
       {showInterpreterButton && (
         <IconButton
           size="lg"
@@ -0,0 +1,36 @@
+import React from "react";
+
+import { IUnitWarning } from "../types/computation";
+
+interface UnitWarningsProps {
+  warnings: IUnitWarning[];
+  className?: string;
+}
+
+/**
+ * Lists formulas whose sides have different dimensions.
+ */
+const UnitWarnings: React.FC<UnitWarningsProps> = ({
+  warnings,
+  className = "",
+}) => {
+  if (warnings.length === 0) return null;
+  return (
+    <div
+      className={`bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded text-sm text-left space-y-2 ${className}`}
+    >
+      {warnings.map((warning) => (
+        <div key={`${warning.formulaId}:${warning.variable}`}>
+          <div>
+            <strong>Unit mismatch:</strong> {warning.message}
+          </div>
+          <div className="text-xs text-amber-600">
+            In formula "{warning.formulaId}"
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default UnitWarnings;
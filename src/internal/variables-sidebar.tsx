@@ -5,6 +5,7 @@ import { observer } from "mobx-react-lite";
 import { Plus, Trash2, X } from "lucide-react";
 
 import { useStore } from "../core/hooks";
+import { fromSIVariable, getCompatibleUnits } from "../engine/units";
 import { debugStore } from "../store/debug";
 import {
   IInput,
@@ -295,6 +296,7 @@ interface VariableCardProps {
   onRangeChange: (range: [number, number]) => void;
   onPrecisionChange: (precision: number | undefined) => void;
   onStepChange: (step: number | undefined) => void;
+  onDisplayUnitsChange: (units: string) => void;
   onDelete: () => void;
 }
 
@@ -308,6 +310,7 @@ const VariableCard: React.FC<VariableCardProps> = observer(
     onRangeChange,
     onPrecisionChange,
     onStepChange,
+    onDisplayUnitsChange,
     onDelete,
   }) => {
     const value = typeof variable.value === "number" ? variable.value : 0;
@@ -316,6 +319,7 @@ const VariableCard: React.FC<VariableCardProps> = observer(
     const input = variable.input;
     const precision = variable.precision;
     const step = variable.step;
+    const compatibleUnits = getCompatibleUnits(variable.units);
 
     const handleMouseEnter = () => {
       debugStore.setHoveredVariable(varId);
@@ -416,6 +420,24 @@ const VariableCard: React.FC<VariableCardProps> = observer(
             />
           </div>
         </div>
+
+        {/* Display units (only for variables with known units) */}
+        {compatibleUnits.length > 1 && (
+          <div className="mt-2">
+            <Label>Display Units</Label>
+            <select
+              value={variable.displayUnits ?? variable.units}
+              onChange={(e) => onDisplayUnitsChange(e.target.value)}
+              className="w-full px-2 py-1 text-[13px] bg-slate-100 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+            >
+              {compatibleUnits.map((units) => (
+                <option key={units} value={units}>
+                  {units}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
       </div>
     );
   }
@@ -550,7 +572,8 @@ const VariablesSidebar: React.FC<VariablesSidebarProps> = observer(
         if (computationStore) {
           const variable = computationStore.variables.get(varId);
           if (variable) {
-            const merged = { ...variable, ...updates };
+            // The card edits the config, which is in the declared units
+            const merged = { ...fromSIVariable(variable), ...updates };
             const serialized = serializeVariable(merged);
             if (serialized !== null) {
               debugStore.updateVariable(varId, serialized);
@@ -588,6 +611,11 @@ const VariablesSidebar: React.FC<VariablesSidebarProps> = observer(
       updateVariable(varId, { input });
     };
 
+    // Display units only change how the value is shown, so the config is untouched
+    const handleDisplayUnitsChange = (varId: string, units: string) => {
+      computationStore?.setDisplayUnits(varId, units);
+    };
+
     const handleDelete = (varId: string) => {
       debugStore.deleteVariable(varId);
     };
@@ -596,8 +624,11 @@ const VariablesSidebar: React.FC<VariablesSidebarProps> = observer(
       debugStore.addVariable(varId, 0);
     };
 
+    // Vector and matrix elements are edited through their matrix
     const variables = computationStore
-      ? Array.from(computationStore.variables.entries())
+      ? Array.from(computationStore.variables.entries()).filter(
+          ([, variable]) => !variable.element
+        )
       : [];
 
     return (
@@ -645,7 +676,7 @@ const VariablesSidebar: React.FC<VariablesSidebarProps> = observer(
               <VariableCard
                 key={varId}
                 varId={varId}
-                variable={variable}
+                variable={fromSIVariable(variable)}
                 onValueChange={(value) => handleValueChange(varId, value)}
                 onNameChange={(name) => handleNameChange(varId, name)}
                 onInputChange={(input) => handleInputChange(varId, input)}
@@ -654,6 +685,9 @@ const VariablesSidebar: React.FC<VariablesSidebarProps> = observer(
                   handlePrecisionChange(varId, precision)
                 }
                 onStepChange={(step) => handleStepChange(varId, step)}
+                onDisplayUnitsChange={(units) =>
+                  handleDisplayUnitsChange(varId, units)
+                }
                 onDelete={() => handleDelete(varId)}
               />
             ))
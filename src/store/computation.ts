@@ -1,11 +1,52 @@
 import { action, computed, observable, toJS } from "mobx";
 
-import { computeWithManualEngine } from "../engine/manual";
-import { ISemantics } from "../types/computation";
+import {
+  IDependencyGraph,
+  computeWithManualEngine,
+  createSemanticsError,
+} from "../engine/manual";
+import {
+  assignValue,
+  getElementValue,
+  getMatrixElements,
+  isMatrixVariable,
+  toArrayValue,
+} from "../engine/matrix";
+import {
+  IFieldVector,
+  IPoint2D,
+  IPoint3D,
+  ISamplingDependencyHandler,
+  ISamplingErrorHandler,
+  IScalarSample,
+  computePoint,
+  createSamplingErrorCollector,
+  extractPoint2D,
+  extractPoint3D,
+  sampleFieldGrid,
+  sampleLine,
+  sampleScalarGrid,
+  sampleSurfaceGrid,
+} from "../engine/sampling";
+import {
+  ISamplingJob,
+  ISamplingPayload,
+  SamplingClient,
+} from "../engine/sampling-client";
+import { findRoot } from "../engine/solver";
+import { ICompiledAssignment, solveAssignment } from "../engine/symbolic";
+import { traceSemantics } from "../engine/trace";
+import { IUnitAnalysis, isCompatibleUnits } from "../engine/units";
+import {
+  ISemantics,
+  ISemanticsError,
+  IUnitWarning,
+} from "../types/computation";
 import { IEnvironment } from "../types/environment";
 import { IFormula } from "../types/formula";
 import { IDataPoint } from "../types/graph";
-import { ICollectedStep, IView } from "../types/step";
+import { IPlotView, IState } from "../types/state";
+import { ICollectedStep, IStepGroup, IView } from "../types/step";
 import { INPUT_VARIABLE_DEFAULT, IValue, IVariable } from "../types/variable";
 import { FormulaLatexRanges } from "../util/parse/formula-text";
 import { canonicalizeFormula } from "../util/parse/formula-transform";
@@ -26,6 +67,22 @@ export type EvaluationFunction = (
   variables: EvaluationFunctionInput
 ) => Record<string, IValue>;
 
+/**
+ * A reversible change to one or more variable values.
+ * @property before - Values before the change, keyed by variable ID
+ * @property after - Values after the change, keyed by variable ID
+ */
+interface IHistoryEntry {
+  before: Map<string, IValue | undefined>;
+  after: Map<string, IValue | undefined>;
+}
+
+// Oldest entries are dropped beyond this many undo steps
+const HISTORY_LIMIT = 100;
+
+const isSameValue = (a: IValue | undefined, b: IValue | undefined): boolean =>
+  JSON.stringify(a) === JSON.stringify(b);
+
 class ComputationStore {
   @observable
   accessor variables = new Map<string, IVariable>();
@@ -51,6 +108,14 @@ class ComputationStore {
     (formulaId: string, isHovered: boolean) => void
   > = new Set();
 
+  // Formulas pinned open by clicking (e.g. abbreviated embedded formulas)
+  @observable
+  accessor pinnedFormulas = new Set<string>();
+
+  // Plot views changed by the user (visualization ID -> view)
+  @observable
+  accessor plotViews = new Map<string, IPlotView>();
+
   // Mapping from formula IDs to node IDs (for bidirectional hover)
   @observable
   accessor formulaNodeMapping = new Map<string, string>();
@@ -115,16 +180,28 @@ class ComputationStore {
   @observable
   accessor stepping: boolean = false;
 
+  // Collect a step for every assignment and loop iteration (IEnvironment.trace)
+  @observable
+  accessor stepTracing: boolean = false;
+
   // ============= Step Store Properties =============
 
   /** All collected steps from the latest semantics execution */
   @observable
   accessor steps: ICollectedStep[] = [];
 
+  /** Groups of steps from step.group() calls in the latest semantics execution */
+  @observable
+  accessor stepGroups: IStepGroup[] = [];
+
   /** Current step index being viewed (0-based) */
   @observable
   accessor currentStepIndex: number = 0;
 
+  /** Whether autoplay is advancing through the steps (see StepControl) */
+  @observable
+  accessor isPlaying: boolean = false;
+
   /** Error message if step collection failed */
   @observable
   accessor stepError: string | null = null;
@@ -152,8 +229,69 @@ class ComputationStore {
   @observable
   accessor stepDataPointMap = new Map<string, IDataPoint[]>();
 
+  /**
+   * Whether graph sampling runs in a Web Worker (IEnvironment.worker).
+   * Plots use the *Async sampling methods, which honor this flag.
+   */
+  @observable
+  accessor workerSampling: boolean = false;
+
+  private samplingClient: SamplingClient | null = null;
+
+  // Assignments compiled from the formulas when the config has no semantics
+  private formulaAssignments: ICompiledAssignment[] = [];
+
+  /** Error thrown by the latest semantics run (computation or step collection) */
+  @observable.ref
+  accessor semanticsError: ISemanticsError | null = null;
+
+  /**
+   * De-duplicated errors thrown while sampling plots, keyed by sampling key
+   * (e.g. "line2d:curve"). Each sampling pass replaces its key's entry.
+   */
+  @observable.shallow
+  accessor samplingErrors = new Map<string, ISemanticsError[]>();
+
+  /** Formulas whose sides have different dimensions (see engine/units) */
+  @observable.ref
+  accessor unitWarnings: IUnitWarning[] = [];
+
+  // Callbacks notified when a new semantics or sampling error appears
+  private errorCallbacks: Set<(error: ISemanticsError) => void> = new Set();
+
+  /**
+   * Dependencies observed during the latest semantics run.
+   * Null until the semantics has run once; consumers must then assume
+   * every variable can affect every output.
+   */
+  @observable.ref
+  accessor dependencyGraph: IDependencyGraph | null = null;
+
+  /**
+   * Variables read while sampling each graph, keyed by graph ID.
+   * Sampled graphs run the semantics at many parameter values, so branches
+   * can read variables the latest run did not. Grows until the semantics changes.
+   */
+  @observable.shallow
+  accessor sampledDependencies = new Map<string, Set<string>>();
+
   private evaluationFunction: EvaluationFunction | null = null;
 
+  /** Value changes that can be undone, oldest first */
+  @observable.ref
+  accessor undoStack: IHistoryEntry[] = [];
+
+  /** Undone value changes that can be redone, most recently undone last */
+  @observable.ref
+  accessor redoStack: IHistoryEntry[] = [];
+
+  // Changes made during the current drag, recorded as one entry when it ends
+  private pendingHistoryEntry: IHistoryEntry | null = null;
+  // Instrumented semantics for step tracing, rebuilt when either changes
+  private tracedSemantics: ISemantics | null = null;
+  // Why step tracing is unavailable, reported with the collected steps
+  private stepTracingError: string | null = null;
+
   isStepMode(): boolean {
     return this.stepping;
   }
@@ -163,6 +301,38 @@ class ComputationStore {
     this.stepping = enabled;
   }
 
+  @action
+  setStepTracing(enabled: boolean) {
+    this.stepTracing = enabled;
+    this.updateTracedSemantics();
+  }
+
+  /**
+   * Instrument the semantics for step tracing, once per semantics function.
+   * Reports through stepError when its source cannot be instrumented.
+   */
+  @action
+  private updateTracedSemantics(): void {
+    this.tracedSemantics = null;
+    this.stepTracingError = null;
+    if (!this.stepTracing || typeof this.semantics !== "function") return;
+    this.tracedSemantics = traceSemantics(this.semantics);
+    if (!this.tracedSemantics) {
+      this.stepTracingError =
+        "Step tracing is not available for this semantics function; only step() calls are collected";
+      this.stepError = this.stepTracingError;
+    }
+  }
+
+  /**
+   * The semantics function used to collect steps: instrumented to trace
+   * assignments and loop iterations when step tracing is enabled.
+   * Falls back to the plain semantics if its source cannot be instrumented.
+   */
+  get stepSemantics(): ISemantics | null {
+    return this.tracedSemantics ?? this.semantics;
+  }
+
   // ============= Step Store Computed Getters =============
 
   /** Get the current step being viewed */
@@ -185,6 +355,12 @@ class ComputationStore {
     return this.currentStepIndex >= this.steps.length - 1;
   }
 
+  /** Get the innermost group containing the current step */
+  get currentGroup(): IStepGroup | undefined {
+    const parent = this.currentStep?.parent;
+    return parent === undefined ? undefined : this.stepGroups[parent];
+  }
+
   /** Get progress as a percentage (0-100) */
   get stepProgress(): number {
     if (this.steps.length === 0) return 0;
@@ -201,7 +377,7 @@ class ComputationStore {
   setSteps(steps: ICollectedStep[]): void {
     this.steps = steps;
     this.currentStepIndex = 0;
-    this.stepError = null;
+    this.stepError = this.stepTracingError;
     // Update stepValues immediately to keep state consistent
     this.updateStepValues();
   }
@@ -238,6 +414,33 @@ class ComputationStore {
     this.currentStepIndex = Math.max(0, Math.min(index, this.steps.length - 1));
   }
 
+  /**
+   * Navigate to the next step, skipping over a whole group if the next step
+   * starts one, like "step over" in a debugger.
+   */
+  @action
+  stepOver(): void {
+    const next = this.currentStepIndex + 1;
+    if (next >= this.steps.length) return;
+    // Groups are ordered by start with enclosing groups first
+    const entered = this.stepGroups.find((group) => group.start === next);
+    this.currentStepIndex = Math.min(
+      entered ? entered.end : next,
+      this.steps.length - 1
+    );
+  }
+
+  /**
+   * Navigate to the first step after the current step's innermost group,
+   * like "step out" in a debugger. Does nothing outside of groups.
+   */
+  @action
+  stepOut(): void {
+    const group = this.currentGroup;
+    if (!group) return;
+    this.currentStepIndex = Math.min(group.end, this.steps.length - 1);
+  }
+
   /**
    * Go to the first step.
    */
@@ -256,6 +459,15 @@ class ComputationStore {
     }
   }
 
+  /**
+   * Start or pause autoplay.
+   * Playback also pauses when the user changes or drags a variable.
+   */
+  @action
+  setPlaying(playing: boolean): void {
+    this.isPlaying = playing;
+  }
+
   /**
    * Set an error message for step collection.
    */
@@ -270,8 +482,12 @@ class ComputationStore {
   @action
   resetSteps(): void {
     this.steps = [];
+    this.stepGroups = [];
     this.currentStepIndex = 0;
     this.stepping = false;
+    this.stepTracing = false;
+    this.updateTracedSemantics();
+    this.isPlaying = false;
     this.stepError = null;
     this.stepValues.clear();
     this.stepValuesVersion++;
@@ -348,19 +564,35 @@ class ComputationStore {
       // Multi-formula step: group by formula ID
       for (const [formulaId, view] of Object.entries(step.formulas)) {
         if (view.values && view.values.length > 0) {
-          const varIds = new Set(view.values.map(([varId]) => varId));
+          const varIds = this.withElementIds(
+            view.values.map(([varId]) => varId)
+          );
           activeVarsMap.set(formulaId, varIds);
         }
       }
     } else if (step.values && step.values.length > 0) {
       // Single formula step: use empty string key for "all formulas"
-      const varIds = new Set(step.values.map(([varId]) => varId));
+      const varIds = this.withElementIds(step.values.map(([varId]) => varId));
       activeVarsMap.set("", varIds);
     }
 
     return activeVarsMap;
   }
 
+  // Variable IDs plus the element IDs of any vectors and matrices among them
+  private withElementIds(varIds: string[]): Set<string> {
+    const ids = new Set(varIds);
+    for (const varId of varIds) {
+      const variable = this.variables.get(varId);
+      if (variable && isMatrixVariable(variable)) {
+        getMatrixElements(varId, variable).forEach((element) =>
+          ids.add(element.id)
+        );
+      }
+    }
+    return ids;
+  }
+
   get evaluateFormula(): EvaluationFunction | null {
     return this.evaluationFunction;
   }
@@ -404,7 +636,7 @@ class ComputationStore {
     // Collect values from top-level step
     if (step.values) {
       for (const [varId, value] of step.values) {
-        this.stepValues.set(varId, value);
+        this.setStepValueWithElements(varId, value);
       }
     }
 
@@ -413,7 +645,7 @@ class ComputationStore {
       for (const view of Object.values(step.formulas)) {
         if (view.values) {
           for (const [varId, value] of view.values) {
-            this.stepValues.set(varId, value);
+            this.setStepValueWithElements(varId, value);
           }
         }
       }
@@ -422,6 +654,23 @@ class ComputationStore {
     this.stepValuesVersion++;
   }
 
+  // A vector or matrix step value (possibly a mathjs matrix) also sets its elements
+  private setStepValueWithElements(varId: string, value: IValue): void {
+    const variable = this.variables.get(varId);
+    if (!variable || !isMatrixVariable(variable)) {
+      this.stepValues.set(varId, value);
+      return;
+    }
+    const matrixValue = toArrayValue(value) as IValue;
+    this.stepValues.set(varId, matrixValue);
+    for (const element of getMatrixElements(varId, variable)) {
+      const elementValue = getElementValue(matrixValue, element.index);
+      if (elementValue !== undefined) {
+        this.stepValues.set(element.id, elementValue);
+      }
+    }
+  }
+
   /**
    * Sample the current step and update stepValues.
    * Used when input variables change in step mode.
@@ -439,6 +688,7 @@ class ComputationStore {
 
       // Update steps array (this keeps total count accurate)
       this.steps = steps;
+      this.stepError = this.semanticsError?.message ?? this.stepTracingError;
 
       // Clamp current index if needed
       if (steps.length === 0) {
@@ -472,6 +722,11 @@ class ComputationStore {
   @action
   setSemantics(config: ISemantics | null) {
     this.semantics = config;
+    this.updateTracedSemantics();
+    // Dependencies and errors observed for the previous semantics no longer apply
+    this.dependencyGraph = null;
+    this.sampledDependencies.clear();
+    this.clearErrors();
   }
 
   @action
@@ -481,6 +736,8 @@ class ComputationStore {
     this.dragStates.clear();
     this.nodeHoverStates.clear();
     this.formulaHoverStates.clear();
+    this.pinnedFormulas.clear();
+    this.plotViews.clear();
     this.formulaNodeMapping.clear();
     this.nodeFormulaMapping.clear();
     this.formulaHoverCallbacks.clear();
@@ -494,14 +751,25 @@ class ComputationStore {
     this.formulas = [];
     this.semantics = null;
     this.evaluationFunction = null;
+    this.dependencyGraph = null;
+    this.sampledDependencies.clear();
+    this.formulaAssignments = [];
+    this.unitWarnings = [];
+    this.clearHistory();
+    this.clearErrors();
     // Reset step-related state
     this.steps = [];
+    this.stepGroups = [];
     this.currentStepIndex = 0;
     this.stepping = false;
+    this.stepTracing = false;
+    this.updateTracedSemantics();
+    this.isPlaying = false;
     this.stepError = null;
     this.stepValues.clear();
     this.stepValuesVersion++;
     this.stepDataPointMap.clear();
+    this.setWorkerSampling(false);
     // Remove custom CSS style element
     const styleElement = document.getElementById("custom-var-styles");
     if (styleElement) {
@@ -846,8 +1114,9 @@ class ComputationStore {
     };
   }
 
+  // A vector or matrix value also updates its element variables
   @action
-  setValue(id: string, value: number) {
+  setValue(id: string, value: number | number[] | number[][]) {
     const variable = this.variables.get(id);
     if (!variable) {
       return false;
@@ -858,13 +1127,16 @@ class ComputationStore {
       return true;
     }
 
-    variable.value = value;
+    this.recordChange(id, variable.value, value);
+    this.isPlaying = false;
+    // Also updates the vector or matrix the variable is an element of
+    assignValue((varId) => this.variables.get(varId), id, value);
 
     if (this.stepping) {
       // In step mode: refresh step values (isolated from main variables)
       // This re-samples the semantics and updates stepValues only
       this.refreshCurrentStepValues();
-    } else {
+    } else if (this.canAffectComputation(id)) {
       // Normal mode: re-run computation to update dependent variables
       this.runComputation();
     }
@@ -876,12 +1148,14 @@ class ComputationStore {
     if (!variable) {
       return false;
     }
+    this.recordChange(id, variable.value, set);
+    this.isPlaying = false;
     variable.value = set;
 
     if (this.stepping) {
       // In step mode: refresh step values (isolated from main variables)
       this.refreshCurrentStepValues();
-    } else {
+    } else if (this.canAffectComputation(id)) {
       // Normal mode: re-run computation to update dependent variables
       this.runComputation();
     }
@@ -898,9 +1172,22 @@ class ComputationStore {
     this.stepValues.set(id, value);
   }
 
+  /**
+   * Set whether a visualization is being dragged.
+   * The dragged variables are recorded as setVariableDrag records them,
+   * so dragstart and dragend events fire for them.
+   */
   @action
-  setDragging(dragging: boolean) {
+  setDragging(dragging: boolean, varIds: string[] = []) {
+    for (const varId of varIds) {
+      if (dragging) {
+        this.dragStates.set(varId, true);
+      } else {
+        this.dragStates.delete(varId);
+      }
+    }
     this.isDragging = dragging;
+    this.groupDragHistory();
   }
 
   @action
@@ -910,11 +1197,13 @@ class ComputationStore {
       this.hoverStates.clear();
       this.dragStates.set(varId, true);
       this.isDragging = true;
+      this.isPlaying = false;
     } else {
       this.dragStates.delete(varId);
       // Update isDragging based on whether any variables are still being dragged
       this.isDragging = this.dragStates.size > 0;
     }
+    this.groupDragHistory();
   }
 
   @action
@@ -1062,7 +1351,16 @@ class ComputationStore {
         storeVariables[varName] = variable; // Same reference, not a copy
       }
       // Run the semantics function - it mutates variables directly via proxy
-      computeWithManualEngine(storeVariables, this.semantics ?? undefined);
+      const result = computeWithManualEngine(
+        storeVariables,
+        this.semantics ?? undefined,
+        false,
+        true
+      );
+      // Keep the observed dependencies for incremental recomputation.
+      // Without them every change must rerun, so no stale graph is kept.
+      this.setDependencyGraph(result.dependencies ?? null);
+      this.setSemanticsError(result.error ?? null);
       // No need to sync back or return values - mutations happen directly
       return {};
     };
@@ -1076,6 +1374,7 @@ class ComputationStore {
         dataType: variableDefinition?.dataType,
         dimensions: variableDefinition?.dimensions,
         units: variableDefinition?.units,
+        displayUnits: variableDefinition?.displayUnits,
         name: variableDefinition?.name,
         precision:
           variableDefinition?.precision ?? INPUT_VARIABLE_DEFAULT.PRECISION,
@@ -1093,6 +1392,8 @@ class ComputationStore {
         defaultCSS: variableDefinition?.defaultCSS,
         hoverCSS: variableDefinition?.hoverCSS,
         input: variableDefinition?.input,
+        solveFor: variableDefinition?.solveFor,
+        element: variableDefinition?.element,
       });
     }
   }
@@ -1152,6 +1453,530 @@ class ComputationStore {
     };
   }
 
+  // ============= Dependency Tracking =============
+
+  @action
+  setDependencyGraph(dependencies: IDependencyGraph | null): void {
+    this.dependencyGraph = dependencies;
+  }
+
+  /**
+   * Check whether changing a variable can change the result of the semantics.
+   * A variable the latest run neither read nor wrote cannot, so the run is skipped.
+   * @param varId - The changed variable ID
+   */
+  canAffectComputation(varId: string): boolean {
+    const dependencies = this.dependencyGraph;
+    if (!dependencies) return true;
+    if (dependencies.inputs.has(varId) || dependencies.outputs.has(varId)) {
+      return true;
+    }
+    // Semantics usually reads the whole vector or matrix, not its elements
+    const parent = this.variables.get(varId)?.element?.parent;
+    return parent !== undefined && this.canAffectComputation(parent);
+  }
+
+  /**
+   * Get the input variables a graph's data2d/data3d calls depended on, in the
+   * latest run and in every sample taken of the graph.
+   * @param graphId - The graph ID
+   * @returns The variable IDs, or undefined if the graph was neither reached
+   * in the latest run nor sampled
+   */
+  getGraphDependencies(graphId: string): Set<string> | undefined {
+    const observed = this.dependencyGraph?.graphs.get(graphId);
+    const sampled = this.sampledDependencies.get(graphId);
+    if (!observed || !sampled) return observed ?? sampled;
+    return new Set([...observed, ...sampled]);
+  }
+
+  /**
+   * Add variables read while sampling a graph to its dependencies.
+   * Replaces the set only when it grows, so observers do not rerun needlessly.
+   * @param graphId - The sampled graph
+   * @param variableIds - Variables the samples read
+   */
+  @action
+  addSampledDependencies(graphId: string, variableIds: Iterable<string>): void {
+    const current = this.sampledDependencies.get(graphId);
+    const next = new Set(current);
+    for (const varId of variableIds) next.add(varId);
+    if (!current || next.size > current.size) {
+      this.sampledDependencies.set(graphId, next);
+    }
+  }
+
+  /**
+   * A string key identifying the values a graph depends on.
+   * Plots compare keys to skip resampling a graph when none of its inputs changed.
+   * Falls back to all variable values when the graph's dependencies are unknown.
+   *
+   * @param graphId - The graph ID
+   * @param exclude - Variables to leave out, e.g. the parameters being sampled over
+   */
+  getDependencyKey(graphId: string, exclude: string[] = []): string {
+    const dependencies = this.getGraphDependencies(graphId);
+    const values: Record<string, IValue | undefined> = {};
+    for (const [varName, variable] of this.variables.entries()) {
+      if (exclude.includes(varName)) continue;
+      if (dependencies && !dependencies.has(varName)) continue;
+      values[varName] = toJS(variable.value);
+    }
+    return JSON.stringify(values);
+  }
+
+  // ============= Solving Computed Variables =============
+
+  /**
+   * The input variable adjusted when a computed variable is dragged.
+   * Uses the variable's solveFor option, otherwise the first interactive
+   * input the variable depended on in the latest run.
+   *
+   * @param varId - The computed variable
+   * @returns The input ID, or null if the variable is an input or cannot be solved
+   */
+  getSolveTarget(varId: string): string | null {
+    const variable = this.variables.get(varId);
+    if (!variable || variable.input || typeof variable.value !== "number") {
+      return null;
+    }
+    const isNumber = (id: string) =>
+      typeof this.variables.get(id)?.value === "number";
+    if (variable.solveFor) {
+      return isNumber(variable.solveFor) ? variable.solveFor : null;
+    }
+    const inputs = this.dependencyGraph?.outputs.get(varId);
+    if (!inputs) return null;
+    for (const id of inputs) {
+      if (this.variables.get(id)?.input && isNumber(id)) return id;
+    }
+    return null;
+  }
+
+  /**
+   * Set a computed variable by solving for its solve target.
+   * Inverts the variable's formula symbolically when possible, and otherwise
+   * searches for the input value numerically by re-running the semantics.
+   *
+   * @param varId - The computed variable being dragged
+   * @param value - The desired value
+   * @returns Whether a solution was found and applied
+   */
+  @action
+  solveValue(varId: string, value: number): boolean {
+    const targetId = this.getSolveTarget(varId);
+    if (!targetId) return false;
+    const solution =
+      this.solveSymbolically(varId, targetId, value) ??
+      this.solveNumerically(varId, targetId, value);
+    if (solution === null) return false;
+    const range = this.variables.get(targetId)?.range;
+    this.setValue(
+      targetId,
+      range ? Math.max(range[0], Math.min(range[1], solution)) : solution
+    );
+    return true;
+  }
+
+  @action
+  setFormulaAssignments(assignments: ICompiledAssignment[]): void {
+    this.formulaAssignments = assignments;
+  }
+
+  private solveSymbolically(
+    varId: string,
+    targetId: string,
+    value: number
+  ): number | null {
+    const assignment = this.formulaAssignments.find((a) => a.target === varId);
+    if (!assignment || !assignment.inputs.includes(targetId)) return null;
+    // The other inputs must stay fixed while the target changes
+    const dependsOnTarget = assignment.inputs.some(
+      (input) =>
+        input !== targetId &&
+        this.dependencyGraph?.outputs.get(input)?.has(targetId)
+    );
+    if (dependsOnTarget) return null;
+    const values: Record<string, unknown> = {};
+    for (const input of assignment.inputs) {
+      values[input] = toJS(this.variables.get(input)?.value);
+    }
+    return solveAssignment(assignment, targetId, value, values);
+  }
+
+  private solveNumerically(
+    varId: string,
+    targetId: string,
+    value: number
+  ): number | null {
+    const semantics = this.semantics;
+    const target = this.variables.get(targetId);
+    if (!semantics || typeof target?.value !== "number") return null;
+    const evaluate = (input: number): number | null => {
+      const variables = this.getVariablesSnapshot();
+      variables[targetId] = { ...variables[targetId], value: input };
+      const result = computeWithManualEngine(variables, semantics);
+      const output = variables[varId]?.value;
+      return !result.error &&
+        typeof output === "number" &&
+        Number.isFinite(output)
+        ? output
+        : null;
+    };
+    const initial = target.value;
+    const step =
+      target.step ??
+      (target.range
+        ? (target.range[1] - target.range[0]) / 100
+        : Math.max(1, Math.abs(initial)) * 1e-3);
+    return findRoot(evaluate, value, initial, step, target.range);
+  }
+
+  // ============= History =============
+
+  @computed
+  get canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  @computed
+  get canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * Restore the values from before the latest change.
+   * @returns Whether there was a change to undo
+   */
+  @action
+  undo(): boolean {
+    this.commitPendingHistory();
+    const entry = this.undoStack[this.undoStack.length - 1];
+    if (!entry) return false;
+    this.undoStack = this.undoStack.slice(0, -1);
+    this.redoStack = [...this.redoStack, entry];
+    this.restoreValues(entry.before);
+    return true;
+  }
+
+  /**
+   * Reapply the most recently undone change.
+   * @returns Whether there was a change to redo
+   */
+  @action
+  redo(): boolean {
+    this.commitPendingHistory();
+    const entry = this.redoStack[this.redoStack.length - 1];
+    if (!entry) return false;
+    this.redoStack = this.redoStack.slice(0, -1);
+    this.undoStack = [...this.undoStack, entry];
+    this.restoreValues(entry.after);
+    return true;
+  }
+
+  @action
+  clearHistory(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.pendingHistoryEntry = null;
+  }
+
+  /**
+   * Record the changes an update makes as one history entry, e.g. both
+   * coordinates of a clicked point. Inside a drag they join the drag's entry.
+   */
+  @action
+  groupHistory(update: () => void): void {
+    if (this.pendingHistoryEntry) {
+      update();
+      return;
+    }
+    this.pendingHistoryEntry = { before: new Map(), after: new Map() };
+    try {
+      update();
+    } finally {
+      this.commitPendingHistory();
+    }
+  }
+
+  // Record a value change, merging it into the current drag's entry if any
+  private recordChange(
+    varId: string,
+    before: IValue | undefined,
+    after: IValue | undefined
+  ): void {
+    if (!this.pendingHistoryEntry && isSameValue(before, after)) return;
+    const entry = this.pendingHistoryEntry ?? {
+      before: new Map(),
+      after: new Map(),
+    };
+    if (!entry.before.has(varId)) {
+      entry.before.set(varId, toArrayValue(toJS(before)) as IValue);
+    }
+    entry.after.set(varId, toArrayValue(toJS(after)) as IValue);
+    if (!this.pendingHistoryEntry) {
+      this.pushHistory(entry);
+    }
+  }
+
+  // A drag, even of several variables at once, is undone as a whole
+  private groupDragHistory(): void {
+    if (!this.isDragging) {
+      this.commitPendingHistory();
+    } else if (!this.pendingHistoryEntry) {
+      this.pendingHistoryEntry = { before: new Map(), after: new Map() };
+    }
+  }
+
+  private commitPendingHistory(): void {
+    const entry = this.pendingHistoryEntry;
+    this.pendingHistoryEntry = null;
+    if (!entry) return;
+    // Drop variables the drag brought back to where they started
+    for (const [varId, value] of entry.before) {
+      if (isSameValue(value, entry.after.get(varId))) {
+        entry.before.delete(varId);
+        entry.after.delete(varId);
+      }
+    }
+    if (entry.before.size > 0) {
+      this.pushHistory(entry);
+    }
+  }
+
+  private pushHistory(entry: IHistoryEntry): void {
+    this.undoStack = [...this.undoStack, entry].slice(-HISTORY_LIMIT);
+    this.redoStack = [];
+  }
+
+  private restoreValues(
+    values: Map<string, IValue | undefined> | Record<string, IValue>
+  ): void {
+    // Written directly rather than through setValue, so nothing is recorded
+    const entries = values instanceof Map ? values : Object.entries(values);
+    for (const [varId, value] of entries) {
+      assignValue((id) => this.variables.get(id), varId, value);
+    }
+    if (this.stepping) {
+      this.refreshCurrentStepValues();
+    } else {
+      this.runComputation();
+    }
+  }
+
+  // ============= State Snapshots =============
+
+  @action
+  setFormulaPinned(formulaId: string, isPinned: boolean): void {
+    if (isPinned) {
+      this.pinnedFormulas.add(formulaId);
+    } else {
+      this.pinnedFormulas.delete(formulaId);
+    }
+  }
+
+  isFormulaPinned(formulaId: string): boolean {
+    return this.pinnedFormulas.has(formulaId);
+  }
+
+  getPlotView(plotId: string): IPlotView | undefined {
+    return this.plotViews.get(plotId);
+  }
+
+  /**
+   * Record a plot's view so that it is included in state snapshots.
+   * Views equal to the current one are ignored, so plots can apply views
+   * from the store without triggering another update.
+   */
+  @action
+  setPlotView(plotId: string, view: IPlotView): void {
+    const current = this.plotViews.get(plotId);
+    if (JSON.stringify(toJS(current)) === JSON.stringify(view)) return;
+    this.plotViews.set(plotId, view);
+  }
+
+  /**
+   * Drop a plot's view, e.g. when the user resets a panned or zoomed plot.
+   */
+  @action
+  resetPlotView(plotId: string): void {
+    this.plotViews.delete(plotId);
+  }
+
+  /**
+   * Capture the interactive state: input variable values, the current step,
+   * the hovered and pinned formulas, and plot views.
+   * Computed variables are left out, as they follow from the inputs.
+   */
+  getState(): IState {
+    const state: IState = {};
+    const values: Record<string, IValue> = {};
+    for (const [varId, variable] of this.variables.entries()) {
+      // Vector and matrix elements are covered by their parent's value
+      if (!variable.input || variable.element || variable.value === undefined) {
+        continue;
+      }
+      values[varId] = toArrayValue(toJS(variable.value)) as IValue;
+    }
+    if (Object.keys(values).length > 0) state.values = values;
+    if (this.stepping && this.currentStepIndex > 0) {
+      state.step = this.currentStepIndex;
+    }
+    for (const [formulaId, isHovered] of this.formulaHoverStates.entries()) {
+      if (isHovered) state.hovered = formulaId;
+    }
+    if (this.pinnedFormulas.size > 0) {
+      state.pinned = Array.from(this.pinnedFormulas);
+    }
+    if (this.plotViews.size > 0) {
+      state.views = Object.fromEntries(toJS(this.plotViews));
+    }
+    return state;
+  }
+
+  /**
+   * Restore a snapshot from getState. Variables, formulas and steps that no
+   * longer exist are skipped; fields missing from the snapshot are reset.
+   * The restored values are one history entry, so undo returns to the values
+   * from before the restore.
+   */
+  @action
+  setState(state: IState): void {
+    const values: Record<string, IValue> = {};
+    for (const [varId, value] of Object.entries(state.values ?? {})) {
+      if (this.variables.get(varId)?.input) values[varId] = value;
+    }
+    this.groupHistory(() => {
+      for (const [varId, value] of Object.entries(values)) {
+        this.recordChange(varId, this.variables.get(varId)?.value, value);
+      }
+      this.restoreValues(values);
+    });
+    this.goToStep(state.step ?? 0);
+    for (const formulaId of this.formulaHoverStates.keys()) {
+      if (formulaId !== state.hovered) this.setFormulaHover(formulaId, false);
+    }
+    if (state.hovered) this.setFormulaHover(state.hovered, true);
+    this.pinnedFormulas.clear();
+    state.pinned?.forEach((formulaId) => this.pinnedFormulas.add(formulaId));
+    this.plotViews.clear();
+    for (const [plotId, view] of Object.entries(state.views ?? {})) {
+      this.plotViews.set(plotId, view);
+    }
+  }
+
+  // ============= Units =============
+
+  /**
+   * Apply the result of checking the formulas' units.
+   * Computed variables without declared units take their inferred units.
+   */
+  @action
+  setUnitAnalysis({ warnings, units }: IUnitAnalysis): void {
+    this.unitWarnings = warnings;
+    for (const [varId, inferred] of Object.entries(units)) {
+      const variable = this.variables.get(varId);
+      if (variable && !variable.units) variable.units = inferred;
+    }
+  }
+
+  /**
+   * Show a variable in different units of the same dimension.
+   * The stored value is unchanged. Pass undefined to show the declared units.
+   * @returns false if the units are incompatible with the variable's units
+   */
+  @action
+  setDisplayUnits(varId: string, units: string | undefined): boolean {
+    const variable = this.variables.get(varId);
+    if (!variable) return false;
+    if (units !== undefined && units !== variable.units) {
+      if (!variable.units || !isCompatibleUnits(variable.units, units)) {
+        return false;
+      }
+    }
+    variable.displayUnits = units;
+    return true;
+  }
+
+  // ============= Error Reporting =============
+
+  /**
+   * All current semantics errors: the latest run's error followed by sampling errors.
+   */
+  @computed
+  get errors(): ISemanticsError[] {
+    const errors: ISemanticsError[] = [];
+    if (this.semanticsError) errors.push(this.semanticsError);
+    for (const samplingErrors of this.samplingErrors.values()) {
+      errors.push(...samplingErrors);
+    }
+    return errors;
+  }
+
+  /**
+   * Set the error thrown by the latest semantics run.
+   * Callbacks are notified only when the message changes, so a persistent
+   * error is not re-reported on every recomputation.
+   */
+  @action
+  setSemanticsError(error: ISemanticsError | null): void {
+    const previous = this.semanticsError;
+    this.semanticsError = error;
+    if (error && error.message !== previous?.message) {
+      this.notifyError(error);
+    }
+  }
+
+  /**
+   * Replace the errors recorded for a sampling key.
+   * @param key - Sampling key, e.g. "line2d:curve"
+   * @param errors - De-duplicated errors from the latest sampling pass
+   */
+  @action
+  setSamplingErrors(key: string, errors: ISemanticsError[]): void {
+    const previous = this.samplingErrors.get(key) ?? [];
+    if (errors.length === 0) {
+      if (previous.length > 0) this.samplingErrors.delete(key);
+      return;
+    }
+    const previousMessages = new Set(previous.map((error) => error.message));
+    const unchanged =
+      previous.length === errors.length &&
+      errors.every(
+        (error, i) =>
+          previousMessages.has(error.message) &&
+          error.count === previous[i].count
+      );
+    if (unchanged) return;
+    this.samplingErrors.set(key, errors);
+    errors
+      .filter((error) => !previousMessages.has(error.message))
+      .forEach((error) => this.notifyError(error));
+  }
+
+  @action
+  clearErrors(): void {
+    this.semanticsError = null;
+    this.samplingErrors.clear();
+  }
+
+  /**
+   * Subscribe to new semantics and sampling errors
+   * Returns an unsubscribe function
+   */
+  onSemanticsError(callback: (error: ISemanticsError) => void): () => void {
+    this.errorCallbacks.add(callback);
+    return () => {
+      this.errorCallbacks.delete(callback);
+    };
+  }
+
+  private notifyError(error: ISemanticsError): void {
+    this.errorCallbacks.forEach((callback) => {
+      callback(error);
+    });
+  }
+
   // ============= Step Data Collection =============
 
   /**
@@ -1163,133 +1988,85 @@ class ComputationStore {
    */
   @action
   sampleSteps(): ICollectedStep[] {
-    if (!this.semantics || typeof this.semantics !== "function") {
+    const semantics = this.stepSemantics;
+    if (!semantics || typeof semantics !== "function") {
       return [];
     }
     const variables = this.getVariablesSnapshot();
-    const result = computeWithManualEngine(variables, this.semantics, true);
+    const result = computeWithManualEngine(variables, semantics, true);
     // Store dataPointMap for step-dependent visualizations
     this.stepDataPointMap = result.dataPointMap;
+    this.stepGroups = result.stepGroups;
+    this.setSemanticsError(result.error ?? null);
     return result.stepList;
   }
 
-  // ============= Graph Data Collection =============
-
   /**
-   * Extract a 2D point from dataPoints map.
-   * @param dataPointMap - Map of graph ID to data points
-   * @param graphId - The graph ID to look up
-   * @returns The first valid {x, y} point or null
+   * Get the points a graph collected up to the current step, for graphs that
+   * appear as stepping reaches the step() calls with the given ID.
+   * The n-th data2d/data3d point of the graph belongs to the n-th such step.
+   *
+   * @param graphId - Graph ID to match data2d/data3d calls
+   * @param stepId - Step ID the graph's points belong to
+   * @param persistence - Whether points of earlier steps stay visible (default: true)
+   * @returns The points reached, or only the latest when not persistent; none outside step mode
    */
-  private extractPoint2D(
-    dataPointMap: Map<string, IDataPoint[]>,
-    graphId: string
-  ): { x: number; y: number } | null {
-    const dataPoints = dataPointMap.get(graphId);
-    if (!dataPoints || dataPoints.length === 0) return null;
-    const { x, y } = dataPoints[0];
-    if (
-      typeof x === "number" &&
-      typeof y === "number" &&
-      isFinite(x) &&
-      isFinite(y)
-    ) {
-      return { x, y };
+  getStepDataPoints(
+    graphId: string,
+    stepId: string,
+    persistence: boolean = true
+  ): IDataPoint[] {
+    if (!this.stepping) return [];
+    const allPoints = this.stepDataPointMap.get(graphId) ?? [];
+    // Count how many steps with matching stepId are in range [0, currentStepIndex]
+    let matchingStepCount = 0;
+    for (let i = 0; i <= this.currentStepIndex && i < this.steps.length; i++) {
+      if (this.steps[i].id === stepId) {
+        matchingStepCount++;
+      }
     }
-    return null;
-  }
-
-  /**
-   * Extract a 3D point from dataPoints map.
-   * @param dataPoints - Map of graph ID to data points
-   * @param graphId - The graph ID to look up
-   * @returns The first valid {x, y, z} point or null
-   */
-  private extractPoint3D(
-    dataPointMap: Map<string, IDataPoint[]>,
-    graphId: string
-  ): { x: number; y: number; z: number } | null {
-    const dataPoints = dataPointMap.get(graphId);
-    if (!dataPoints || dataPoints.length === 0) return null;
-    const { x, y, z } = dataPoints[0];
-    if (
-      typeof x === "number" &&
-      typeof y === "number" &&
-      typeof z === "number" &&
-      isFinite(x) &&
-      isFinite(y) &&
-      isFinite(z)
-    ) {
-      return { x, y, z };
+    if (persistence) {
+      return allPoints.slice(0, matchingStepCount);
     }
-    return null;
+    const latest = allPoints[matchingStepCount - 1];
+    return matchingStepCount > 0 && latest ? [latest] : [];
   }
 
   /**
-   * Run semantics function with given variables and extract a 2D point.
-   * @param variables - Variable values to use
-   * @param graphId - Graph ID to match data2d() calls
-   * @returns The {x, y} point or null
+   * Check whether stepping has reached a step() call with the given ID.
    */
-  private computeAndExtract2D(
-    variables: Record<string, IVariable>,
-    graphId: string
-  ): { x: number; y: number } | null {
-    if (!this.semantics || typeof this.semantics !== "function") return null;
-    const result = computeWithManualEngine(variables, this.semantics);
-    return this.extractPoint2D(result.dataPointMap, graphId);
+  hasReachedStep(stepId: string): boolean {
+    if (!this.stepping) return false;
+    return this.steps
+      .slice(0, this.currentStepIndex + 1)
+      .some((step) => step.id === stepId);
   }
 
-  /**
-   * Run semantics function with given variables and extract a 3D point.
-   * @param variables - Variable values to use
-   * @param graphId - Graph ID to match data3d() calls
-   * @returns The {x, y, z} point or null
-   */
-  private computeAndExtract3D(
-    variables: Record<string, IVariable>,
-    graphId: string
-  ): { x: number; y: number; z: number } | null {
-    if (!this.semantics || typeof this.semantics !== "function") return null;
-    const result = computeWithManualEngine(variables, this.semantics);
-    return this.extractPoint3D(result.dataPointMap, graphId);
-  }
+  // ============= Graph Data Collection =============
 
   /**
-   * Generic helper to sample the semantic function across a parameter range.
-   * Varies a single parameter across its range and collects points using the provided extractor.
-   *
-   * @param parameter - The variable to vary during sampling
-   * @param range - The range to sample [min, max]
-   * @param samples - Number of samples
-   * @param graphId - Graph ID to match data calls
-   * @param extractor - Function to extract point from variables (computeAndExtract2D or computeAndExtract3D)
-   * @returns Array of extracted points
+   * Run a sampling function with an error collector and record its errors,
+   * along with the variables its samples read.
+   * @param key - Sampling key, e.g. "line2d:curve" (graphs of different kinds may share an ID)
+   * @param graphId - The graph being sampled
+   * @param sample - Runs the sampling, reporting errors and reads to the given handlers
    */
-  private sampleWithParameter<T>(
-    parameter: string,
-    range: [number, number],
-    samples: number,
+  private withSamplingErrors<T>(
+    key: string,
     graphId: string,
-    extractor: (
-      variables: Record<string, IVariable>,
-      graphId: string
-    ) => T | null
-  ): T[] {
-    const [min, max] = range;
-    const step = (max - min) / samples;
-    const points: T[] = [];
-    const baseVariables = this.getVariablesSnapshot();
-    for (let i = 0; i <= samples; i++) {
-      const paramValue = min + i * step;
-      baseVariables[parameter] = {
-        ...baseVariables[parameter],
-        value: paramValue,
-      };
-      const point = extractor(baseVariables, graphId);
-      if (point) points.push(point);
-    }
-    return points;
+    sample: (
+      onError: ISamplingErrorHandler,
+      onDependencies: ISamplingDependencyHandler
+    ) => T
+  ): T {
+    const collector = createSamplingErrorCollector(graphId);
+    const dependencies = new Set<string>();
+    const result = sample(collector.report, (variableIds) =>
+      variableIds.forEach((varId) => dependencies.add(varId))
+    );
+    this.setSamplingErrors(key, collector.errors());
+    this.addSampledDependencies(graphId, dependencies);
+    return result;
   }
 
   /**
@@ -1299,8 +2076,22 @@ class ComputationStore {
    * @param graphId - Graph ID to match data2d() calls
    * @returns The current {x, y} point or null
    */
-  sample2DPoint(graphId: string): { x: number; y: number } | null {
-    return this.computeAndExtract2D(this.getVariablesSnapshot(), graphId);
+  sample2DPoint(graphId: string): IPoint2D | null {
+    const semantics = this.semantics;
+    if (!semantics || typeof semantics !== "function") return null;
+    return this.withSamplingErrors(
+      `point2d:${graphId}`,
+      graphId,
+      (onError, onDependencies) =>
+        computePoint(
+          this.getVariablesSnapshot(),
+          semantics,
+          graphId,
+          extractPoint2D,
+          onError,
+          onDependencies
+        )
+    );
   }
 
   /**
@@ -1310,17 +2101,32 @@ class ComputationStore {
    * @param graphId - Graph ID to match graph() calls
    * @returns The current {x, y, z} point or null
    */
-  sample3DPoint(graphId: string): { x: number; y: number; z: number } | null {
-    return this.computeAndExtract3D(this.getVariablesSnapshot(), graphId);
+  sample3DPoint(graphId: string): IPoint3D | null {
+    const semantics = this.semantics;
+    if (!semantics || typeof semantics !== "function") return null;
+    return this.withSamplingErrors(
+      `point3d:${graphId}`,
+      graphId,
+      (onError, onDependencies) =>
+        computePoint(
+          this.getVariablesSnapshot(),
+          semantics,
+          graphId,
+          extractPoint3D,
+          onError,
+          onDependencies
+        )
+    );
   }
 
   /**
    * Sample the semantic function across a parameter range to collect 2D line data.
    * Reads x, y values from the dataPoints (from explicit data2d() calls).
+   * The line is split with break points at discontinuities (see isLineBreak).
    *
    * @param parameter - The variable to vary during sampling
    * @param range - The range to sample [min, max]
-   * @param samples - Number of samples (default 100)
+   * @param samples - Number of uniform samples before adaptive refinement (default 100)
    * @param graphId - Graph ID to match data2d() calls
    * @returns Array of {x, y} points
    */
@@ -1329,23 +2135,35 @@ class ComputationStore {
     range: [number, number],
     samples: number = 100,
     graphId: string
-  ): { x: number; y: number }[] {
-    return this.sampleWithParameter(
-      parameter,
-      range,
-      samples,
+  ): IPoint2D[] {
+    const semantics = this.semantics;
+    if (!semantics || typeof semantics !== "function") return [];
+    return this.withSamplingErrors(
+      `line2d:${graphId}`,
       graphId,
-      this.computeAndExtract2D.bind(this)
+      (onError, onDependencies) =>
+        sampleLine(
+          this.getVariablesSnapshot(),
+          semantics,
+          parameter,
+          range,
+          samples,
+          graphId,
+          extractPoint2D,
+          onError,
+          onDependencies
+        )
     );
   }
 
   /**
    * Sample the semantic function across a parameter range to collect 3D line data.
    * Reads x, y, z values from the dataPoints (from explicit data3d() calls).
+   * The line is split with break points at discontinuities (see isLineBreak).
    *
    * @param parameter - The variable to vary during sampling
    * @param range - The range to sample [min, max]
-   * @param samples - Number of samples (default 100)
+   * @param samples - Number of uniform samples before adaptive refinement (default 100)
    * @param graphId - Graph ID to match graph() calls
    * @returns Array of {x, y, z} points
    */
@@ -1354,13 +2172,24 @@ class ComputationStore {
     range: [number, number],
     samples: number = 100,
     graphId: string
-  ): { x: number; y: number; z: number }[] {
-    return this.sampleWithParameter(
-      parameter,
-      range,
-      samples,
+  ): IPoint3D[] {
+    const semantics = this.semantics;
+    if (!semantics || typeof semantics !== "function") return [];
+    return this.withSamplingErrors(
+      `line3d:${graphId}`,
       graphId,
-      this.computeAndExtract3D.bind(this)
+      (onError, onDependencies) =>
+        sampleLine(
+          this.getVariablesSnapshot(),
+          semantics,
+          parameter,
+          range,
+          samples,
+          graphId,
+          extractPoint3D,
+          onError,
+          onDependencies
+        )
     );
   }
 
@@ -1379,24 +2208,245 @@ class ComputationStore {
     ranges: [[number, number], [number, number]],
     samples: number = 50,
     graphId: string
-  ): { x: number; y: number; z: number }[] {
-    const [param1, param2] = parameters;
-    const [[min1, max1], [min2, max2]] = ranges;
-    const step1 = (max1 - min1) / samples;
-    const step2 = (max2 - min2) / samples;
-    const points: { x: number; y: number; z: number }[] = [];
-    const baseVariables = this.getVariablesSnapshot();
-    for (let i = 0; i <= samples; i++) {
-      const value1 = min1 + i * step1;
-      for (let j = 0; j <= samples; j++) {
-        const value2 = min2 + j * step2;
-        baseVariables[param1] = { ...baseVariables[param1], value: value1 };
-        baseVariables[param2] = { ...baseVariables[param2], value: value2 };
-        const point = this.computeAndExtract3D(baseVariables, graphId);
-        if (point) points.push(point);
+  ): IPoint3D[] {
+    const semantics = this.semantics;
+    if (!semantics || typeof semantics !== "function") return [];
+    return this.withSamplingErrors(
+      `surface:${graphId}`,
+      graphId,
+      (onError, onDependencies) =>
+        sampleSurfaceGrid(
+          this.getVariablesSnapshot(),
+          semantics,
+          parameters,
+          ranges,
+          samples,
+          graphId,
+          onError,
+          onDependencies
+        )
+    );
+  }
+
+  /**
+   * Sample the semantic function at the cell centers of a 2D parameter grid
+   * to collect the arrows of a vector or slope field.
+   * Reads x, y, dx, dy values from the dataPoints (from explicit data2d() calls).
+   *
+   * @param parameters - The two variables to vary during sampling [param1, param2]
+   * @param ranges - The ranges for each parameter [[min1, max1], [min2, max2]]
+   * @param density - Number of grid cells per dimension (default 15)
+   * @param graphId - Graph ID to match data2d() calls
+   * @returns Array of {x, y, dx, dy} vectors
+   */
+  sample2DField(
+    parameters: [string, string],
+    ranges: [[number, number], [number, number]],
+    density: number = 15,
+    graphId: string
+  ): IFieldVector[] {
+    const semantics = this.semantics;
+    if (!semantics || typeof semantics !== "function") return [];
+    return this.withSamplingErrors(
+      `field:${graphId}`,
+      graphId,
+      (onError, onDependencies) =>
+        sampleFieldGrid(
+          this.getVariablesSnapshot(),
+          semantics,
+          parameters,
+          ranges,
+          density,
+          graphId,
+          onError,
+          onDependencies
+        )
+    );
+  }
+
+  /**
+   * Sample a scalar at the vertices of a 2D parameter grid, e.g. to trace the
+   * level sets of an implicit curve.
+   * Reads x, y, value values from the dataPoints (from explicit data2d() calls).
+   *
+   * @param parameters - The two variables to vary during sampling [param1, param2]
+   * @param ranges - The ranges for each parameter [[min1, max1], [min2, max2]]
+   * @param samples - Number of grid cells per dimension (default 50)
+   * @param graphId - Graph ID to match data2d() calls
+   * @returns (samples + 1)^2 {x, y, value} samples, NaN where none was collected
+   */
+  sample2DScalarGrid(
+    parameters: [string, string],
+    ranges: [[number, number], [number, number]],
+    samples: number = 50,
+    graphId: string
+  ): IScalarSample[] {
+    const semantics = this.semantics;
+    if (!semantics || typeof semantics !== "function") return [];
+    return this.withSamplingErrors(
+      `implicit:${graphId}`,
+      graphId,
+      (onError, onDependencies) =>
+        sampleScalarGrid(
+          this.getVariablesSnapshot(),
+          semantics,
+          parameters,
+          ranges,
+          samples,
+          graphId,
+          onError,
+          onDependencies
+        )
+    );
+  }
+
+  // ============= Worker-backed Sampling =============
+
+  /**
+   * Enable or disable worker-backed sampling.
+   * Disabling terminates the worker; it is recreated lazily when re-enabled.
+   */
+  @action
+  setWorkerSampling(enabled: boolean): void {
+    this.workerSampling = enabled;
+    if (!enabled && this.samplingClient) {
+      this.samplingClient.terminate();
+      this.samplingClient = null;
+    }
+  }
+
+  /**
+   * Async counterpart of sample2DLine. Runs in the sampling worker when
+   * worker sampling is enabled, otherwise on the main thread.
+   * Resolves to null when a newer request for the same graph superseded this one.
+   */
+  sample2DLineAsync(
+    parameter: string,
+    range: [number, number],
+    samples: number = 100,
+    graphId: string
+  ): Promise<IPoint2D[] | null> {
+    return this.runSampling(
+      `line2d:${graphId}`,
+      { kind: "line2d", parameter, range, samples, graphId },
+      () => this.sample2DLine(parameter, range, samples, graphId)
+    ) as Promise<IPoint2D[] | null>;
+  }
+
+  /**
+   * Async counterpart of sample3DLine. See sample2DLineAsync.
+   */
+  sample3DLineAsync(
+    parameter: string,
+    range: [number, number],
+    samples: number = 100,
+    graphId: string
+  ): Promise<IPoint3D[] | null> {
+    return this.runSampling(
+      `line3d:${graphId}`,
+      { kind: "line3d", parameter, range, samples, graphId },
+      () => this.sample3DLine(parameter, range, samples, graphId)
+    ) as Promise<IPoint3D[] | null>;
+  }
+
+  /**
+   * Async counterpart of sampleSurface. See sample2DLineAsync.
+   */
+  sampleSurfaceAsync(
+    parameters: [string, string],
+    ranges: [[number, number], [number, number]],
+    samples: number = 50,
+    graphId: string
+  ): Promise<IPoint3D[] | null> {
+    return this.runSampling(
+      `surface:${graphId}`,
+      { kind: "surface", parameters, ranges, samples, graphId },
+      () => this.sampleSurface(parameters, ranges, samples, graphId)
+    ) as Promise<IPoint3D[] | null>;
+  }
+
+  /**
+   * Async counterpart of sample2DField. See sample2DLineAsync.
+   */
+  sample2DFieldAsync(
+    parameters: [string, string],
+    ranges: [[number, number], [number, number]],
+    density: number = 15,
+    graphId: string
+  ): Promise<IFieldVector[] | null> {
+    return this.runSampling(
+      `field:${graphId}`,
+      { kind: "field", parameters, ranges, samples: density, graphId },
+      () => this.sample2DField(parameters, ranges, density, graphId)
+    ) as Promise<IFieldVector[] | null>;
+  }
+
+  /**
+   * Async counterpart of sample2DScalarGrid. See sample2DLineAsync.
+   */
+  sample2DScalarGridAsync(
+    parameters: [string, string],
+    ranges: [[number, number], [number, number]],
+    samples: number = 50,
+    graphId: string
+  ): Promise<IScalarSample[] | null> {
+    return this.runSampling(
+      `implicit:${graphId}`,
+      { kind: "implicit", parameters, ranges, samples, graphId },
+      () => this.sample2DScalarGrid(parameters, ranges, samples, graphId)
+    ) as Promise<IScalarSample[] | null>;
+  }
+
+  /**
+   * Dispatch a sampling request to the worker, or run it synchronously.
+   * A request the worker cannot run (e.g. the semantics references variables
+   * outside its own body) is reported as a sampling error under
+   * `worker:<key>` and sampled on the main thread instead.
+   */
+  private async runSampling(
+    key: string,
+    request: ISamplingJob,
+    sampleSync: () => IPoint2D[] | IPoint3D[] | IFieldVector[] | IScalarSample[]
+  ): Promise<
+    IPoint2D[] | IPoint3D[] | IFieldVector[] | IScalarSample[] | null
+  > {
+    if (!this.workerSampling || !this.semantics) {
+      return sampleSync();
+    }
+    if (!this.samplingClient) {
+      this.samplingClient = new SamplingClient();
+    }
+    // Full definitions, so data types, sets and matrices sample as they do
+    // here; only SVG generator functions cannot be posted
+    const variables: Record<string, IVariable> = {};
+    for (const [varName, variable] of this.variables.entries()) {
+      const definition = toJS(variable);
+      if (typeof definition.svgContent === "function") {
+        delete definition.svgContent;
       }
+      variables[varName] = definition;
+    }
+    const workerKey = `worker:${key}`;
+    try {
+      const result = await this.samplingClient.request(key, {
+        ...request,
+        semantics: this.semantics.toString(),
+        variables,
+      } as ISamplingPayload);
+      if (!result) return null;
+      this.setSamplingErrors(workerKey, []);
+      this.setSamplingErrors(key, result.errors);
+      this.addSampledDependencies(request.graphId, result.dependencies);
+      return result.points;
+    } catch (error) {
+      this.setSamplingErrors(workerKey, [
+        {
+          ...createSemanticsError(error, variables, -1),
+          graphId: request.graphId,
+        },
+      ]);
+      return sampleSync();
     }
-    return points;
   }
 
   // Get resolved variables as a plain object for external use
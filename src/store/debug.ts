@@ -5,6 +5,7 @@ import * as prettierEstree from "prettier/plugins/estree";
 import * as prettier from "prettier/standalone";
 
 import { IVariableUserInput } from "../types/variable";
+import { ComputationStore } from "./computation";
 
 /**
  * Format code using Prettier.
@@ -310,6 +311,17 @@ class DebugStore {
     return null;
   }
 
+  // ==================== Step Source Highlight ====================
+  // Store whose steps the open step viewer shows; the code editor highlights
+  // the source line of its current step and jumps to steps from their lines
+  @observable.ref
+  accessor stepViewerStore: ComputationStore | null = null;
+
+  @action
+  setStepViewerStore(store: ComputationStore | null) {
+    this.stepViewerStore = store;
+  }
+
   // ==================== Debug Visualization Settings ====================
   @observable
   accessor showFormulaBorders: boolean = false;
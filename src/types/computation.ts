@@ -1,9 +1,15 @@
 import { IData2DFn, IData3DFn } from "./graph";
+import { IValue } from "./variable";
 
 /**
  * Step function type for step-through debugging.
+ * `step.group(label, fn)` nests the steps collected while running fn under a
+ * collapsible group, which step over / step out can skip as a whole.
  */
-export type IStepFn = (config: any, blockId?: string) => void;
+export interface IStepFn {
+  (config: any, blockId?: string): void;
+  group: (label: string, fn: () => void) => void;
+}
 
 /**
  * Context object passed to semantics functions.
@@ -26,3 +32,35 @@ export interface ISemanticsContext {
  * Users can destructure only what they need: ({ vars, data2d }) => { ... }
  */
 export type ISemantics = (ctx: ISemanticsContext) => void;
+
+/**
+ * Structured error raised while running a semantics function.
+ * @property name - The error class name (e.g. "TypeError")
+ * @property message - The error message
+ * @property stack - The stack trace, if available
+ * @property variables - Variable values at the moment the error was thrown
+ * @property stepIndex - Index of the last step() call reached before the error (-1 if none)
+ * @property graphId - Graph ID being sampled, for errors thrown during plot sampling
+ * @property count - Number of occurrences (sampling errors are de-duplicated by message)
+ */
+export interface ISemanticsError {
+  name: string;
+  message: string;
+  stack?: string;
+  variables: Record<string, IValue>;
+  stepIndex: number;
+  graphId?: string;
+  count: number;
+}
+
+/**
+ * Warning for an assignment formula whose sides have different dimensions.
+ * @property formulaId - The IFormula ID of the assignment
+ * @property variable - The variable being assigned
+ * @property message - Describes the mismatch
+ */
+export interface IUnitWarning {
+  formulaId: string;
+  variable: string;
+  message: string;
+}
@@ -7,10 +7,12 @@ import { IVisualization } from "./visualization";
 export interface IEnvironment {
   formulas: IFormula[];
   variables: IVariablesUserInput;
-  semantics?: ISemantics;
+  semantics?: ISemantics; // Omit to evaluate assignment formulas (e.g. "K = \frac{1}{2}mv^2") directly
   visualizations?: IVisualization[];
   controls?: IControls[];
   stepping?: boolean; // Enable step mode for step-through debugging of semantics function
+  trace?: boolean; // With stepping, collect a step for every assignment to vars and loop iteration (semantics must be a self-contained function)
+  worker?: boolean; // Sample plots in a Web Worker (semantics must be a self-contained function)
   fontSize?: number; // Font size multiplier (0.5 to 3.0) - will be formatted as "Xem" (default: 2)
   labelFontSize?: number; // Font size multiplier for labels (0.5 to 3.0) - will be formatted as "Xem"
   labelNodeStyle?: React.CSSProperties; // Custom CSS styles for label nodes
@@ -0,0 +1,40 @@
+import { ISemanticsError } from "./computation";
+import { ICollectedStep } from "./step";
+import { IValue } from "./variable";
+
+/**
+ * Events of a Formulize instance and the callbacks they are delivered to.
+ * @property change - A variable's value changed, by input or computation
+ * @property step - The current step changed in step mode
+ * @property hover - A variable or formula was hovered or left
+ * @property dragstart - A variable started being dragged
+ * @property dragend - A variable stopped being dragged
+ * @property error - The semantics function threw while computing or sampling
+ */
+export interface IInstanceEvents {
+  change: (varId: string, value: IValue | undefined) => void;
+  step: (step: ICollectedStep | undefined, index: number) => void;
+  hover: (id: string, isHovered: boolean, kind: "variable" | "formula") => void;
+  dragstart: (varId: string) => void;
+  dragend: (varId: string) => void;
+  error: (error: ISemanticsError) => void;
+}
+
+export type IInstanceEvent = keyof IInstanceEvents;
+
+/**
+ * Subscribe to an instance event. `change` can be limited to one variable
+ * by passing its ID before the callback.
+ * @returns A function that unsubscribes the callback
+ */
+export interface IInstanceOn {
+  (
+    event: "change",
+    varId: string,
+    callback: IInstanceEvents["change"]
+  ): () => void;
+  <E extends IInstanceEvent>(
+    event: E,
+    callback: IInstanceEvents[E]
+  ): () => void;
+}
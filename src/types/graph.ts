@@ -12,10 +12,16 @@ export type IDataPoint = Record<string, number>;
  * 2D coordinate values for data2d() calls.
  * @property {number} x - X coordinate value
  * @property {number} y - Y coordinate value
+ * @property {number} dx - Optional x component of the arrow at (x, y), for field graphs
+ * @property {number} dy - Optional y component of the arrow at (x, y), for field graphs
+ * @property {number} value - Optional scalar at (x, y) whose level sets implicit graphs draw
  */
 export interface IData2D {
   x: number;
   y: number;
+  dx?: number;
+  dy?: number;
+  value?: number;
 }
 
 /**
@@ -45,7 +51,7 @@ export interface IData {
 /**
  * Function to store 2D data points for visualization.
  * @param id - Unique identifier for the graph/visualization
- * @param values - Explicit coordinate values {x, y}
+ * @param values - Explicit coordinate values {x, y}, plus {dx, dy} for field graphs or {value} for implicit graphs
  * @example data2d("curve", {x: vars.x, y: vars.y})
  */
 export type IData2DFn = (id: string, values: IData2D) => void;
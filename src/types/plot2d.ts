@@ -17,6 +17,16 @@ export interface IVector {
   labelFontSize?: number;
 }
 
+/**
+ * Drag interaction of a 2D plot element:
+ * - ["horizontal-drag" | "vertical-drag", variableName] drags along one axis, setting one variable
+ * - ["xy-drag", xVariableName, yVariableName] drags freely, setting both variables at once.
+ *   Dragged values snap to each variable's step and are clamped to its range, where these are defined.
+ */
+export type I2DInteraction =
+  | ["horizontal-drag" | "vertical-drag", string]
+  | ["xy-drag", string, string];
+
 /**
  * Base configuration for graph-based 2D visualizations.
  * Uses explicit data2d() calls in manual functions to collect coordinates.
@@ -36,7 +46,7 @@ interface I2DConfigBase {
  * @property: type - The type of object to graph
  * @property: parameter - The variable to vary during sampling (1 parameter for lines)
  * @property: range - Optional range to sample over the parameter (defaults to the variable's range)
- * @property: samples - Number of samples (default 100)
+ * @property: samples - Number of uniform samples (default 100), refined adaptively where the line bends or jumps
  * @property: color - Line color
  * @property: lineWidth - Line width
  * @property: interaction - Drag interaction: ["horizontal-drag" | "vertical-drag", variableName]
@@ -51,6 +61,22 @@ export interface I2DLine extends I2DConfigBase {
   interaction?: ["horizontal-drag" | "vertical-drag", string];
 }
 
+/**
+ * Motion trail of a point graph: the point's recent positions, drawn as a line that fades towards
+ * the oldest position. Trails are cleared with the plot's clear trails button and when the plot's
+ * config reloads. Points with a stepId have no trail.
+ * @property length - Number of positions to keep (default 50 when no duration is set)
+ * @property duration - Seconds to keep positions for
+ * @property color - Trail color (defaults to the point's color)
+ * @property lineWidth - Trail line width
+ */
+export interface IPointTrail {
+  length?: number;
+  duration?: number;
+  color?: string;
+  lineWidth?: number;
+}
+
 /**
  * Point graph: shows the current point without sampling (0 parameters).
  * The manual function must call data2d(id, {x, y}) to provide coordinates.
@@ -58,24 +84,181 @@ export interface I2DLine extends I2DConfigBase {
  * @property color - Marker color
  * @property size - Marker size
  * @property showLabel - Whether to show label
- * @property interaction - Drag interaction: ["horizontal-drag" | "vertical-drag", variableName]
+ * @property interaction - Drag interaction (see I2DInteraction), e.g. ["xy-drag", xVariableName, yVariableName]
  * @property stepId - Optional step ID that controls when this point appears during stepping.
  *                    When set, the point only appears after the step() call with matching id has been reached.
  * @property persistence - Controls point visibility during stepping (default: true):
  *                         true = point stays visible after its step (accumulate)
  *                         false = point only visible at that exact step
+ * @property trail - Optional motion trail of the point's recent positions (see IPointTrail)
  */
 export interface I2DPoint extends I2DConfigBase {
   type: "point";
   color?: string;
   size?: number;
   showLabel?: boolean;
-  interaction?: ["horizontal-drag" | "vertical-drag", string];
+  interaction?: I2DInteraction;
   stepId?: string;
   persistence?: boolean;
+  trail?: IPointTrail;
+}
+
+/**
+ * Area graph: shades the region under a line graph, or between two line graphs.
+ * The area is built from the lines' samples, so it follows them reactively.
+ * @property: type - The type of object to graph
+ * @property: lines - IDs of line graphs in the same plot: [line] shades between the line and y = 0,
+ *                    [line1, line2] shades between the two lines
+ * @property: bounds - Optional x bounds [from, to] of the shaded region (defaults to the lines' extent).
+ *                     Each bound is a number or a variable name, so dragging the variable moves the bound.
+ * @property: color - Fill color
+ * @property: opacity - Fill opacity (0-1, default 0.3)
+ */
+export interface I2DArea extends I2DConfigBase {
+  type: "area";
+  lines: [string] | [string, string];
+  bounds?: [number | string, number | string];
+  color?: string;
+  opacity?: number;
+}
+
+/**
+ * Field graph: arrows on a grid, for vector fields and slope fields.
+ * The two parameters are varied over a grid, and for each grid point the manual function must call
+ * data2d(id, {x, y, dx, dy}) with the arrow's position and direction. Arrows are centered on (x, y).
+ * Line graphs in the same plot are drawn on top, e.g. to overlay a trajectory.
+ * @property: type - The type of object to graph
+ * @property: parameters - The variables to vary over the grid [x parameter, y parameter]
+ * @property: ranges - Optional ranges of the grid (defaults to the variables' ranges)
+ * @property: density - Number of arrows along each axis (default 15)
+ * @property: scale - Arrow length per unit of (dx, dy), in plot units (defaults to fitting the longest
+ *                    arrow into a grid cell). With normalize, a multiplier of the common arrow length.
+ * @property: normalize - Draw all arrows with the same length, showing only directions as in slope fields (default false)
+ * @property: arrowheads - Whether to draw arrowheads (default true; slope fields usually omit them)
+ * @property: color - Arrow color
+ * @property: lineWidth - Arrow line width
+ */
+export interface I2DField extends I2DConfigBase {
+  type: "field";
+  parameters: [string, string];
+  ranges?: [[number, number], [number, number]];
+  density?: number;
+  scale?: number;
+  normalize?: boolean;
+  arrowheads?: boolean;
+  color?: string;
+  lineWidth?: number;
+}
+
+/**
+ * Implicit graph: curves where a scalar takes given values, for relations like x^2 + y^2 = r^2
+ * or the contour lines of a loss.
+ * The two parameters are varied over a grid, and for each grid point the manual function must call
+ * data2d(id, {x, y, value}). The curves are traced through the grid with marching squares.
+ * @property: type - The type of object to graph
+ * @property: parameters - The variables to vary over the grid [x parameter, y parameter]
+ * @property: ranges - Optional ranges of the grid (defaults to the variables' ranges)
+ * @property: samples - Number of grid cells along each axis (default 50)
+ * @property: levels - Values of the scalar to draw curves at (default [0], the zero level set)
+ * @property: color - Curve color, or one color per level
+ * @property: lineWidth - Curve line width
+ */
+export interface I2DImplicit extends I2DConfigBase {
+  type: "implicit";
+  parameters: [string, string];
+  ranges?: [[number, number], [number, number]];
+  samples?: number;
+  levels?: number[];
+  color?: string | string[];
+  lineWidth?: number;
 }
 
-export type I2DConfig = I2DLine | I2DPoint;
+export type I2DConfig = I2DLine | I2DPoint | I2DArea | I2DField | I2DImplicit;
+
+/**
+ * Text annotation: a callout anchored to a point of the plot.
+ * @property type - The type of annotation
+ * @property x - X coordinate: a number, or a variable name so the callout moves with the variable
+ * @property y - Y coordinate: a number or a variable name
+ * @property text - The text, or LaTeX when latex is set
+ * @property latex - Whether to render the text with MathJax (default false)
+ * @property anchor - Which part of the text is placed at (x, y) (default "middle")
+ * @property offsetX - Horizontal offset from (x, y) in pixels
+ * @property offsetY - Vertical offset from (x, y) in pixels, downwards
+ * @property color - Text color
+ * @property fontSize - Font size in pixels
+ */
+export interface I2DTextAnnotation {
+  type: "text";
+  x: number | string;
+  y: number | string;
+  text: string;
+  latex?: boolean;
+  anchor?: "start" | "middle" | "end";
+  offsetX?: number;
+  offsetY?: number;
+  color?: string;
+  fontSize?: number;
+}
+
+/**
+ * Reference line across the plot: "vline" is a vertical line at x = value, "hline" a horizontal line at y = value.
+ * @property type - The type of annotation
+ * @property value - The line's coordinate: a number, or a variable name so the line moves with the variable
+ * @property label - Optional text shown at the end of the line
+ * @property color - Line color
+ * @property lineWidth - Line width
+ * @property dashed - Whether to draw a dashed line (default true)
+ */
+export interface I2DReferenceLine {
+  type: "vline" | "hline";
+  value: number | string;
+  label?: string;
+  color?: string;
+  lineWidth?: number;
+  dashed?: boolean;
+}
+
+/**
+ * Shaded band across the plot: "vband" shades x between from and to, "hband" shades y between them.
+ * @property type - The type of annotation
+ * @property from - Start of the band: a number or a variable name
+ * @property to - End of the band: a number or a variable name
+ * @property label - Optional text shown at the top (vband) or right (hband) of the band
+ * @property color - Fill color
+ * @property opacity - Fill opacity (0-1, default 0.15)
+ */
+export interface I2DBand {
+  type: "vband" | "hband";
+  from: number | string;
+  to: number | string;
+  label?: string;
+  color?: string;
+  opacity?: number;
+}
+
+/**
+ * Annotation anchored to the data coordinates of a 2D plot.
+ * Annotations are drawn below graphs and clipped to the plot area.
+ */
+export type I2DAnnotation = I2DTextAnnotation | I2DReferenceLine | I2DBand;
+
+/**
+ * Scale of a Plot2D axis.
+ * "linear" = evenly spaced values (default)
+ * "log" = logarithmic; needs a positive range, so range ends at or below zero are clamped
+ * "symlog" = logarithmic away from zero and linear around it, so negative values can be shown
+ */
+export type I2DAxisScale = "linear" | "log" | "symlog";
+
+/**
+ * Format of the tick labels of a Plot2D axis.
+ * "decimal" = plain numbers (default)
+ * "pi" = multiples of π such as π/2 and 3π/2; ticks are placed at multiples of π unless an interval is set
+ * "fraction" = fractions such as 1/3
+ * "scientific" = scientific notation such as 2.5 × 10³
+ */
+export type I2DTickFormat = "decimal" | "pi" | "fraction" | "scientific";
 
 /**
  * Plot2D visualization configuration.
@@ -88,19 +271,29 @@ export type I2DConfig = I2DLine | I2DPoint;
  * @property xAxisInterval - The interval of the x-axis.
  * @property xAxisPos - The position of the x-axis. "center" = x-axis at y=0, "edge" = x-axis at bottom
  * @property xGrid - The grid visibility for the x-axis.
+ * @property xScale - The scale of the x-axis (see I2DAxisScale, default "linear").
+ * @property xTickFormat - The format of the x-axis tick labels (see I2DTickFormat, default "decimal").
+ * @property xTickUnit - A LaTeX unit appended to the x-axis tick labels, e.g. "\\text{m}".
+ *                       Tick labels with a format other than "decimal" or with a unit are rendered with MathJax.
  * @property yAxisLabel - The label for the y-axis (cosmetic only, does not affect graphing).
  * @property yAxisVar - The variable to bind to y-axis for hover highlighting (optional)
  * @property yRange - The range of the y-axis.
  * @property yAxisInterval - The interval of the y-axis.
  * @property yAxisPos - The position of the y-axis.
  * @property yGrid - The grid visibility for the y-axis.
+ * @property yScale - The scale of the y-axis (see I2DAxisScale, default "linear").
+ * @property yTickFormat - The format of the y-axis tick labels (see I2DTickFormat, default "decimal").
+ * @property yTickUnit - A LaTeX unit appended to the y-axis tick labels.
+ * @property autoRange - Axes whose range is fitted to the sampled graph data instead of xRange/yRange.
+ *                       The view can still be panned (drag on empty space), zoomed (mouse wheel) and reset.
  * @property vectors - The vectors for the plot.
+ * @property annotations - Text callouts, reference lines and bands anchored to data coordinates (see I2DAnnotation).
  * @property graphs - Graph-based visualizations using data collected by data2d() calls.
  *                    Points with stepId will only appear during stepping when that step is reached.
  * @property width - The width of the plot.
  * @property height - The height of the plot.
  * @property tickFontSize - The font size of the ticks.
- * @property interaction - The interaction of the plot.
+ * @property interaction - The interaction of the plot (see I2DInteraction).
  */
 export interface IPlot2D {
   type: "plot2d";
@@ -113,6 +306,9 @@ export interface IPlot2D {
   xAxisPos?: "center" | "edge";
   xLabelPos?: "center" | "right"; // Position of x-axis label along the axis line
   xGrid?: "show" | "hide"; // Grid visibility for x-axis, default is "show"
+  xScale?: I2DAxisScale;
+  xTickFormat?: I2DTickFormat;
+  xTickUnit?: string;
   yAxisLabel?: string;
   yAxisVar?: string;
   yRange?: [number, number];
@@ -120,10 +316,15 @@ export interface IPlot2D {
   yAxisPos?: "center" | "edge"; // "center" = y-axis at x=0, "edge" = y-axis at left
   yLabelPos?: "center" | "top"; // Position of y-axis label along the axis line
   yGrid?: "show" | "hide"; // Grid visibility for y-axis, default is "show"
+  yScale?: I2DAxisScale;
+  yTickFormat?: I2DTickFormat;
+  yTickUnit?: string;
+  autoRange?: "x" | "y" | "both";
   vectors?: IVector[];
+  annotations?: I2DAnnotation[];
   graphs?: I2DConfig[];
   width?: number | string;
   height?: number | string;
   tickFontSize?: number;
-  interaction?: ["horizontal-drag" | "vertical-drag", string];
+  interaction?: I2DInteraction;
 }
@@ -1,3 +1,5 @@
+import { IPointTrail } from "./plot2d";
+
 export interface IPlot3D {
   type: "plot3d";
   id?: string;
@@ -35,19 +37,27 @@ interface IGraphBase {
 /**
  * Line graph: samples over 1 parameter to create a 3D line
  * @property: type - The type of object to graph
- * @property: parameter - The variable to vary during sampling (1 parameter for lines)
+ * @property: parameter - The variable to vary during sampling (1 parameter for lines). Required unless stepId is set.
  * @property: range - Optional range to sample over the parameter (defaults to the variable's range)
- * @property: samples - Number of samples (default 100)
+ * @property: samples - Number of uniform samples (default 100), refined adaptively where the line bends or jumps
  * @property: color - Line color
  * @property: width - Line width
+ * @property: stepId - Optional step ID that turns the line into a path growing during stepping.
+ *                     Instead of sampling, the line connects the data3d() points collected up to the
+ *                     current step, one point per step() call with matching id (e.g. a descent path).
+ * @property: persistence - Controls path visibility during stepping (default: true):
+ *                          true = path keeps the points of earlier steps
+ *                          false = only the latest step's point is shown
  */
 export interface I3DLine extends IGraphBase {
   type: "line";
-  parameter: string;
+  parameter?: string;
   range?: [number, number];
   samples?: number;
   color?: string;
   width?: number;
+  stepId?: string;
+  persistence?: boolean;
 }
 
 /**
@@ -59,6 +69,8 @@ export interface I3DLine extends IGraphBase {
  * @property: color - Surface color or colorscale
  * @property: opacity - Surface opacity (0-1)
  * @property: showColorbar - Whether to show colorbar
+ * @property: stepId - Optional step ID; the surface only appears during stepping once the step() call
+ *                     with matching id has been reached
  */
 export interface I3DSurface extends IGraphBase {
   type: "surface";
@@ -68,6 +80,7 @@ export interface I3DSurface extends IGraphBase {
   color?: string | string[];
   opacity?: number;
   showColorbar?: boolean;
+  stepId?: string;
 }
 
 /**
@@ -75,11 +88,20 @@ export interface I3DSurface extends IGraphBase {
  * @property: type - The type of object to graph
  * @property: color - Marker color
  * @property: size - Marker size
+ * @property: stepId - Optional step ID that controls when points appear during stepping.
+ *                     When set, a point appears for each step() call with matching id that has been reached.
+ * @property: persistence - Controls point visibility during stepping (default: true):
+ *                          true = points stay visible after their step (accumulate)
+ *                          false = only the latest step's point is shown
+ * @property: trail - Optional motion trail of the point's recent positions (see IPointTrail)
  */
 export interface I3DPoint extends IGraphBase {
   type: "point";
   color?: string;
   size?: number;
+  stepId?: string;
+  persistence?: boolean;
+  trail?: IPointTrail;
 }
 
 export type IGraph = I3DLine | I3DSurface | I3DPoint;
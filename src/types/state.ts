@@ -0,0 +1,44 @@
+import { IValue } from "./variable";
+
+/**
+ * Plotly scene camera of a 3D plot
+ * @property eye - Position of the camera
+ * @property center - Point the camera looks at
+ * @property up - Up direction of the camera
+ */
+export interface ICamera3D {
+  eye: { x: number; y: number; z: number };
+  center: { x: number; y: number; z: number };
+  up: { x: number; y: number; z: number };
+}
+
+/**
+ * View of a plot changed by the user
+ * @property camera - Camera of a 3D plot
+ * @property xRange - Visible x range of a panned or zoomed 2D plot
+ * @property yRange - Visible y range of a panned or zoomed 2D plot
+ */
+export interface IPlotView {
+  camera?: ICamera3D;
+  xRange?: [number, number];
+  yRange?: [number, number];
+}
+
+/**
+ * Serializable snapshot of an instance's interactive state, produced by
+ * `Instance.getState()` and accepted by `Instance.setState()`.
+ * Fields are left out when they hold their default.
+ * @property values - Values of the input variables, keyed by variable ID
+ * @property step - Index of the current step in step mode
+ * @property hovered - ID of the hovered formula
+ * @property pinned - IDs of the pinned formulas
+ * @property views - Plot views, keyed by visualization ID: the camera of 3D
+ *   plots and the visible ranges of panned or zoomed 2D plots
+ */
+export interface IState {
+  values?: Record<string, IValue>;
+  step?: number;
+  hovered?: string;
+  pinned?: string[];
+  views?: Record<string, IPlotView>;
+}
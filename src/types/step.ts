@@ -5,11 +5,15 @@ import { IValue } from "./variable";
  * @property description - The description text to display
  * @property values - Array of [varId, value] tuples mapping LaTeX variable IDs to runtime values
  * @property expression - Optional expression scope for bounding box highlighting
+ * @property duration - Optional time in milliseconds autoplay shows the step for
+ * @property line - Optional line in the semantics source the step comes from (detected from the step() call when omitted)
  */
 export interface IView {
   description: string;
   values?: Array<[string, IValue]>;
   expression?: string;
+  duration?: number;
+  line?: number;
 }
 
 /**
@@ -38,6 +42,9 @@ export interface IStep {
  * @property values - Array of [varId, value] tuples mapping variable IDs to runtime values
  * @property expression - Optional expression scope for bounding box highlighting
  * @property formulas - Optional per-formula views for multi-formula steps
+ * @property duration - Optional time in milliseconds autoplay shows the step for
+ * @property parent - Index of the innermost step group containing the step, if any
+ * @property line - Line in the semantics source the step comes from, when known
  */
 export interface ICollectedStep {
   index: number;
@@ -46,5 +53,25 @@ export interface ICollectedStep {
   values?: Array<[string, IValue]>;
   expression?: string;
   formulas?: Record<string, IView>;
+  duration?: number;
+  parent?: number;
+  line?: number;
+}
+
+/**
+ * A group of consecutive steps collected by a step.group() call, e.g. one
+ * loop iteration. Groups can nest; groups without steps are left out.
+ * @property index - Position in the list of groups (groups are ordered by start)
+ * @property label - The label shown for the group
+ * @property parent - Index of the enclosing group, if nested
+ * @property start - Index of the first step in the group
+ * @property end - Index after the last step in the group
+ */
+export interface IStepGroup {
+  index: number;
+  label: string;
+  parent?: number;
+  start: number;
+  end: number;
 }
 
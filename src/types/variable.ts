@@ -8,7 +8,7 @@ export const INPUT_VARIABLE_DEFAULT = {
   PRECISION: 2 as number, // Default precision (decimal places)
 };
 
-export type IValue = number | (string | number)[];
+export type IValue = number | (string | number)[] | number[][];
 
 /**
  * The input type for a variable.
@@ -18,11 +18,22 @@ export type IValue = number | (string | number)[];
  */
 export type IInput = "drag" | "inline";
 
+/**
+ * Links an element variable (e.g. A_{12}) to its vector or matrix variable.
+ * @property parent - The vector or matrix variable ID
+ * @property index - Zero-based index of the element, e.g. [0, 1]
+ */
+export interface IElementOf {
+  parent: string;
+  index: number[];
+}
+
 export interface IVariable {
   value?: IValue;
   dataType?: "scalar" | "vector" | "matrix" | "set";
   dimensions?: number[];
-  units?: string;
+  units?: string; // Units the default, range and step are given in, e.g. "m/s^2" (values are stored in SI)
+  displayUnits?: string; // Units the value is shown in (must match the dimension of units)
   name?: string;
   precision?: number;
   description?: string;
@@ -39,6 +50,8 @@ export interface IVariable {
   defaultCSS?: string;
   hoverCSS?: string;
   input?: IInput;
+  solveFor?: string; // Input adjusted when this computed variable is dragged (default: first input it depends on)
+  element?: IElementOf; // Set on the generated element variables of vectors and matrices
 }
 
 /**
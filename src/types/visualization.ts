@@ -3,3 +3,13 @@ import { IPlot2D } from "./plot2d";
 import { IPlot3D } from "./plot3d";
 
 export type IVisualization = IPlot2D | IPlot3D | ICustom;
+
+export type IImageFormat = "svg" | "png";
+
+/**
+ * Imperative handle of the Plot2D and Plot3D components
+ * @property exportImage - Download the plot in its current state as an image
+ */
+export interface IPlotHandle {
+  exportImage: (format: IImageFormat) => Promise<void>;
+}
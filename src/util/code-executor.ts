@@ -1,3 +1,4 @@
+import { compileFunction } from "../engine/source";
 import { Config } from "../formulize";
 
 // Global variable to track and cancel previous executions
@@ -23,8 +24,8 @@ export async function executeUserCode(
     return JSON.parse(JSON.stringify(config), (key, value) => {
       if (value && typeof value === "object" && value.__isFunction) {
         try {
-          // Reconstruct function from string
-          return new Function("return " + value.__functionString)();
+          // Reconstruct function from string, keeping source lines for steps
+          return compileFunction(value.__functionString);
         } catch (e) {
           console.warn("Failed to deserialize function for key:", key, e);
           return value.__functionString; // fallback to string
@@ -139,4 +139,73 @@ export const variableHighlightField = StateField.define<DecorationSet>({
 });
 
 // Extension for variable highlighting
-export const variableHighlightExtension = [variableHighlightField];
\ No newline at end of file
+export const variableHighlightExtension = [variableHighlightField];
+
+// ==================== Step Line Gutter ====================
+
+// Create effect for setting the lines (0-based) that collected steps
+export const setStepLines = StateEffect.define<number[]>();
+
+// State field holding the lines that collected steps
+export const stepLinesField = StateField.define<Set<number>>({
+  create() {
+    return new Set();
+  },
+  update(lines, tr) {
+    for (const effect of tr.effects) {
+      if (effect.is(setStepLines)) {
+        lines = new Set(effect.value);
+      }
+    }
+    return lines;
+  },
+});
+
+// Dot gutter marker class for lines that collected steps
+class StepLineGutterMarker extends GutterMarker {
+  toDOM() {
+    const marker = document.createElement("div");
+    marker.style.cssText = `
+      width: 6px;
+      height: 6px;
+      border-radius: 50%;
+      background-color: #93c5fd;
+      margin: 6px 3px 0;
+      cursor: pointer;
+    `;
+    marker.title = "Go to step";
+    return marker;
+  }
+}
+
+const stepLineMarker = new StepLineGutterMarker();
+
+/**
+ * Create a gutter marking the lines that collected steps.
+ * Clicking a marked line calls onClick with its 0-based line number.
+ */
+export const createStepLineGutter = (onClick: (line: number) => void) => [
+  stepLinesField,
+  gutter({
+    class: "cm-step-gutter",
+    markers: (view) => {
+      const lines = view.state.field(stepLinesField);
+      const gutterMarkers = [];
+      for (const line of Array.from(lines).sort((a, b) => a - b)) {
+        if (line >= view.state.doc.lines) continue;
+        const lineStart = view.state.doc.line(line + 1).from; // Convert 0-based to 1-based line number
+        gutterMarkers.push(stepLineMarker.range(lineStart));
+      }
+      return RangeSet.of(gutterMarkers);
+    },
+    domEventHandlers: {
+      mousedown: (view, block) => {
+        const line = view.state.doc.lineAt(block.from).number - 1;
+        if (!view.state.field(stepLinesField).has(line)) return false;
+        onClick(line);
+        return true;
+      },
+    },
+    initialSpacer: () => stepLineMarker,
+  }),
+];
@@ -1,4 +1,5 @@
 import { findVariableByElement } from "./parse/variable";
+import { isSetValue } from "../engine/matrix";
 import { ComputationStore } from "../store/computation";
 import { getVariable } from "./computation-helpers";
 import { VAR_SELECTORS } from "../internal/css-classes";
@@ -28,14 +29,14 @@ export const dropdownHandler = (
     let availableOptions: (string | number)[] = [];
     let isKeyVariable = false;
 
-    if (Array.isArray(variable.value)) {
+    if (isSetValue(variable.value)) {
       availableOptions = variable.value;
     } else if (variable.options) {
       availableOptions = variable.options;
     } else if (variable.key) {
       // For variables with a key, show options from the key variable's value array
       const keyVar = getVariable(variable.key, computationStore);
-      if (keyVar && Array.isArray(keyVar.value)) {
+      if (keyVar && isSetValue(keyVar.value)) {
         availableOptions = keyVar.value;
         isKeyVariable = true;
       }
@@ -0,0 +1,124 @@
+/**
+ * Image export helpers for visualizations.
+ * Everything runs in the browser without network access: LaTeX is typeset
+ * with the bundled mathjax-full into self-contained SVG paths, and PNGs are
+ * rasterized from SVG on a canvas.
+ */
+
+// Ratio of MathJax's ex unit to the font size (TeX fonts)
+const EX_PER_EM = 0.431;
+
+type LatexConverter = (latex: string) => string;
+
+// Created on the first export, as mathjax-full is large
+let latexConverter: Promise<LatexConverter> | null = null;
+
+function loadLatexConverter(): Promise<LatexConverter> {
+  latexConverter ??= Promise.all([
+    import("mathjax-full/js/mathjax.js"),
+    import("mathjax-full/js/input/tex.js"),
+    import("mathjax-full/js/input/tex/AllPackages.js"),
+    import("mathjax-full/js/output/svg.js"),
+    import("mathjax-full/js/adaptors/liteAdaptor.js"),
+    import("mathjax-full/js/handlers/html.js"),
+  ]).then(
+    ([
+      { mathjax },
+      { TeX },
+      { AllPackages },
+      { SVG },
+      { liteAdaptor },
+      { RegisterHTMLHandler },
+    ]) => {
+      const adaptor = liteAdaptor();
+      RegisterHTMLHandler(adaptor);
+      // Without a font cache, glyphs are inlined as paths instead of
+      // referencing definitions shared across the page
+      const document = mathjax.document("", {
+        InputJax: new TeX({ packages: AllPackages }),
+        OutputJax: new SVG({ fontCache: "none" }),
+      });
+      return (latex: string) =>
+        adaptor.innerHTML(document.convert(latex, { display: false }));
+    }
+  );
+  return latexConverter;
+}
+
+/**
+ * Typeset LaTeX as a standalone SVG element.
+ * @param latex - The LaTeX source
+ * @param fontSize - Font size in pixels, which sets the size of the SVG
+ * @param color - Text color (default black)
+ * @returns The SVG element, sized in pixels
+ */
+export async function latexToSvg(
+  latex: string,
+  fontSize: number,
+  color: string = "#000"
+): Promise<SVGSVGElement> {
+  const convert = await loadLatexConverter();
+  const template = document.createElement("template");
+  template.innerHTML = convert(latex);
+  const svg = template.content.firstElementChild as SVGSVGElement;
+  // MathJax sizes its output in ex
+  for (const dimension of ["width", "height"]) {
+    const ex = parseFloat(svg.getAttribute(dimension) ?? "0");
+    svg.setAttribute(dimension, `${ex * EX_PER_EM * fontSize}`);
+  }
+  // Glyphs are drawn in currentColor
+  svg.removeAttribute("style");
+  svg.setAttribute("color", color);
+  return svg;
+}
+
+/**
+ * Rasterize an SVG document as a PNG.
+ * @param svgText - The serialized SVG, which must not reference external resources
+ * @param width - Width of the SVG in pixels
+ * @param height - Height of the SVG in pixels
+ * @param scale - Pixel ratio of the PNG (default 2, for sharp slides and prints)
+ */
+export function svgToPng(
+  svgText: string,
+  width: number,
+  height: number,
+  scale: number = 2
+): Promise<Blob> {
+  const url = URL.createObjectURL(
+    new Blob([svgText], { type: "image/svg+xml;charset=utf-8" })
+  );
+  return new Promise<Blob>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.ceil(width * scale);
+      canvas.height = Math.ceil(height * scale);
+      const context = canvas.getContext("2d");
+      if (!context) {
+        reject(new Error("Canvas 2D context is not available"));
+        return;
+      }
+      context.scale(scale, scale);
+      context.drawImage(image, 0, 0, width, height);
+      canvas.toBlob((blob) =>
+        blob ? resolve(blob) : reject(new Error("PNG encoding failed"))
+      );
+    };
+    image.onerror = () => reject(new Error("SVG could not be rasterized"));
+    image.src = url;
+  }).finally(() => URL.revokeObjectURL(url));
+}
+
+/**
+ * Save a file through the browser's download.
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Give the download time to start before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,123 @@
+import { comparer, observe, reaction, toJS } from "mobx";
+
+import { toArrayValue } from "../engine/matrix";
+import { ComputationStore } from "../store/computation";
+import { IInstanceEvent, IInstanceEvents } from "../types/events";
+import { IValue } from "../types/variable";
+
+const readValue = (
+  store: ComputationStore,
+  varId: string
+): IValue | undefined =>
+  toArrayValue(toJS(store.variables.get(varId)?.value)) as IValue | undefined;
+
+// Notify about value changes of one variable, or of all variables
+function subscribeToChanges(
+  store: ComputationStore,
+  varId: string | null,
+  callback: IInstanceEvents["change"]
+): () => void {
+  if (varId !== null) {
+    return reaction(
+      () => readValue(store, varId),
+      (value) => callback(varId, value),
+      { equals: comparer.structural }
+    );
+  }
+  // Values are compared as JSON, as arrays are copied on every read
+  let previous = new Map<string, string>();
+  return reaction(
+    () =>
+      Array.from(store.variables.keys(), (id): [string, IValue | undefined] => [
+        id,
+        readValue(store, id),
+      ]),
+    (entries) => {
+      const current = new Map<string, string>();
+      for (const [id, value] of entries) {
+        const json = JSON.stringify(value);
+        current.set(id, json);
+        if (previous.has(id) && previous.get(id) !== json) {
+          callback(id, value);
+        }
+      }
+      previous = current;
+    },
+    { fireImmediately: true }
+  );
+}
+
+/**
+ * Subscribe to an event of the instance backed by a computation store.
+ * Used by `Instance.on`; see IInstanceOn for the supported events.
+ *
+ * @param store - The instance's computation store
+ * @param event - The event name
+ * @param varIdOrCallback - For `change`, optionally the variable to watch
+ * @param callback - The callback, when a variable ID was given
+ * @returns A function that unsubscribes the callback
+ */
+export function subscribe(
+  store: ComputationStore,
+  event: IInstanceEvent,
+  varIdOrCallback: string | IInstanceEvents[IInstanceEvent],
+  callback?: IInstanceEvents[IInstanceEvent]
+): () => void {
+  const varId = typeof varIdOrCallback === "string" ? varIdOrCallback : null;
+  const handler =
+    typeof varIdOrCallback === "string" ? callback : varIdOrCallback;
+  if (!handler) {
+    throw new Error(`No callback given for "${event}" event`);
+  }
+  switch (event) {
+    case "change":
+      return subscribeToChanges(
+        store,
+        varId,
+        handler as IInstanceEvents["change"]
+      );
+    case "step": {
+      const onStep = handler as IInstanceEvents["step"];
+      return reaction(
+        () => ({
+          index: store.currentStepIndex,
+          step: toJS(store.currentStep),
+        }),
+        ({ index, step }) => onStep(step, index),
+        { equals: comparer.structural }
+      );
+    }
+    case "hover": {
+      const onHover = handler as IInstanceEvents["hover"];
+      const disposeVariables = observe(store.hoverStates, (change) => {
+        const isHovered = change.type !== "delete" && change.newValue;
+        const wasHovered = change.type !== "add" && change.oldValue;
+        if (isHovered !== wasHovered) {
+          onHover(change.name, isHovered, "variable");
+        }
+      });
+      const disposeFormulas = observe(store.formulaHoverStates, (change) => {
+        const isHovered = change.type !== "delete" && change.newValue;
+        const wasHovered = change.type !== "add" && change.oldValue;
+        if (isHovered !== wasHovered) {
+          onHover(change.name, isHovered, "formula");
+        }
+      });
+      return () => {
+        disposeVariables();
+        disposeFormulas();
+      };
+    }
+    case "dragstart":
+    case "dragend": {
+      const onDrag = handler as IInstanceEvents["dragstart"];
+      return observe(store.dragStates, (change) => {
+        if (change.type === (event === "dragstart" ? "add" : "delete")) {
+          onDrag(change.name);
+        }
+      });
+    }
+    case "error":
+      return store.onSemanticsError(handler as IInstanceEvents["error"]);
+  }
+}
@@ -8,9 +8,13 @@
  * - Full IVariable (internal): used as-is
  *
  * Note: User-facing API uses "default" property, which is converted to internal "value" property
+ * Values, ranges and steps are converted from the declared units to SI, in which they are stored
  */
+import { createElementVariables, isMatrixVariable } from "../engine/matrix";
+import { toSIVariable } from "../engine/units";
 import {
   INPUT_VARIABLE_DEFAULT,
+  IValue,
   IVariable,
   IVariableUserInput,
   IVariablesUserInput,
@@ -44,13 +48,27 @@ export function normalizeVariable(
     ...rest,
     value: defaultValue,
   };
-  return applySmartDefaults(normalized);
+  return toSIVariable(applySmartDefaults(normalized));
 }
 
+// Zero vector or matrix for interactive vectors and matrices without a default
+const createZeros = ([rows = 0, columns]: number[]): IValue =>
+  columns === undefined
+    ? Array(rows).fill(0)
+    : Array.from({ length: rows }, () => Array(columns).fill(0));
+
 /**
  * Apply smart defaults to a variable based on its input type
  */
 function applySmartDefaults(normalized: IVariable): IVariable {
+  // Vectors and matrices render as a bmatrix of their elements
+  if (isMatrixVariable(normalized)) {
+    normalized.latexDisplay = normalized.latexDisplay ?? "value";
+    if (normalized.value === undefined && normalized.input) {
+      normalized.value = createZeros(normalized.dimensions ?? []);
+    }
+    return normalized;
+  }
   // Apply smart defaults based on input type
   if (normalized.input === "drag") {
     // Set default value if not provided (only for scalar inputs, not sets)
@@ -90,5 +108,16 @@ export function normalizeVariables(
   for (const [varId, input] of Object.entries(variables)) {
     normalized[varId] = normalizeVariable(input);
   }
+  // Vectors and matrices get one scalar variable per element; elements the
+  // config lists explicitly (e.g. "A_{12}": { labelDisplay: "value" }) keep
+  // their settings
+  for (const [varId, variable] of Object.entries(normalized)) {
+    if (isMatrixVariable(variable)) {
+      Object.assign(
+        normalized,
+        createElementVariables(varId, variable, normalized)
+      );
+    }
+  }
   return normalized;
 }
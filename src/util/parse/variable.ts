@@ -1,6 +1,13 @@
+import {
+  getElementValue,
+  getMatrixElements,
+  getMatrixShape,
+  isMatrixVariable,
+} from "../../engine/matrix";
+import { getDisplayQuantity } from "../../engine/units";
 import { VAR_CLASSES } from "../../internal/css-classes";
 import { ComputationStore } from "../../store/computation";
-import { INPUT_VARIABLE_DEFAULT } from "../../types/variable";
+import { INPUT_VARIABLE_DEFAULT, IVariable } from "../../types/variable";
 import { injectDefaultCSS, injectHoverCSS } from "./custom-css";
 import {
   Accent,
@@ -142,7 +149,11 @@ const renderNestedVariable = (
   // Get the value from the computation store
   const variable = computationStore.variables.get(symbolValue);
   if (variable) {
-    value = typeof variable.value === "number" ? variable.value : undefined;
+    // Shown in the display units, while the store holds SI values
+    value =
+      typeof variable.value === "number"
+        ? getDisplayQuantity(variable.value, variable).value
+        : undefined;
     variablePrecision = variable.precision ?? INPUT_VARIABLE_DEFAULT.PRECISION;
     latexDisplay = variable.latexDisplay ?? "name";
     isDraggable = variable.input === "drag" || variable.input === "inline";
@@ -168,6 +179,42 @@ const renderNestedVariable = (
   return `\\cssId{${symbolValue}}{\\class{${cssClass}}{${symbolValue}}}`;
 };
 
+/**
+ * Render a vector or matrix variable as a bmatrix whose cells are its element
+ * variables, so each cell gets its own variable node (drag, hover, label).
+ * Vectors render as a column. Cells without an element variable (e.g. a
+ * computed matrix without `dimensions`) show the plain value.
+ */
+const renderMatrixVariable = (
+  id: string,
+  variable: IVariable,
+  computationStore: ComputationStore
+): string => {
+  const rows: string[][] = [];
+  for (const { id: elementId, index } of getMatrixElements(id, variable)) {
+    const element = computationStore.variables.get(elementId);
+    const value = getElementValue(variable.value, index);
+    const precision = element?.precision ?? INPUT_VARIABLE_DEFAULT.PRECISION;
+    const text =
+      value !== undefined
+        ? getDisplayQuantity(value, element ?? variable).value.toFixed(
+            precision
+          )
+        : elementId;
+    let cell = text;
+    if (element) {
+      const cssClass =
+        element.input === "drag" ? VAR_CLASSES.INPUT : VAR_CLASSES.BASE;
+      const body = element.latexDisplay === "name" ? elementId : text;
+      cell = `\\cssId{${elementId}}{\\class{${cssClass}}{${body}}}`;
+    }
+    if (!rows[index[0]]) rows[index[0]] = [];
+    rows[index[0]].push(cell);
+  }
+  const body = rows.map((row) => row.join(" & ")).join(" \\\\ ");
+  return `\\cssId{${id}}{\\begin{bmatrix} ${body} \\end{bmatrix}}`;
+};
+
 /**
  * Process children of a node recursively using the provided processor function
  * This is the shared switch statement for all node types
@@ -401,6 +448,22 @@ export const processVariables = (
       const variableNode = node as Variable;
       const originalSymbol = variableNode.originalSymbol;
 
+      // Vectors and matrices show their elements unless displayed by name
+      const matrixVariable = computationStore.variables.get(originalSymbol);
+      if (
+        matrixVariable &&
+        isMatrixVariable(matrixVariable) &&
+        matrixVariable.latexDisplay === "value" &&
+        getMatrixShape(matrixVariable).length > 0
+      ) {
+        node.cssId = originalSymbol;
+        return renderMatrixVariable(
+          originalSymbol,
+          matrixVariable,
+          computationStore
+        );
+      }
+
       // Get the value, type, and precision from the computation store
       let value: number | undefined = undefined;
       let isDraggable = false;
@@ -413,8 +476,11 @@ export const processVariables = (
 
       for (const [symbol, variable] of computationStore.variables.entries()) {
         if (symbol === originalSymbol) {
+          // Shown (and substituted into CSS) in the display units
           value =
-            typeof variable.value === "number" ? variable.value : undefined;
+            typeof variable.value === "number"
+              ? getDisplayQuantity(variable.value, variable).value
+              : undefined;
           isDraggable = variable.input === "drag";
           // Use the variable's precision if defined, otherwise use default
           variablePrecision =
@@ -0,0 +1,115 @@
+import { useEffect } from "react";
+
+import { reaction } from "mobx";
+
+import { Instance } from "../formulize";
+import { IState } from "../types/state";
+
+// URL parameter holding the encoded state
+const STATE_PARAM = "state";
+
+// Wait for a drag to settle before rewriting the URL
+const SYNC_DELAY_MS = 300;
+
+export type UrlStateLocation = "query" | "hash";
+
+/**
+ * Encode a state snapshot as URL-safe base64 JSON.
+ */
+export function encodeState(state: IState): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(state));
+  const binary = Array.from(bytes, (byte) => String.fromCharCode(byte)).join(
+    ""
+  );
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+/**
+ * Decode a state snapshot from encodeState.
+ * @returns The state, or null if the text is not a valid encoded state
+ */
+export function decodeState(encoded: string): IState | null {
+  try {
+    const binary = atob(encoded.replace(/-/g, "+").replace(/_/g, "/"));
+    const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+    const state = JSON.parse(new TextDecoder().decode(bytes));
+    return state && typeof state === "object" && !Array.isArray(state)
+      ? (state as IState)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+const getParams = (location: UrlStateLocation): URLSearchParams =>
+  new URLSearchParams(
+    location === "query"
+      ? window.location.search
+      : window.location.hash.replace(/^#/, "")
+  );
+
+/**
+ * Read the state from the page URL, if it has one.
+ */
+export function readUrlState(location: UrlStateLocation): IState | null {
+  const encoded = getParams(location).get(STATE_PARAM);
+  return encoded ? decodeState(encoded) : null;
+}
+
+/**
+ * Write the state to the page URL without adding a history entry.
+ * Empty states remove the parameter.
+ */
+export function writeUrlState(state: IState, location: UrlStateLocation) {
+  const params = getParams(location);
+  if (Object.keys(state).length > 0) {
+    params.set(STATE_PARAM, encodeState(state));
+  } else {
+    params.delete(STATE_PARAM);
+  }
+  const query = params.toString();
+  const url = new URL(window.location.href);
+  if (location === "query") {
+    url.search = query;
+  } else {
+    url.hash = query;
+  }
+  window.history.replaceState(window.history.state, "", url);
+}
+
+/**
+ * Keep an instance's state in the page URL while enabled: the state in the
+ * URL is applied when the instance is created, and later changes are
+ * written back so the URL can be shared as a permalink.
+ */
+export const useUrlStateSync = (
+  instance: Instance | null | undefined,
+  enabled: boolean,
+  location: UrlStateLocation = "query"
+) => {
+  useEffect(() => {
+    if (!instance || !enabled) return;
+    const initial = readUrlState(location);
+    if (initial) {
+      instance.setState(initial);
+    }
+    let timeout: ReturnType<typeof setTimeout> | null = null;
+    const disposer = reaction(
+      () => JSON.stringify(instance.getState()),
+      () => {
+        if (timeout) clearTimeout(timeout);
+        timeout = setTimeout(() => {
+          writeUrlState(instance.getState(), location);
+        }, SYNC_DELAY_MS);
+      },
+      { fireImmediately: true }
+    );
+    return () => {
+      disposer();
+      if (timeout) clearTimeout(timeout);
+    };
+  }, [instance, enabled, location]);
+};
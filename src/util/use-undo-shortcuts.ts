@@ -0,0 +1,59 @@
+import { useEffect } from "react";
+
+import { ComputationStore } from "../store/computation";
+
+interface IShortcutListener {
+  count: number;
+  handleKeyDown: (e: KeyboardEvent) => void;
+}
+
+// Components sharing a store share one listener, so a key press undoes once
+const listeners = new WeakMap<ComputationStore, IShortcutListener>();
+
+// Text fields and code editors keep their own undo history
+const isEditable = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable ||
+    target.tagName === "INPUT" ||
+    target.tagName === "TEXTAREA" ||
+    target.tagName === "SELECT");
+
+/**
+ * Bind Ctrl+Z / Cmd+Z to undo and Ctrl+Shift+Z / Cmd+Shift+Z (or Ctrl+Y)
+ * to redo variable changes while the component is mounted.
+ */
+export const useUndoShortcuts = (
+  computationStore: ComputationStore | null | undefined
+) => {
+  useEffect(() => {
+    if (!computationStore) return;
+    let listener = listeners.get(computationStore);
+    if (!listener) {
+      const handleKeyDown = (e: KeyboardEvent) => {
+        if (!(e.ctrlKey || e.metaKey) || e.altKey || isEditable(e.target)) {
+          return;
+        }
+        const key = e.key.toLowerCase();
+        const isUndo = key === "z" && !e.shiftKey;
+        const isRedo = (key === "z" && e.shiftKey) || key === "y";
+        if (!isUndo && !isRedo) return;
+        const handled = isUndo
+          ? computationStore.undo()
+          : computationStore.redo();
+        if (handled) {
+          e.preventDefault();
+        }
+      };
+      listener = { count: 0, handleKeyDown };
+      listeners.set(computationStore, listener);
+      document.addEventListener("keydown", handleKeyDown);
+    }
+    listener.count++;
+    return () => {
+      listener.count--;
+      if (listener.count > 0) return;
+      document.removeEventListener("keydown", listener.handleKeyDown);
+      listeners.delete(computationStore);
+    };
+  }, [computationStore]);
+};
@@ -6,6 +6,8 @@ import { getInputVariableState } from "./parse/variable";
 interface UseVariableDragProps {
   varId: string;
   isDraggable: boolean;
+  // Computed variable that can be dragged by solving for one of its inputs
+  isSolvable?: boolean;
   hasDropdownOptions?: boolean;
   computationStore?: ComputationStore | null;
 }
@@ -13,6 +15,7 @@ interface UseVariableDragProps {
 export const useVariableDrag = ({
   varId,
   isDraggable,
+  isSolvable,
   hasDropdownOptions,
   computationStore,
 }: UseVariableDragProps) => {
@@ -21,12 +24,13 @@ export const useVariableDrag = ({
     const element = nodeRef.current;
     // Early return if computationStore is not available
     if (!computationStore) return;
-    if (!element || !isDraggable || hasDropdownOptions) return;
+    if (!element || !(isDraggable || isSolvable) || hasDropdownOptions) return;
     let isDragging = false;
     let startY = 0;
     const variableState = getInputVariableState(varId, computationStore);
     if (!variableState) return;
-    const { stepSize, minValue, maxValue } = variableState;
+    const { minValue, maxValue } = variableState;
+    let stepSize = variableState.stepSize;
     // Get initial value from computation store
     const currentVariable = computationStore.variables.get(varId);
     const value = currentVariable?.value;
@@ -37,6 +41,11 @@ export const useVariableDrag = ({
       e.stopPropagation();
       const deltaY = startY - e.clientY;
       const newValue = startValue + deltaY * stepSize;
+      if (!isDraggable) {
+        // Computed variables are not clamped; the solved input is instead
+        computationStore.solveValue(varId, newValue);
+        return;
+      }
       computationStore.setValue(
         varId,
         Math.max(minValue, Math.min(maxValue, newValue))
@@ -60,6 +69,10 @@ export const useVariableDrag = ({
       const currentVariable = computationStore.variables.get(varId);
       startValue =
         typeof currentVariable?.value === "number" ? currentVariable.value : 0;
+      // Computed variables rarely have a range, so scale the step to the value
+      if (!isDraggable && !currentVariable?.step && !currentVariable?.range) {
+        stepSize = Math.max(1, Math.abs(startValue)) / 100;
+      }
       // Track which variable is being dragged
       computationStore.setVariableDrag(varId, true);
       e.preventDefault();
@@ -75,7 +88,7 @@ export const useVariableDrag = ({
       document.removeEventListener("mousemove", handleMouseMove, true);
       document.removeEventListener("mouseup", handleMouseUp, true);
     };
-  }, [varId, isDraggable, hasDropdownOptions, computationStore]);
+  }, [varId, isDraggable, isSolvable, hasDropdownOptions, computationStore]);
 
   return nodeRef;
 };
@@ -0,0 +1,28 @@
+import { type IImageFormat } from "../types/visualization";
+import { exportPlot2DImage } from "./plot2d/export";
+import { exportPlot3DImage } from "./plot3d/export";
+
+/**
+ * Exports the plot rendered in an element, for callers that only have the
+ * DOM, such as the canvas context menu. The file is named after the plot ID.
+ *
+ * @param plotElement - A Plot2D (.mn-plot2d) or Plot3D (.mn-plot3d) container
+ * @param format - Image format
+ */
+export function exportVisualizationImage(
+  plotElement: HTMLElement,
+  format: IImageFormat
+): Promise<void> {
+  if (plotElement.classList.contains("mn-plot3d")) {
+    return exportPlot3DImage(
+      plotElement,
+      format,
+      plotElement.dataset.plotId ?? "plot3d"
+    );
+  }
+  return exportPlot2DImage(
+    plotElement,
+    format,
+    plotElement.dataset.plotId ?? "plot2d"
+  );
+}
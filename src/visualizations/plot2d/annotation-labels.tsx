@@ -0,0 +1,47 @@
+import React from "react";
+
+import LatexLabel from "../../internal/latex";
+import { type AnnotationLabelInfo } from "./annotations";
+
+// Shift of a label's box so its anchor sits at the annotation point
+const ANCHOR_TRANSLATE = {
+  start: "translate(0, -50%)",
+  middle: "translate(-50%, -50%)",
+  end: "translate(-100%, -50%)",
+};
+
+interface AnnotationLabelsProps {
+  labels: AnnotationLabelInfo[];
+  // Offset of the plot area in the plot container
+  margin: { left: number; top: number };
+}
+
+/**
+ * Renders the LaTeX text annotations of a plot with MathJax
+ */
+export const AnnotationLabels: React.FC<AnnotationLabelsProps> = ({
+  labels,
+  margin,
+}) => (
+  <>
+    {labels.map((label, index) => (
+      <div
+        key={`annotation-label-${index}`}
+        style={{
+          position: "absolute",
+          left: `${margin.left + label.x}px`,
+          top: `${margin.top + label.y}px`,
+          transform: ANCHOR_TRANSLATE[label.anchor],
+          color: label.color,
+          fontSize: `${label.fontSize}px`,
+          whiteSpace: "nowrap",
+          pointerEvents: "none",
+        }}
+      >
+        <LatexLabel latex={label.latex} fontSize={1} />
+      </div>
+    ))}
+  </>
+);
+
+AnnotationLabels.displayName = "AnnotationLabels";
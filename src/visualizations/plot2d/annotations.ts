@@ -0,0 +1,241 @@
+import * as d3 from "d3";
+
+import { ComputationStore } from "../../store/computation";
+import { type I2DAnnotation } from "../../types/plot2d";
+import { getVariableValue } from "../../util/computation-helpers";
+import { ANNOTATION_DEFAULTS } from "./defaults";
+import { type PlotScale } from "./utils";
+
+// Position of a text annotation rendered with MathJax, relative to the plot area
+export interface AnnotationLabelInfo {
+  latex: string;
+  x: number;
+  y: number;
+  anchor: "start" | "middle" | "end";
+  color: string;
+  fontSize: number;
+}
+
+/**
+ * Resolves an annotation coordinate, which is a number or a variable name
+ */
+function resolveCoordinate(
+  value: number | string,
+  computationStore: ComputationStore
+): number {
+  return typeof value === "string"
+    ? getVariableValue(value, computationStore)
+    : value;
+}
+
+/**
+ * Gets the variables an annotation is anchored to
+ */
+export function getAnnotationVariables(annotation: I2DAnnotation): string[] {
+  const coordinates =
+    annotation.type === "text"
+      ? [annotation.x, annotation.y]
+      : "value" in annotation
+        ? [annotation.value]
+        : [annotation.from, annotation.to];
+  return coordinates.filter(
+    (value): value is string => typeof value === "string"
+  );
+}
+
+/**
+ * Adds the hover behavior of vectors to an annotation: hovering highlights
+ * the annotation and the variables it is anchored to
+ */
+function addAnnotationHover<Element extends SVGElement>(
+  target: d3.Selection<Element, unknown, null, undefined>,
+  highlight: (hovered: boolean) => void,
+  variables: string[],
+  computationStore: ComputationStore
+): void {
+  target
+    .on("mouseenter", () => {
+      highlight(true);
+      variables.forEach((varId) => {
+        computationStore.setVariableHover(varId, true);
+      });
+    })
+    .on("mouseleave", () => {
+      highlight(false);
+      variables.forEach((varId) => {
+        computationStore.setVariableHover(varId, false);
+      });
+    });
+}
+
+/**
+ * Renders the annotations of a plot. Text annotations with LaTeX are left
+ * to React, so their positions are returned instead.
+ *
+ * @param svg - Group to render into, which should be clipped to the plot area
+ * @returns Positions of the LaTeX text annotations inside the plot area
+ */
+export function renderAnnotations(
+  svg: d3.Selection<SVGGElement, unknown, null, undefined>,
+  annotations: I2DAnnotation[],
+  xScale: PlotScale,
+  yScale: PlotScale,
+  plotWidth: number,
+  plotHeight: number,
+  computationStore: ComputationStore
+): AnnotationLabelInfo[] {
+  const latexLabels: AnnotationLabelInfo[] = [];
+  const padding = ANNOTATION_DEFAULTS.labelPadding;
+
+  annotations.forEach((annotation, index) => {
+    const variables = getAnnotationVariables(annotation);
+    const group = svg
+      .append("g")
+      .attr("class", `annotation annotation-${index}`);
+
+    if (annotation.type === "text") {
+      const x =
+        xScale(resolveCoordinate(annotation.x, computationStore)) +
+        (annotation.offsetX ?? 0);
+      const y =
+        yScale(resolveCoordinate(annotation.y, computationStore)) +
+        (annotation.offsetY ?? 0);
+      if (!Number.isFinite(x) || !Number.isFinite(y)) return;
+      const anchor = annotation.anchor ?? ANNOTATION_DEFAULTS.anchor;
+      const color = annotation.color ?? ANNOTATION_DEFAULTS.color;
+      const fontSize = annotation.fontSize ?? ANNOTATION_DEFAULTS.fontSize;
+      if (annotation.latex) {
+        // HTML labels are not clipped, so leave out those outside the plot
+        if (x >= 0 && x <= plotWidth && y >= 0 && y <= plotHeight) {
+          latexLabels.push({
+            latex: annotation.text,
+            x,
+            y,
+            anchor,
+            color,
+            fontSize,
+          });
+        }
+        return;
+      }
+      group
+        .append("text")
+        .attr("x", x)
+        .attr("y", y)
+        .attr("fill", color)
+        .attr("font-size", fontSize)
+        .attr("dominant-baseline", "middle")
+        .attr("text-anchor", anchor)
+        .style("pointer-events", "none")
+        .text(annotation.text);
+      return;
+    }
+
+    const color = annotation.color ?? ANNOTATION_DEFAULTS.color;
+
+    // Reference lines
+    if ("value" in annotation) {
+      const isVertical = annotation.type === "vline";
+      const position = (isVertical ? xScale : yScale)(
+        resolveCoordinate(annotation.value, computationStore)
+      );
+      if (!Number.isFinite(position)) return;
+      const lineWidth = annotation.lineWidth ?? ANNOTATION_DEFAULTS.lineWidth;
+      const dashed = annotation.dashed ?? ANNOTATION_DEFAULTS.dashed;
+      const [x1, x2, y1, y2] = isVertical
+        ? [position, position, 0, plotHeight]
+        : [0, plotWidth, position, position];
+
+      const line = group
+        .append("line")
+        .attr("x1", x1)
+        .attr("x2", x2)
+        .attr("y1", y1)
+        .attr("y2", y2)
+        .attr("stroke", color)
+        .attr("stroke-width", lineWidth)
+        .attr("stroke-dasharray", dashed ? "5,5" : "none")
+        .style("pointer-events", "none");
+
+      // Invisible wider line to hover, as for vectors
+      const hoverLine = group
+        .append("line")
+        .attr("x1", x1)
+        .attr("x2", x2)
+        .attr("y1", y1)
+        .attr("y2", y2)
+        .attr("stroke", "transparent")
+        .attr("stroke-width", Math.max(12, lineWidth * 4));
+      addAnnotationHover(
+        hoverLine,
+        (hovered) =>
+          line
+            .attr("stroke-width", hovered ? lineWidth + 2 : lineWidth)
+            .attr("opacity", hovered ? 0.8 : 1),
+        variables,
+        computationStore
+      );
+
+      if (annotation.label) {
+        // At the top of vertical lines, and the right end of horizontal ones
+        group
+          .append("text")
+          .attr("x", isVertical ? position + padding : plotWidth - padding)
+          .attr("y", isVertical ? padding : position - padding)
+          .attr("fill", color)
+          .attr("font-size", ANNOTATION_DEFAULTS.fontSize)
+          .attr("dominant-baseline", isVertical ? "hanging" : "auto")
+          .attr("text-anchor", isVertical ? "start" : "end")
+          .style("pointer-events", "none")
+          .text(annotation.label);
+      }
+      return;
+    }
+
+    // Bands
+    const isVertical = annotation.type === "vband";
+    const scale = isVertical ? xScale : yScale;
+    const from = scale(resolveCoordinate(annotation.from, computationStore));
+    const to = scale(resolveCoordinate(annotation.to, computationStore));
+    if (!Number.isFinite(from) || !Number.isFinite(to)) return;
+    const start = Math.min(from, to);
+    const size = Math.abs(to - from);
+    const opacity = annotation.opacity ?? ANNOTATION_DEFAULTS.bandOpacity;
+
+    const band = group
+      .append("rect")
+      .attr("x", isVertical ? start : 0)
+      .attr("y", isVertical ? 0 : start)
+      .attr("width", isVertical ? size : plotWidth)
+      .attr("height", isVertical ? plotHeight : size)
+      .attr("fill", color)
+      .attr("fill-opacity", opacity)
+      .attr("stroke", "none");
+    addAnnotationHover(
+      band,
+      (hovered) =>
+        band.attr(
+          "fill-opacity",
+          hovered ? Math.min(1, opacity + 0.1) : opacity
+        ),
+      variables,
+      computationStore
+    );
+
+    if (annotation.label) {
+      // At the top of vertical bands, and the right of horizontal ones
+      group
+        .append("text")
+        .attr("x", isVertical ? start + size / 2 : plotWidth - padding)
+        .attr("y", isVertical ? padding : start + size / 2)
+        .attr("fill", color)
+        .attr("font-size", ANNOTATION_DEFAULTS.fontSize)
+        .attr("dominant-baseline", isVertical ? "hanging" : "middle")
+        .attr("text-anchor", isVertical ? "middle" : "end")
+        .style("pointer-events", "none")
+        .text(annotation.label);
+    }
+  });
+
+  return latexLabels;
+}
@@ -1,8 +1,12 @@
 import * as d3 from "d3";
 
+import { type I2DTickFormat } from "../../types/plot2d";
+import { formatTick, getPiTickInterval, isLatexTickFormat } from "./ticks";
+import { type PlotScale } from "./utils";
+
 export interface AxisConfig {
-  xScale: d3.ScaleLinear<number, number>;
-  yScale: d3.ScaleLinear<number, number>;
+  xScale: PlotScale;
+  yScale: PlotScale;
   plotWidth: number;
   plotHeight: number;
   margin: { top: number; right: number; bottom: number; left: number };
@@ -21,11 +25,24 @@ export interface AxisConfig {
   yLabelPos?: "center" | "top";
   xGrid?: "show" | "hide";
   yGrid?: "show" | "hide";
+  xTickFormat?: I2DTickFormat;
+  yTickFormat?: I2DTickFormat;
+  xTickUnit?: string;
+  yTickUnit?: string;
   // Vector variables for enhanced axis hovering
   allXVariables?: string[];
   allYVariables?: string[];
 }
 
+// Position of a tick label rendered with MathJax, relative to the plot container
+export interface TickLabelInfo {
+  value: number;
+  latex: string;
+  x: number;
+  y: number;
+  fontSize: number;
+}
+
 export interface AxisLabelInfo {
   xLabel?: {
     text: string;
@@ -42,6 +59,62 @@ export interface AxisLabelInfo {
     yAxis?: string;
     allYVariables: string[];
   };
+  xTicks?: TickLabelInfo[];
+  yTicks?: TickLabelInfo[];
+}
+
+// Most interval ticks drawn along an axis before falling back to d3's ticks
+const MAX_INTERVAL_TICKS = 50;
+
+/**
+ * Gets the multiples of an interval that lie within a domain, so ticks stay
+ * on round values while the plot is panned or zoomed.
+ * Returns undefined when there would be too many ticks to draw.
+ */
+function getIntervalTicks(
+  [min, max]: number[],
+  interval: number
+): number[] | undefined {
+  // Tolerance for domain ends that are multiples up to rounding errors
+  const first = Math.ceil(min / interval - 1e-9);
+  const last = Math.floor(max / interval + 1e-9);
+  if (last - first > MAX_INTERVAL_TICKS) return undefined;
+  return d3.range(first, last + 1).map((index) => index * interval);
+}
+
+/**
+ * Gets the tick values of an axis: multiples of its interval, multiples of π
+ * for π tick labels, or undefined for d3's default ticks.
+ */
+function getTickValues(
+  scale: PlotScale,
+  interval: number | undefined,
+  format: I2DTickFormat | undefined
+): number[] | undefined {
+  if (interval !== undefined) return getIntervalTicks(scale.domain(), interval);
+  if (format === "pi") {
+    return getIntervalTicks(scale.domain(), getPiTickInterval(scale.domain()));
+  }
+  return undefined;
+}
+
+/**
+ * Formats the labels of an axis' ticks. Ticks d3 leaves unlabeled, such as
+ * the minor ticks of log scales, are left out.
+ */
+function getTickLabels(
+  scale: PlotScale,
+  tickValues: number[] | undefined,
+  format: I2DTickFormat = "decimal",
+  unit?: string
+) {
+  const decimalFormat = scale.tickFormat();
+  const values =
+    tickValues ?? scale.ticks().filter((value) => decimalFormat(value) !== "");
+  return values.map((value) => ({
+    value,
+    label: formatTick(value, format, decimalFormat, unit),
+  }));
 }
 
 /**
@@ -68,31 +141,45 @@ export function addAxes(
     yAxisPos = "edge",
     xLabelPos = xAxisPos === "center" ? "right" : "center",
     yLabelPos = "center",
+    xTickFormat,
+    yTickFormat,
+    xTickUnit,
+    yTickUnit,
     allXVariables = [],
     allYVariables = [],
   } = config;
 
-  // Calculate axis positions
-  const [yMin, yMax] = yScale.domain();
-  const [xMin, xMax] = xScale.domain();
-
-  // X-axis position: at bottom edge or at y=0
+  // X-axis position: at bottom edge or at y=0 (log scales have no 0)
+  const zeroY = yScale(0);
   const xAxisY =
-    xAxisPos === "center"
-      ? Math.max(0, Math.min(yScale(0), plotHeight)) // Clamp to plot bounds
+    xAxisPos === "center" && Number.isFinite(zeroY)
+      ? Math.max(0, Math.min(zeroY, plotHeight)) // Clamp to plot bounds
       : plotHeight;
 
   // Y-axis position: at left edge or at x=0
+  const zeroX = xScale(0);
   const yAxisX =
-    yAxisPos === "center"
-      ? Math.max(0, Math.min(xScale(0), plotWidth)) // Clamp to plot bounds
+    yAxisPos === "center" && Number.isFinite(zeroX)
+      ? Math.max(0, Math.min(zeroX, plotWidth)) // Clamp to plot bounds
       : 0;
 
   // Create X axis with interval-based ticks if specified
   const xAxisGenerator = d3.axisBottom(xScale).tickSize(0);
-  if (xAxisInterval !== undefined) {
-    const tickValues = d3.range(xMin, xMax + xAxisInterval / 2, xAxisInterval);
-    xAxisGenerator.tickValues(tickValues);
+  const xTickValues = getTickValues(xScale, xAxisInterval, xTickFormat);
+  if (xTickValues) {
+    xAxisGenerator.tickValues(xTickValues);
+  }
+
+  // Formatted tick labels are rendered with MathJax over the axis. The SVG
+  // labels keep their plain text, invisible, to measure the labels' width.
+  const xTickLabels = isLatexTickFormat(xTickFormat, xTickUnit)
+    ? getTickLabels(xScale, xTickValues, xTickFormat, xTickUnit)
+    : undefined;
+  if (xTickLabels) {
+    const texts = new Map(xTickLabels.map((t) => [t.value, t.label.text]));
+    xAxisGenerator
+      .tickValues(xTickLabels.map((t) => t.value))
+      .tickFormat((value) => texts.get(Number(value)) ?? "");
   }
 
   // Add X axis
@@ -109,6 +196,7 @@ export function addAxes(
   xAxisDraw
     .selectAll("text")
     .attr("fill", "#000")
+    .attr("fill-opacity", xTickLabels ? 0 : 1)
     .attr("opacity", 1)
     .attr("font-size", `${tickFontSize}px`);
 
@@ -129,9 +217,20 @@ export function addAxes(
 
   // Create Y axis with interval-based ticks if specified
   const yAxisGenerator = d3.axisLeft(yScale).tickSize(0);
-  if (yAxisInterval !== undefined) {
-    const tickValues = d3.range(yMin, yMax + yAxisInterval / 2, yAxisInterval);
-    yAxisGenerator.tickValues(tickValues);
+  const yTickValues = getTickValues(yScale, yAxisInterval, yTickFormat);
+  if (yTickValues) {
+    yAxisGenerator.tickValues(yTickValues);
+  }
+
+  // Formatted Y tick labels, rendered like the X tick labels
+  const yTickLabels = isLatexTickFormat(yTickFormat, yTickUnit)
+    ? getTickLabels(yScale, yTickValues, yTickFormat, yTickUnit)
+    : undefined;
+  if (yTickLabels) {
+    const texts = new Map(yTickLabels.map((t) => [t.value, t.label.text]));
+    yAxisGenerator
+      .tickValues(yTickLabels.map((t) => t.value))
+      .tickFormat((value) => texts.get(Number(value)) ?? "");
   }
 
   // Add Y axis
@@ -148,6 +247,7 @@ export function addAxes(
   yAxisDraw
     .selectAll("text")
     .attr("fill", "#000")
+    .attr("fill-opacity", yTickLabels ? 0 : 1)
     .attr("opacity", 1)
     .attr("font-size", `${tickFontSize}px`);
 
@@ -179,9 +279,28 @@ export function addAxes(
     };
   }
 
+  // Anchor MathJax tick labels where d3 places the SVG labels: 3px past the
+  // axis line, centered on the tick
+  const xTicks = xTickLabels?.map(({ value, label }) => ({
+    value,
+    latex: label.latex,
+    x: margin.left + xScale(value),
+    y: margin.top + xAxisY + 3,
+    fontSize: tickFontSize,
+  }));
+  const yTicks = yTickLabels?.map(({ value, label }) => ({
+    value,
+    latex: label.latex,
+    x: margin.left + yAxisX - 3,
+    y: margin.top + yScale(value),
+    fontSize: tickFontSize,
+  }));
+
   return {
     xLabel: xLabelInfo,
     yLabel: yLabelInfo,
+    xTicks,
+    yTicks,
   };
 }
 
@@ -201,12 +320,10 @@ export function addGrid(
     yGrid = "show",
     xAxisInterval,
     yAxisInterval,
+    xTickFormat,
+    yTickFormat,
   } = config;
 
-  // Get scale domains
-  const [yMin, yMax] = yScale.domain();
-  const [xMin, xMax] = xScale.domain();
-
   // Add Y grid lines if yGrid is "show"
   if (yGrid === "show") {
     const yGridGenerator = d3
@@ -214,14 +331,9 @@ export function addGrid(
       .tickSize(-plotWidth)
       .tickFormat(() => "");
 
-    // Use same tick values as Y axis if interval is specified
-    if (yAxisInterval !== undefined) {
-      const firstTick = Math.floor(yMin / yAxisInterval) * yAxisInterval;
-      const tickValues = d3.range(
-        firstTick,
-        yMax + yAxisInterval / 2,
-        yAxisInterval
-      );
+    // Use same tick values as Y axis
+    const tickValues = getTickValues(yScale, yAxisInterval, yTickFormat);
+    if (tickValues) {
       yGridGenerator.tickValues(tickValues);
     }
 
@@ -251,14 +363,9 @@ export function addGrid(
       .tickSize(-plotHeight)
       .tickFormat(() => "");
 
-    // Use same tick values as X axis if interval is specified
-    if (xAxisInterval !== undefined) {
-      const firstTick = Math.floor(xMin / xAxisInterval) * xAxisInterval;
-      const tickValues = d3.range(
-        firstTick,
-        xMax + xAxisInterval / 2,
-        xAxisInterval
-      );
+    // Use same tick values as X axis
+    const tickValues = getTickValues(xScale, xAxisInterval, xTickFormat);
+    if (tickValues) {
       xGridGenerator.tickValues(tickValues);
     }
 
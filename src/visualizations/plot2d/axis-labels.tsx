@@ -4,7 +4,29 @@ import { observer } from "mobx-react-lite";
 
 import { useStore } from "../../core/hooks";
 import LatexLabel from "../../internal/latex";
-import { type AxisLabelInfo } from "./axes";
+import { type AxisLabelInfo, type TickLabelInfo } from "./axes";
+
+/**
+ * Renders a tick label with MathJax, anchored where d3 places SVG tick labels
+ */
+const TickLabel: React.FC<{ tick: TickLabelInfo; axis: "x" | "y" }> = ({
+  tick,
+  axis,
+}) => (
+  <div
+    style={{
+      position: "absolute",
+      left: `${tick.x}px`,
+      top: `${tick.y}px`,
+      transform: axis === "x" ? "translate(-50%, 0)" : "translate(-100%, -50%)",
+      fontSize: `${tick.fontSize}px`,
+      whiteSpace: "nowrap",
+      pointerEvents: "none",
+    }}
+  >
+    <LatexLabel latex={tick.latex} fontSize={1} />
+  </div>
+);
 
 interface AxisLabelsProps {
   labelInfo: AxisLabelInfo;
@@ -99,6 +121,12 @@ export const AxisLabels: React.FC<AxisLabelsProps> = observer(
             <LatexLabel latex={labelInfo.yLabel.text} fontSize={fontSize} />
           </div>
         )}
+        {labelInfo.xTicks?.map((tick) => (
+          <TickLabel key={`x-tick-${tick.value}`} tick={tick} axis="x" />
+        ))}
+        {labelInfo.yTicks?.map((tick) => (
+          <TickLabel key={`y-tick-${tick.value}`} tick={tick} axis="y" />
+        ))}
       </>
     );
   }
@@ -0,0 +1,116 @@
+import { type IPoint2D, type IScalarSample } from "../../engine/sampling";
+
+// Line break between the curves of a contour, see isLineBreak
+const CONTOUR_BREAK: IPoint2D = { x: NaN, y: NaN };
+
+/**
+ * Traces the curves where a sampled scalar equals a level, using marching
+ * squares. Crossings are interpolated linearly along the grid edges.
+ * Vertices with a NaN value leave their cells out, so curves end at
+ * undefined regions.
+ *
+ * @param grid - Scalar samples row by row, as from sampleScalarGrid
+ * @param samples - Number of grid cells per dimension
+ * @param level - The scalar value to trace
+ * @returns The curves, separated by line breaks
+ */
+export function traceContour(
+  grid: IScalarSample[],
+  samples: number,
+  level: number
+): IPoint2D[] {
+  const size = samples + 1;
+  if (grid.length !== size * size) return [];
+  const vertex = (i: number, j: number) => grid[i * size + j];
+
+  // Crossing points keyed by grid edge: "x" edges run along param1 from
+  // vertex (i, j), "y" edges along param2
+  const crossings = new Map<string, IPoint2D>();
+  const getCrossing = (key: string, a: IScalarSample, b: IScalarSample) => {
+    let crossing = crossings.get(key);
+    if (!crossing) {
+      const t = (level - a.value) / (b.value - a.value);
+      crossing = { x: a.x + t * (b.x - a.x), y: a.y + t * (b.y - a.y) };
+      crossings.set(key, crossing);
+    }
+    return crossing;
+  };
+
+  // Segments between crossed edges, and the segments at each edge
+  const segments: Array<[string, string]> = [];
+  const edgeSegments = new Map<string, number[]>();
+  const addSegment = (from: string, to: string) => {
+    for (const key of [from, to]) {
+      edgeSegments.set(key, [
+        ...(edgeSegments.get(key) ?? []),
+        segments.length,
+      ]);
+    }
+    segments.push([from, to]);
+  };
+
+  for (let i = 0; i < samples; i++) {
+    for (let j = 0; j < samples; j++) {
+      const corners = [
+        vertex(i, j),
+        vertex(i + 1, j),
+        vertex(i + 1, j + 1),
+        vertex(i, j + 1),
+      ];
+      if (corners.some((corner) => Number.isNaN(corner.value))) continue;
+      const above = corners.map((corner) => corner.value >= level);
+      // Cell edges in order around the cell, each between two corners
+      const edges: Array<[string, number, number]> = [
+        [`x:${i}:${j}`, 0, 1],
+        [`y:${i + 1}:${j}`, 1, 2],
+        [`x:${i}:${j + 1}`, 3, 2],
+        [`y:${i}:${j}`, 0, 3],
+      ];
+      const crossed = edges
+        .filter(([, a, b]) => above[a] !== above[b])
+        .map(([key, a, b]) => {
+          getCrossing(key, corners[a], corners[b]);
+          return key;
+        });
+      if (crossed.length === 2) {
+        addSegment(crossed[0], crossed[1]);
+      } else if (crossed.length === 4) {
+        // Saddle: the center value decides which opposite corners connect
+        const center =
+          corners.reduce((sum, corner) => sum + corner.value, 0) / 4;
+        if (center >= level === above[0]) {
+          addSegment(crossed[0], crossed[1]);
+          addSegment(crossed[2], crossed[3]);
+        } else {
+          addSegment(crossed[0], crossed[3]);
+          addSegment(crossed[1], crossed[2]);
+        }
+      }
+    }
+  }
+
+  // Join the segments into curves through their shared edges
+  const used = new Array<boolean>(segments.length).fill(false);
+  const extend = (curve: string[]) => {
+    for (;;) {
+      const last = curve[curve.length - 1];
+      const next = edgeSegments.get(last)?.find((index) => !used[index]);
+      if (next === undefined) return;
+      used[next] = true;
+      const [from, to] = segments[next];
+      curve.push(from === last ? to : from);
+    }
+  };
+  const points: IPoint2D[] = [];
+  segments.forEach((segment, index) => {
+    if (used[index]) return;
+    used[index] = true;
+    const curve = [...segment];
+    extend(curve);
+    curve.reverse();
+    extend(curve);
+    if (points.length > 0) points.push(CONTOUR_BREAK);
+    points.push(...curve.map((key) => crossings.get(key) as IPoint2D));
+  });
+  return points;
+}
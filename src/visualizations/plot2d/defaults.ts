@@ -23,3 +23,29 @@ export const VECTOR_DEFAULTS = {
   labelColor: undefined, // Will inherit vector color
   labelFontSize: 12,
 } as const;
+
+export const FIELD_DEFAULTS = {
+  density: 15,
+  color: "#64748b",
+  lineWidth: 1.5,
+  markerSize: 4,
+  // Length of the longest (or every normalized) arrow, in grid cells
+  cellFraction: 0.8,
+} as const;
+
+export const IMPLICIT_DEFAULTS = {
+  samples: 50,
+  color: "#8b5cf6",
+  lineWidth: 2,
+} as const;
+
+export const ANNOTATION_DEFAULTS = {
+  color: "#475569",
+  lineWidth: 1.5,
+  dashed: true,
+  bandOpacity: 0.15,
+  fontSize: 12,
+  anchor: "middle" as const,
+  // Distance of line and band labels from the plot edge, in pixels
+  labelPadding: 4,
+} as const;
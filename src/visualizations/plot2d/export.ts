@@ -0,0 +1,130 @@
+import { type IImageFormat } from "../../types/visualization";
+import { downloadBlob, latexToSvg, svgToPng } from "../../util/image-export";
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+
+// Computed styles copied onto exported elements, so the image looks the same
+// without the page's stylesheets
+const INLINED_STYLES = [
+  "fill",
+  "fill-opacity",
+  "stroke",
+  "stroke-width",
+  "stroke-opacity",
+  "stroke-dasharray",
+  "opacity",
+  "visibility",
+  "font-family",
+  "font-size",
+  "font-weight",
+];
+
+/**
+ * Copies the computed styles of an element tree onto its clone
+ */
+function inlineStyles(source: Element, clone: Element): void {
+  const computed = window.getComputedStyle(source);
+  const style = INLINED_STYLES.map(
+    (property) => `${property}:${computed.getPropertyValue(property)}`
+  ).join(";");
+  clone.setAttribute("style", style);
+  Array.from(source.children).forEach((child, i) => {
+    if (clone.children[i]) inlineStyles(child, clone.children[i]);
+  });
+}
+
+/**
+ * Gets the rotation of an element from the CSS transforms of its ancestors
+ * up to a container, in degrees
+ */
+function getRotation(element: HTMLElement, container: HTMLElement): number {
+  let rotation = 0;
+  for (
+    let current: HTMLElement | null = element;
+    current && current !== container;
+    current = current.parentElement
+  ) {
+    const transform = window.getComputedStyle(current).transform;
+    if (transform && transform !== "none") {
+      const matrix = new DOMMatrix(transform);
+      rotation += (Math.atan2(matrix.b, matrix.a) * 180) / Math.PI;
+    }
+  }
+  return rotation;
+}
+
+/**
+ * Exports a Plot2D as an image: the D3 SVG with inlined styles, with the
+ * MathJax axis and tick labels typeset into it.
+ *
+ * @param container - The plot's container element (.mn-plot2d)
+ * @param format - Image format
+ * @param filename - Name of the downloaded file, without extension
+ */
+export async function exportPlot2DImage(
+  container: HTMLElement,
+  format: IImageFormat,
+  filename: string
+): Promise<void> {
+  const svg = container.querySelector<SVGSVGElement>(":scope > svg");
+  if (!svg) return;
+  const svgBox = svg.getBoundingClientRect();
+  const width = svg.clientWidth || svgBox.width;
+  const height = svg.clientHeight || svgBox.height;
+  // Screen positions are scaled by the canvas zoom
+  const zoom = svgBox.width / width || 1;
+
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  inlineStyles(svg, clone);
+  clone.setAttribute("xmlns", SVG_NS);
+  clone.setAttribute("width", `${width}`);
+  clone.setAttribute("height", `${height}`);
+  clone.setAttribute("viewBox", `0 0 ${width} ${height}`);
+  clone.style.overflow = "hidden";
+
+  // White background, as slides and handouts may not be white
+  const background = document.createElementNS(SVG_NS, "rect");
+  background.setAttribute("width", "100%");
+  background.setAttribute("height", "100%");
+  background.setAttribute("fill", "#fff");
+  clone.insertBefore(background, clone.firstChild);
+
+  // Typeset each LaTeX label over the SVG, centered where it is shown
+  const labels = container.querySelectorAll<HTMLElement>("[data-latex]");
+  for (const label of Array.from(labels)) {
+    const latex = label.dataset.latex;
+    if (!latex) continue;
+    const box = label.getBoundingClientRect();
+    if (box.width === 0 && box.height === 0) continue;
+    // MathJax output is sized by the wrapper LatexLabel sets its font size on
+    const computed = window.getComputedStyle(label.firstElementChild ?? label);
+    const labelSvg = await latexToSvg(
+      latex,
+      parseFloat(computed.fontSize),
+      computed.color
+    );
+    const labelWidth = parseFloat(labelSvg.getAttribute("width") ?? "0");
+    const labelHeight = parseFloat(labelSvg.getAttribute("height") ?? "0");
+    labelSvg.setAttribute("x", `${-labelWidth / 2}`);
+    labelSvg.setAttribute("y", `${-labelHeight / 2}`);
+    const group = document.createElementNS(SVG_NS, "g");
+    const centerX = (box.left + box.width / 2 - svgBox.left) / zoom;
+    const centerY = (box.top + box.height / 2 - svgBox.top) / zoom;
+    group.setAttribute(
+      "transform",
+      `translate(${centerX},${centerY}) rotate(${getRotation(label, container)})`
+    );
+    group.appendChild(labelSvg);
+    clone.appendChild(group);
+  }
+
+  const svgText = new XMLSerializer().serializeToString(clone);
+  if (format === "svg") {
+    downloadBlob(
+      new Blob([svgText], { type: "image/svg+xml;charset=utf-8" }),
+      `${filename}.svg`
+    );
+  } else {
+    downloadBlob(await svgToPng(svgText, width, height), `${filename}.png`);
+  }
+}
@@ -1,11 +1,12 @@
 import * as d3 from "d3";
 
 import { ComputationStore } from "../../store/computation";
+import { type PlotScale } from "./utils";
 
 export interface HoverLinesConfig {
   svg: d3.Selection<SVGGElement, unknown, null, undefined>;
-  xScale: d3.ScaleLinear<number, number>;
-  yScale: d3.ScaleLinear<number, number>;
+  xScale: PlotScale;
+  yScale: PlotScale;
   plotWidth: number;
   plotHeight: number;
   xAxis?: string;
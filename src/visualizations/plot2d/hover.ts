@@ -1,6 +1,7 @@
 import * as d3 from "d3";
 
 import type { DataPoint } from "./plot-2d";
+import type { PlotScale } from "./utils";
 
 /**
  * Creates the hover group with circle and crosshair lines
@@ -38,8 +39,8 @@ export function createHoverGroup(
 export function updateHoverPosition(
   hover: d3.Selection<SVGGElement, unknown, null, undefined>,
   point: DataPoint,
-  xScale: d3.ScaleLinear<number, number>,
-  yScale: d3.ScaleLinear<number, number>,
+  xScale: PlotScale,
+  yScale: PlotScale,
   plotWidth: number,
   plotHeight: number
 ): void {
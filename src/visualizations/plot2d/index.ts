@@ -6,7 +6,9 @@ export type { DataPoint } from "./plot-2d";
 export * from "./defaults";
 
 // Utility modules for extending functionality
+export * from "./annotations";
 export * from "./axes";
+export * from "./contours";
 export * from "./markers";
 export * from "./vectors";
 export * from "./utils";
@@ -1,5 +1,7 @@
 import * as d3 from "d3";
 
+import { type PlotScale } from "./utils";
+
 export interface MarkerConfig {
   id: string;
   color: string;
@@ -40,8 +42,8 @@ export function getMarkerUrl(markerId: string): string {
 export function renderPointMarkers(
   svg: d3.Selection<SVGGElement, unknown, null, undefined>,
   vectorData: Array<{ x: number; y: number }>,
-  xScale: d3.ScaleLinear<number, number>,
-  yScale: d3.ScaleLinear<number, number>,
+  xScale: PlotScale,
+  yScale: PlotScale,
   color: string,
   markerSize: number = 4
 ): void {
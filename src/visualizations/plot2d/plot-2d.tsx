@@ -1,28 +1,79 @@
-import React, { useCallback, useEffect, useRef } from "react";
+import {
+  type ForwardedRef,
+  forwardRef,
+  useCallback,
+  useEffect,
+  useImperativeHandle,
+  useRef,
+  useState,
+} from "react";
 
 import { reaction } from "mobx";
 import { observer } from "mobx-react-lite";
 
 import * as d3 from "d3";
+import { Eraser, RotateCcw } from "lucide-react";
 
 import { useStore } from "../../core/hooks";
+import {
+  type IFieldVector,
+  type IScalarSample,
+  isLineBreak,
+} from "../../engine/sampling";
 import { ComputationStore } from "../../store/computation";
 import {
+  type I2DArea,
+  type I2DField,
+  type I2DImplicit,
+  type I2DInteraction,
   type I2DLine,
   type I2DPoint,
   type IPlot2D,
+  type IPointTrail,
   type IVector,
 } from "../../types/plot2d";
+import { type IImageFormat, type IPlotHandle } from "../../types/visualization";
+import {
+  TRAIL_EXPIRY_INTERVAL,
+  type TrailPosition,
+  isExpiringTrail,
+  pruneTrail,
+  recordTrailPosition,
+} from "../trail";
+import { AnnotationLabels } from "./annotation-labels";
+import {
+  type AnnotationLabelInfo,
+  getAnnotationVariables,
+  renderAnnotations,
+} from "./annotations";
 import { type AxisLabelInfo, addAxes, addGrid } from "./axes";
 import { AxisLabels } from "./axis-labels";
-import { PLOT2D_DEFAULTS } from "./defaults";
-import { calculatePlotDimensions } from "./utils";
-import { getAllVectorVariables, renderVectors } from "./vectors";
+import { traceContour } from "./contours";
+import { FIELD_DEFAULTS, IMPLICIT_DEFAULTS, PLOT2D_DEFAULTS } from "./defaults";
+import { exportPlot2DImage } from "./export";
+import { renderPointTrail } from "./trails";
+import {
+  calculatePlotDimensions,
+  constrainDragValue,
+  createScale,
+  fitRange,
+  getMinCellSize,
+  panRange,
+  zoomRange,
+} from "./utils";
+import {
+  getAllVectorVariables,
+  renderFieldArrows,
+  renderVectors,
+} from "./vectors";
 
 interface Plot2DProps {
   config: IPlot2D;
 }
 
+// Zoom factor exponent per wheel delta unit
+const WHEEL_ZOOM_SPEED = 0.002;
+
 export interface DataPoint {
   x: number;
   y: number;
@@ -46,9 +97,306 @@ interface GraphPointData {
   size: number;
   showInLegend: boolean;
   showLabel: boolean;
-  interaction?: ["horizontal-drag" | "vertical-drag", string];
+  interaction?: I2DInteraction;
   stepId?: string;
   persistence?: boolean;
+  trail?: IPointTrail;
+}
+
+// Graph-based area data structure
+interface GraphAreaData {
+  name: string;
+  // Points of the first line within the bounds
+  upper: DataPoint[];
+  // Points of the second line within the bounds, or null to shade to y = 0
+  lower: DataPoint[] | null;
+  color: string;
+  opacity: number;
+  showInLegend: boolean;
+}
+
+// Graph-based field data structure
+interface GraphFieldData {
+  name: string;
+  vectors: IFieldVector[];
+  // Ranges and density of the sampled grid, to size the arrows
+  sampleRanges: [[number, number], [number, number]];
+  density: number;
+  scale?: number;
+  normalize: boolean;
+  arrowheads: boolean;
+  color: string;
+  lineWidth: number;
+  showInLegend: boolean;
+}
+
+// Graph-based implicit curve data structure, one curve per level
+interface GraphImplicitData {
+  name: string;
+  curves: Array<{ level: number; points: DataPoint[]; color: string }>;
+  lineWidth: number;
+  showInLegend: boolean;
+}
+
+/**
+ * Samples a line graph over a range.
+ * Either runs the semantics directly or returns the latest worker result.
+ */
+type LineSampler = (
+  lineConfig: I2DLine,
+  sampleRange: [number, number]
+) => DataPoint[];
+
+/**
+ * Samples the arrows of a field graph over a grid.
+ * Either runs the semantics directly or returns the latest worker result.
+ */
+type FieldSampler = (
+  fieldConfig: I2DField,
+  sampleRanges: [[number, number], [number, number]]
+) => IFieldVector[];
+
+/**
+ * Samples the scalar of an implicit graph over a grid.
+ * Either runs the semantics directly or returns the latest worker result.
+ */
+type ScalarGridSampler = (
+  implicitConfig: I2DImplicit,
+  sampleRanges: [[number, number], [number, number]]
+) => IScalarSample[];
+
+/**
+ * Get the range a line graph is sampled over: its own range, else the range
+ * of its parameter variable.
+ */
+function getLineSampleRange(
+  lineConfig: I2DLine,
+  computationStore: ComputationStore
+): [number, number] {
+  if (lineConfig.range) return lineConfig.range;
+  const paramVariable = computationStore.variables.get(lineConfig.parameter);
+  return paramVariable?.range ?? [0, 10];
+}
+
+/**
+ * Get the grid ranges a field or implicit graph is sampled over: its own
+ * ranges, else the ranges of its parameter variables.
+ */
+function getGridSampleRanges(
+  gridConfig: I2DField | I2DImplicit,
+  computationStore: ComputationStore
+): [[number, number], [number, number]] {
+  if (gridConfig.ranges) return gridConfig.ranges;
+  const [xRange, yRange] = gridConfig.parameters.map(
+    (parameter) =>
+      computationStore.variables.get(parameter)?.range ??
+      ([0, 10] as [number, number])
+  );
+  return [xRange, yRange];
+}
+
+/**
+ * Keep the part of a sampled line between two x bounds, adding points where
+ * the line crosses a bound.
+ */
+function clipToBounds(
+  points: DataPoint[],
+  [from, to]: [number, number]
+): DataPoint[] {
+  const [min, max] = from <= to ? [from, to] : [to, from];
+  const clipped: DataPoint[] = [];
+  points.forEach((point, i) => {
+    if (isLineBreak(point)) {
+      clipped.push(point);
+      return;
+    }
+    const prev = points[i - 1];
+    if (prev && !isLineBreak(prev)) {
+      const crossings = (prev.x < point.x ? [min, max] : [max, min]).filter(
+        (bound) => (prev.x - bound) * (point.x - bound) < 0
+      );
+      for (const bound of crossings) {
+        const t = (bound - prev.x) / (point.x - prev.x);
+        clipped.push({ x: bound, y: prev.y + t * (point.y - prev.y) });
+      }
+    }
+    if (point.x >= min && point.x <= max) clipped.push(point);
+  });
+  return clipped;
+}
+
+/**
+ * Split a sampled line into its runs of drawable points, at line breaks and
+ * at points the axes cannot show.
+ */
+function splitAtGaps(
+  points: DataPoint[],
+  isDrawable: (point: DataPoint) => boolean
+): DataPoint[][] {
+  const segments: DataPoint[][] = [];
+  let segment: DataPoint[] = [];
+  for (const point of points) {
+    if (isDrawable(point)) {
+      segment.push(point);
+    } else if (segment.length > 0) {
+      segments.push(segment);
+      segment = [];
+    }
+  }
+  if (segment.length > 0) segments.push(segment);
+  return segments;
+}
+
+/**
+ * Calculate the shaded regions of area graphs from the samples of the line
+ * graphs they reference. Areas whose lines or bounds are missing are skipped.
+ */
+function calculateAreaData(
+  graphs: IPlot2D["graphs"],
+  computationStore: ComputationStore,
+  sampleLinePoints: LineSampler
+): GraphAreaData[] {
+  const areaResults: GraphAreaData[] = [];
+  if (!graphs) return areaResults;
+
+  for (const graphConfig of graphs) {
+    if (graphConfig.type !== "area") continue;
+    const {
+      id: graphId,
+      name,
+      showInLegend = true,
+      lines,
+      bounds,
+      color = "#3b82f6",
+      opacity = 0.3,
+    } = graphConfig as I2DArea;
+
+    const [upper, lower] = lines.map((lineId) => {
+      const lineConfig = graphs.find(
+        (g): g is I2DLine => g.type === "line" && g.id === lineId
+      );
+      return lineConfig
+        ? sampleLinePoints(
+            lineConfig,
+            getLineSampleRange(lineConfig, computationStore)
+          )
+        : null;
+    });
+    if (!upper || (lines.length > 1 && !lower)) continue;
+
+    // Bounds are numbers or variable names
+    let clipRange: [number, number] | null = null;
+    if (bounds) {
+      const [from, to] = bounds.map((bound) =>
+        typeof bound === "number"
+          ? bound
+          : computationStore.variables.get(bound)?.value
+      );
+      if (typeof from !== "number" || typeof to !== "number") continue;
+      clipRange = [from, to];
+    }
+    const clip = (points: DataPoint[]) =>
+      clipRange ? clipToBounds(points, clipRange) : points;
+
+    areaResults.push({
+      name: name || graphId,
+      upper: clip(upper),
+      lower: lower ? clip(lower) : null,
+      color,
+      opacity,
+      showInLegend,
+    });
+  }
+
+  return areaResults;
+}
+
+/**
+ * Calculate the arrows of field graphs.
+ */
+function calculateFieldData(
+  graphs: IPlot2D["graphs"],
+  computationStore: ComputationStore,
+  sampleFieldVectors: FieldSampler
+): GraphFieldData[] {
+  const fieldResults: GraphFieldData[] = [];
+  if (!graphs) return fieldResults;
+
+  for (const graphConfig of graphs) {
+    if (graphConfig.type !== "field") continue;
+    const fieldConfig = graphConfig as I2DField;
+    const {
+      id: graphId,
+      name,
+      showInLegend = true,
+      density = FIELD_DEFAULTS.density,
+      scale,
+      normalize = false,
+      arrowheads = true,
+      color = FIELD_DEFAULTS.color,
+      lineWidth = FIELD_DEFAULTS.lineWidth,
+    } = fieldConfig;
+    const sampleRanges = getGridSampleRanges(fieldConfig, computationStore);
+
+    fieldResults.push({
+      name: name || graphId,
+      vectors: sampleFieldVectors(fieldConfig, sampleRanges),
+      sampleRanges,
+      density,
+      scale,
+      normalize,
+      arrowheads,
+      color,
+      lineWidth,
+      showInLegend,
+    });
+  }
+
+  return fieldResults;
+}
+
+/**
+ * Calculate the curves of implicit graphs at each of their levels.
+ */
+function calculateImplicitData(
+  graphs: IPlot2D["graphs"],
+  computationStore: ComputationStore,
+  sampleScalarGrid: ScalarGridSampler
+): GraphImplicitData[] {
+  const implicitResults: GraphImplicitData[] = [];
+  if (!graphs) return implicitResults;
+
+  for (const graphConfig of graphs) {
+    if (graphConfig.type !== "implicit") continue;
+    const implicitConfig = graphConfig as I2DImplicit;
+    const {
+      id: graphId,
+      name,
+      showInLegend = true,
+      samples = IMPLICIT_DEFAULTS.samples,
+      levels = [0],
+      color = IMPLICIT_DEFAULTS.color,
+      lineWidth = IMPLICIT_DEFAULTS.lineWidth,
+    } = implicitConfig;
+    const grid = sampleScalarGrid(
+      implicitConfig,
+      getGridSampleRanges(implicitConfig, computationStore)
+    );
+
+    implicitResults.push({
+      name: name || graphId,
+      curves: levels.map((level, index) => ({
+        level,
+        points: traceContour(grid, samples, level),
+        // A list of colors cycles through the levels
+        color: Array.isArray(color) ? color[index % color.length] : color,
+      })),
+      lineWidth,
+      showInLegend,
+    });
+  }
+
+  return implicitResults;
 }
 
 /**
@@ -57,13 +405,28 @@ interface GraphPointData {
  */
 function calculateGraphData(
   graphs: IPlot2D["graphs"],
-  computationStore: ComputationStore
-): { lines: GraphLineData[]; points: GraphPointData[] } {
+  computationStore: ComputationStore,
+  sampleLinePoints: LineSampler,
+  sampleFieldVectors: FieldSampler,
+  sampleScalarGrid: ScalarGridSampler
+): {
+  lines: GraphLineData[];
+  points: GraphPointData[];
+  areas: GraphAreaData[];
+  fields: GraphFieldData[];
+  implicits: GraphImplicitData[];
+} {
   const lineResults: GraphLineData[] = [];
   const pointResults: GraphPointData[] = [];
 
   if (!graphs || graphs.length === 0) {
-    return { lines: lineResults, points: pointResults };
+    return {
+      lines: lineResults,
+      points: pointResults,
+      areas: [],
+      fields: [],
+      implicits: [],
+    };
   }
 
   for (const graphConfig of graphs) {
@@ -73,27 +436,13 @@ function calculateGraphData(
 
     if (graphType === "line") {
       const lineConfig = graphConfig as I2DLine;
-      const {
-        parameter,
-        range,
-        samples = 100,
-        color = "#3b82f6",
-        lineWidth = 2,
-      } = lineConfig;
-
-      // Get range from config or from parameter variable's range
-      let sampleRange = range;
-      if (!sampleRange) {
-        const paramVariable = computationStore.variables.get(parameter);
-        sampleRange = paramVariable?.range ?? [0, 10];
-      }
+      const { color = "#3b82f6", lineWidth = 2 } = lineConfig;
 
-      // Sample the manual function across the range
-      const points = computationStore.sample2DLine(
-        parameter,
-        sampleRange,
-        samples,
-        graphId
+      // Sample the manual function across the range from config or from
+      // the parameter variable's range
+      const points = sampleLinePoints(
+        lineConfig,
+        getLineSampleRange(lineConfig, computationStore)
       );
 
       if (points.length > 0) {
@@ -114,6 +463,7 @@ function calculateGraphData(
         interaction,
         stepId,
         persistence,
+        trail,
       } = pointConfig;
       // Run once with current values to get the current point
       const point = computationStore.sample2DPoint(graphId);
@@ -129,20 +479,82 @@ function calculateGraphData(
           interaction,
           stepId,
           persistence,
+          trail,
         });
       }
     }
   }
 
-  return { lines: lineResults, points: pointResults };
+  return {
+    lines: lineResults,
+    points: pointResults,
+    areas: calculateAreaData(graphs, computationStore, sampleLinePoints),
+    fields: calculateFieldData(graphs, computationStore, sampleFieldVectors),
+    implicits: calculateImplicitData(
+      graphs,
+      computationStore,
+      sampleScalarGrid
+    ),
+  };
+}
+
+/**
+ * Collect the graph points that are currently shown, including the points of
+ * reached steps, for fitting auto-ranged axes.
+ */
+function getGraphDataPoints(
+  graphResults: {
+    lines: GraphLineData[];
+    points: GraphPointData[];
+    areas: GraphAreaData[];
+    fields: GraphFieldData[];
+    implicits: GraphImplicitData[];
+  },
+  computationStore: ComputationStore
+): DataPoint[] {
+  const dataPoints = graphResults.lines.flatMap((lineData) => lineData.points);
+  // Areas shaded down to y = 0 include the baseline
+  for (const areaData of graphResults.areas) {
+    if (!areaData.lower && areaData.upper.length > 0) {
+      dataPoints.push({ x: areaData.upper[0].x, y: 0 });
+    }
+  }
+  // Fields include their grid points
+  for (const fieldData of graphResults.fields) {
+    dataPoints.push(...fieldData.vectors.map(({ x, y }) => ({ x, y })));
+  }
+  for (const implicitData of graphResults.implicits) {
+    implicitData.curves.forEach(({ points }) => dataPoints.push(...points));
+  }
+  for (const pointData of graphResults.points) {
+    if (!pointData.stepId) {
+      dataPoints.push(pointData.point);
+    } else {
+      const stepPoints = computationStore.getStepDataPoints(
+        pointData.graphId,
+        pointData.stepId,
+        pointData.persistence !== false
+      ) as unknown as DataPoint[];
+      dataPoints.push(...stepPoints);
+    }
+  }
+  return dataPoints;
 }
 
-const Plot2D: React.FC<Plot2DProps> = observer(({ config }) => {
+const Plot2DBase = (
+  { config }: Plot2DProps,
+  ref: ForwardedRef<IPlotHandle>
+) => {
   const context = useStore();
   const computationStore = context?.computationStore;
   const svgRef = useRef<SVGSVGElement>(null);
   const tooltipRef = useRef<HTMLDivElement>(null);
-  const axisLabelInfoRef = useRef<AxisLabelInfo>({});
+  // Axis and tick label positions of the latest drawn plot, for React rendering
+  const [axisLabelInfo, setAxisLabelInfo] = useState<AxisLabelInfo>({});
+  // LaTeX text annotations of the latest drawn plot, for React rendering
+  const [annotationLabels, setAnnotationLabels] = useState<
+    AnnotationLabelInfo[]
+  >([]);
   // Track if drag is happening on THIS plot (to distinguish from formula variable drag)
   const isLocalDragRef = useRef(false);
   // Track focus state for graph interaction (persists across re-renders)
@@ -156,6 +568,35 @@ const Plot2D: React.FC<Plot2DProps> = observer(({ config }) => {
   // Store event handler references to properly remove them across re-renders
   const globalMouseMoveRef = useRef<((e: MouseEvent) => void) | null>(null);
   const globalMouseUpRef = useRef<(() => void) | null>(null);
+  // Latest sampled line points (graph ID -> points). Lines are only resampled
+  // when a variable they depend on changes; in worker mode they draw from this
+  // cache so the last good frame stays on screen.
+  const lineSamplesRef = useRef(new Map<string, DataPoint[]>());
+  // Sample key (dependency values + sample range) of each line's cached points
+  const lineSampleKeysRef = useRef(new Map<string, string>());
+  // Latest sampled field arrows and their sample keys, cached like lines
+  const fieldSamplesRef = useRef(new Map<string, IFieldVector[]>());
+  const fieldSampleKeysRef = useRef(new Map<string, string>());
+  // Latest sampled scalar grids of implicit graphs and their sample keys
+  const scalarGridsRef = useRef(new Map<string, IScalarSample[]>());
+  const scalarGridKeysRef = useRef(new Map<string, string>());
+  // Recorded positions of points with motion trails (graph ID -> trail)
+  const trailsRef = useRef(new Map<string, TrailPosition<DataPoint>[]>());
+  // Pending pruning of trails with a duration
+  const trailTimerRef = useRef<number | null>(null);
+  // Config the cached samples and trails belong to
+  const sampledConfigRef = useRef(config);
+  // Redraw entry points for async sampling results
+  const drawPlotRef = useRef<(() => void) | null>(null);
+  const updateLinePathsRef = useRef<(() => void) | null>(null);
+  // Ranges of the latest drawn plot, the starting point of pans and zooms
+  const visibleRangesRef = useRef<{
+    xRange: [number, number];
+    yRange: [number, number];
+  }>({ xRange: PLOT2D_DEFAULTS.xRange, yRange: PLOT2D_DEFAULTS.yRange });
+  // Removes the listeners of an active pan. Kept apart from the drag
+  // listeners, as the redraws a pan causes must not end it.
+  const stopPanRef = useRef<(() => void) | null>(null);
 
   // Parse configuration options with defaults
   const {
@@ -163,15 +604,23 @@ const Plot2D: React.FC<Plot2DProps> = observer(({ config }) => {
     xAxisPos,
     xLabelPos,
     xGrid = "show",
+    xScale: xScaleType = "linear",
+    xTickFormat,
+    xTickUnit,
     yAxisInterval,
     yAxisPos,
     yLabelPos,
     yGrid = "show",
+    yScale: yScaleType = "linear",
+    yTickFormat,
+    yTickUnit,
     vectors,
+    annotations,
     graphs,
     width = PLOT2D_DEFAULTS.width,
     height = PLOT2D_DEFAULTS.height,
     interaction,
+    autoRange,
   } = config;
 
   // Get axis labels from config (purely cosmetic, don't affect graphing)
@@ -183,15 +632,291 @@ const Plot2D: React.FC<Plot2DProps> = observer(({ config }) => {
   const xRange = config.xRange || PLOT2D_DEFAULTS.xRange;
   const yRange = config.yRange || PLOT2D_DEFAULTS.yRange;
 
+  // Key for the view in state snapshots
+  const plotId = config.id ?? "plot2d";
+  // Whether any point has a motion trail, which adds the clear trails button
+  const hasTrails = !!graphs?.some(
+    (graph) => graph.type === "point" && graph.trail
+  );
+  // Ranges the user panned or zoomed to, which override xRange/yRange
+  const plotView = computationStore?.getPlotView(plotId);
+  const viewXRange = plotView?.xRange;
+  const viewYRange = plotView?.yRange;
+
   // Calculate plot dimensions using helper function
   const { plotWidth, plotHeight, margin } = calculatePlotDimensions(
     width,
     height
   );
+  const { left: marginLeft, top: marginTop } = margin;
+
+  // Key identifying the inputs of a line sample. The sampled parameter is
+  // excluded because sampling overwrites it.
+  const getLineSampleKey = useCallback(
+    (lineConfig: I2DLine, sampleRange: [number, number]) => {
+      if (!computationStore) return "";
+      const { id: graphId, parameter, samples = 100 } = lineConfig;
+      const dependencyKey = computationStore.getDependencyKey(graphId, [
+        parameter,
+      ]);
+      return `${dependencyKey}|${sampleRange.join(",")}|${samples}`;
+    },
+    [computationStore]
+  );
 
-  // Get min/max values from ranges
-  const [xMin, xMax] = xRange;
-  const [yMin, yMax] = yRange;
+  // Request fresh samples for a line from the sampling worker.
+  // Skipped when the line's inputs match the latest request.
+  const requestLineSamples = useCallback(
+    (lineConfig: I2DLine, sampleRange: [number, number]) => {
+      if (!computationStore) return;
+      const { id: graphId, parameter, samples = 100 } = lineConfig;
+      const key = getLineSampleKey(lineConfig, sampleRange);
+      if (lineSampleKeysRef.current.get(graphId) === key) return;
+      lineSampleKeysRef.current.set(graphId, key);
+      computationStore
+        .sample2DLineAsync(parameter, sampleRange, samples, graphId)
+        .then((points) => {
+          if (!points || lineSampleKeysRef.current.get(graphId) !== key) {
+            return;
+          }
+          lineSamplesRef.current.set(graphId, points);
+          // A full redraw would drop the drag target, so update paths in place
+          if (isLocalDragRef.current && computationStore.isDragging) {
+            updateLinePathsRef.current?.();
+          } else {
+            drawPlotRef.current?.();
+          }
+        });
+    },
+    [computationStore, getLineSampleKey]
+  );
+
+  // Sample a line graph, reusing cached points when its inputs are unchanged
+  const sampleLinePoints: LineSampler = useCallback(
+    (lineConfig, sampleRange) => {
+      if (!computationStore) return [];
+      if (computationStore.workerSampling) {
+        requestLineSamples(lineConfig, sampleRange);
+        return lineSamplesRef.current.get(lineConfig.id) ?? [];
+      }
+      const key = getLineSampleKey(lineConfig, sampleRange);
+      const cached = lineSamplesRef.current.get(lineConfig.id);
+      if (cached && lineSampleKeysRef.current.get(lineConfig.id) === key) {
+        return cached;
+      }
+      const points = computationStore.sample2DLine(
+        lineConfig.parameter,
+        sampleRange,
+        lineConfig.samples ?? 100,
+        lineConfig.id
+      );
+      lineSamplesRef.current.set(lineConfig.id, points);
+      lineSampleKeysRef.current.set(lineConfig.id, key);
+      return points;
+    },
+    [computationStore, getLineSampleKey, requestLineSamples]
+  );
+
+  // Key identifying the inputs of a field sample. Both grid parameters are
+  // excluded because sampling overwrites them.
+  const getFieldSampleKey = useCallback(
+    (
+      fieldConfig: I2DField,
+      sampleRanges: [[number, number], [number, number]]
+    ) => {
+      if (!computationStore) return "";
+      const {
+        id: graphId,
+        parameters,
+        density = FIELD_DEFAULTS.density,
+      } = fieldConfig;
+      const dependencyKey = computationStore.getDependencyKey(
+        graphId,
+        parameters
+      );
+      return `${dependencyKey}|${sampleRanges.join(",")}|${density}`;
+    },
+    [computationStore]
+  );
+
+  // Request fresh arrows for a field from the sampling worker.
+  // Skipped when the field's inputs match the latest request.
+  const requestFieldSamples = useCallback(
+    (
+      fieldConfig: I2DField,
+      sampleRanges: [[number, number], [number, number]]
+    ) => {
+      if (!computationStore) return;
+      const {
+        id: graphId,
+        parameters,
+        density = FIELD_DEFAULTS.density,
+      } = fieldConfig;
+      const key = getFieldSampleKey(fieldConfig, sampleRanges);
+      if (fieldSampleKeysRef.current.get(graphId) === key) return;
+      fieldSampleKeysRef.current.set(graphId, key);
+      computationStore
+        .sample2DFieldAsync(parameters, sampleRanges, density, graphId)
+        .then((vectors) => {
+          if (!vectors || fieldSampleKeysRef.current.get(graphId) !== key) {
+            return;
+          }
+          fieldSamplesRef.current.set(graphId, vectors);
+          // A full redraw would drop the drag target, so update in place
+          if (isLocalDragRef.current && computationStore.isDragging) {
+            updateLinePathsRef.current?.();
+          } else {
+            drawPlotRef.current?.();
+          }
+        });
+    },
+    [computationStore, getFieldSampleKey]
+  );
+
+  // Sample a field graph, reusing cached arrows when its inputs are unchanged
+  const sampleFieldVectors: FieldSampler = useCallback(
+    (fieldConfig, sampleRanges) => {
+      if (!computationStore) return [];
+      if (computationStore.workerSampling) {
+        requestFieldSamples(fieldConfig, sampleRanges);
+        return fieldSamplesRef.current.get(fieldConfig.id) ?? [];
+      }
+      const key = getFieldSampleKey(fieldConfig, sampleRanges);
+      const cached = fieldSamplesRef.current.get(fieldConfig.id);
+      if (cached && fieldSampleKeysRef.current.get(fieldConfig.id) === key) {
+        return cached;
+      }
+      const vectors = computationStore.sample2DField(
+        fieldConfig.parameters,
+        sampleRanges,
+        fieldConfig.density ?? FIELD_DEFAULTS.density,
+        fieldConfig.id
+      );
+      fieldSamplesRef.current.set(fieldConfig.id, vectors);
+      fieldSampleKeysRef.current.set(fieldConfig.id, key);
+      return vectors;
+    },
+    [computationStore, getFieldSampleKey, requestFieldSamples]
+  );
+
+  // Key identifying the inputs of an implicit graph's scalar grid. Both grid
+  // parameters are excluded because sampling overwrites them.
+  const getScalarGridKey = useCallback(
+    (
+      implicitConfig: I2DImplicit,
+      sampleRanges: [[number, number], [number, number]]
+    ) => {
+      if (!computationStore) return "";
+      const {
+        id: graphId,
+        parameters,
+        samples = IMPLICIT_DEFAULTS.samples,
+      } = implicitConfig;
+      const dependencyKey = computationStore.getDependencyKey(
+        graphId,
+        parameters
+      );
+      return `${dependencyKey}|${sampleRanges.join(",")}|${samples}`;
+    },
+    [computationStore]
+  );
+
+  // Request a fresh scalar grid for an implicit graph from the sampling worker.
+  // Skipped when the graph's inputs match the latest request.
+  const requestScalarGrid = useCallback(
+    (
+      implicitConfig: I2DImplicit,
+      sampleRanges: [[number, number], [number, number]]
+    ) => {
+      if (!computationStore) return;
+      const {
+        id: graphId,
+        parameters,
+        samples = IMPLICIT_DEFAULTS.samples,
+      } = implicitConfig;
+      const key = getScalarGridKey(implicitConfig, sampleRanges);
+      if (scalarGridKeysRef.current.get(graphId) === key) return;
+      scalarGridKeysRef.current.set(graphId, key);
+      computationStore
+        .sample2DScalarGridAsync(parameters, sampleRanges, samples, graphId)
+        .then((grid) => {
+          if (!grid || scalarGridKeysRef.current.get(graphId) !== key) {
+            return;
+          }
+          scalarGridsRef.current.set(graphId, grid);
+          // A full redraw would drop the drag target, so update in place
+          if (isLocalDragRef.current && computationStore.isDragging) {
+            updateLinePathsRef.current?.();
+          } else {
+            drawPlotRef.current?.();
+          }
+        });
+    },
+    [computationStore, getScalarGridKey]
+  );
+
+  // Sample an implicit graph's scalar grid, reusing the cached grid when its
+  // inputs are unchanged
+  const sampleScalarGrid: ScalarGridSampler = useCallback(
+    (implicitConfig, sampleRanges) => {
+      if (!computationStore) return [];
+      if (computationStore.workerSampling) {
+        requestScalarGrid(implicitConfig, sampleRanges);
+        return scalarGridsRef.current.get(implicitConfig.id) ?? [];
+      }
+      const key = getScalarGridKey(implicitConfig, sampleRanges);
+      const cached = scalarGridsRef.current.get(implicitConfig.id);
+      if (cached && scalarGridKeysRef.current.get(implicitConfig.id) === key) {
+        return cached;
+      }
+      const grid = computationStore.sample2DScalarGrid(
+        implicitConfig.parameters,
+        sampleRanges,
+        implicitConfig.samples ?? IMPLICIT_DEFAULTS.samples,
+        implicitConfig.id
+      );
+      scalarGridsRef.current.set(implicitConfig.id, grid);
+      scalarGridKeysRef.current.set(implicitConfig.id, key);
+      return grid;
+    },
+    [computationStore, getScalarGridKey, requestScalarGrid]
+  );
+
+  // Pan the view while empty plot space is dragged
+  const startPan = useCallback(
+    (event: MouseEvent) => {
+      const svgNode = svgRef.current;
+      if (!computationStore || !svgNode) return;
+      event.preventDefault();
+      stopPanRef.current?.();
+      const [startX, startY] = d3.pointer(event, svgNode);
+      const { xRange: startXRange, yRange: startYRange } =
+        visibleRangesRef.current;
+
+      const handlePanMove = (moveEvent: MouseEvent) => {
+        const [mouseX, mouseY] = d3.pointer(moveEvent, svgNode);
+        computationStore.setPlotView(plotId, {
+          xRange: panRange(startXRange, mouseX - startX, plotWidth, xScaleType),
+          yRange: panRange(
+            startYRange,
+            startY - mouseY,
+            plotHeight,
+            yScaleType
+          ),
+        });
+      };
+      const stopPan = () => {
+        document.removeEventListener("mousemove", handlePanMove);
+        document.removeEventListener("mouseup", stopPan);
+        stopPanRef.current = null;
+      };
+
+      stopPanRef.current = stopPan;
+      document.addEventListener("mousemove", handlePanMove);
+      document.addEventListener("mouseup", stopPan);
+    },
+    [computationStore, plotId, plotWidth, plotHeight, xScaleType, yScaleType]
+  );
 
   // Function to draw the plot
   const drawPlot = useCallback(() => {
@@ -240,9 +965,43 @@ const Plot2D: React.FC<Plot2DProps> = observer(({ config }) => {
 
     if (!svgRef.current) return;
 
-    // Check if we have vectors or graphs
+    // Check if we have vectors, graphs or annotations
     const hasVectors = vectors && vectors.length > 0;
-    if (!hasVectors && !hasGraphs) return;
+    const hasAnnotations = annotations && annotations.length > 0;
+    if (!hasVectors && !hasGraphs && !hasAnnotations) return;
+
+    // Sample graphs before creating the scales, so auto-ranged axes can fit them
+    const graphResults = calculateGraphData(
+      graphs,
+      computationStore,
+      sampleLinePoints,
+      sampleFieldVectors,
+      sampleScalarGrid
+    );
+
+    // Visible ranges: the panned or zoomed view, else the configured ranges
+    // with auto-ranged axes fitted to the graph data
+    const dataPoints = autoRange
+      ? getGraphDataPoints(graphResults, computationStore)
+      : [];
+    const [xMin, xMax] =
+      viewXRange ??
+      (autoRange === "x" || autoRange === "both"
+        ? fitRange(
+            dataPoints.map((d) => d.x),
+            xRange,
+            xScaleType
+          )
+        : xRange);
+    const [yMin, yMax] =
+      viewYRange ??
+      (autoRange === "y" || autoRange === "both"
+        ? fitRange(
+            dataPoints.map((d) => d.y),
+            yRange,
+            yScaleType
+          )
+        : yRange);
 
     // Clear previous graph
     d3.select(svgRef.current).selectAll("*").remove();
@@ -256,8 +1015,13 @@ const Plot2D: React.FC<Plot2DProps> = observer(({ config }) => {
       .attr("transform", `translate(${margin.left},${margin.top})`);
 
     // Create scales
-    const xScale = d3.scaleLinear().domain([xMin, xMax]).range([0, plotWidth]);
-    const yScale = d3.scaleLinear().domain([yMin, yMax]).range([plotHeight, 0]);
+    const xScale = createScale(xScaleType, [xMin, xMax], [0, plotWidth]);
+    const yScale = createScale(yScaleType, [yMin, yMax], [plotHeight, 0]);
+    // Log scales may clamp the ranges, so keep the domains the scales show
+    visibleRangesRef.current = {
+      xRange: xScale.domain() as [number, number],
+      yRange: yScale.domain() as [number, number],
+    };
 
     // Get vector variables for enhanced axis hovering
     const vectorVars =
@@ -282,12 +1046,21 @@ const Plot2D: React.FC<Plot2DProps> = observer(({ config }) => {
       yAxisPos,
       xLabelPos,
       yLabelPos,
+      xTickFormat,
+      yTickFormat,
+      xTickUnit,
+      yTickUnit,
       allXVariables: vectorVars.allXVariables,
       allYVariables: vectorVars.allYVariables,
     });
 
-    // Store label info in ref for React rendering
-    axisLabelInfoRef.current = labelInfo;
+    // Store label info for React rendering. Unchanged positions keep the
+    // previous state, so redraws do not re-render the labels.
+    setAxisLabelInfo((previous) =>
+      JSON.stringify(previous) === JSON.stringify(labelInfo)
+        ? previous
+        : labelInfo
+    );
 
     // Add grid using helper function
     addGrid(svg, {
@@ -300,13 +1073,65 @@ const Plot2D: React.FC<Plot2DProps> = observer(({ config }) => {
       yGrid,
       xAxisInterval,
       yAxisInterval,
+      xTickFormat,
+      yTickFormat,
     });
 
+    // Dragging empty plot space pans the view. Graph and vector interactions
+    // are drawn on top, so they take precedence.
+    svg
+      .append("rect")
+      .attr("class", "pan-rect nodrag")
+      .attr("width", plotWidth)
+      .attr("height", plotHeight)
+      .style("fill", "none")
+      .style("pointer-events", "all")
+      .style("cursor", "grab")
+      .on("mousedown", startPan);
+
+    // Generate unique clipPath id for content that pans out of the plot area
+    const graphClipId = `graph-clip-${Math.random().toString(36).slice(2)}`;
+
+    // Create clip path for graph lines and vectors
+    svg
+      .append("defs")
+      .append("clipPath")
+      .attr("id", graphClipId)
+      .append("rect")
+      .attr("width", plotWidth)
+      .attr("height", plotHeight);
+
+    // Render annotations below vectors and graphs. Redrawn in place when
+    // graphs update during a drag, as they may follow the dragged variables.
+    const annotationGroup = svg
+      .append("g")
+      .attr("class", "plot-annotations")
+      .attr("clip-path", `url(#${graphClipId})`);
+    const updateAnnotations = () => {
+      annotationGroup.selectAll("*").remove();
+      const labels = renderAnnotations(
+        annotationGroup,
+        annotations ?? [],
+        xScale,
+        yScale,
+        plotWidth,
+        plotHeight,
+        computationStore
+      );
+      setAnnotationLabels((previous) =>
+        JSON.stringify(previous) === JSON.stringify(labels) ? previous : labels
+      );
+    };
+    updateAnnotations();
+
     if (hasVectors) {
       // Vector mode
-      const defs = svg.append("defs");
+      const vectorGroup = svg
+        .append("g")
+        .attr("clip-path", `url(#${graphClipId})`);
+      const defs = vectorGroup.append("defs");
       renderVectors(
-        svg,
+        vectorGroup,
         defs,
         vectors as IVector[],
         xScale,
@@ -319,8 +1144,6 @@ const Plot2D: React.FC<Plot2DProps> = observer(({ config }) => {
 
     // Render graph-based visualizations
     if (hasGraphs) {
-      const graphResults = calculateGraphData(graphs, computationStore);
-
       // Separate regular points from step-dependent points
       const regularPoints: GraphPointData[] = [];
       const stepPoints: Array<{
@@ -334,29 +1157,11 @@ const Plot2D: React.FC<Plot2DProps> = observer(({ config }) => {
           regularPoints.push(pointData);
         } else if (computationStore.stepping) {
           // Has stepId and in stepping mode - collect accumulated points from dataPointMap
-          const steps = computationStore.steps;
-          const currentStepIndex = computationStore.currentStepIndex;
-          const graphId = pointData.graphId;
-          const allPoints = (computationStore.stepDataPointMap.get(graphId) ??
-            []) as unknown as DataPoint[];
-
-          // Count how many steps with matching stepId are in range [0, currentStepIndex]
-          let matchingStepCount = 0;
-          for (let i = 0; i <= currentStepIndex && i < steps.length; i++) {
-            if (steps[i].id === pointData.stepId) {
-              matchingStepCount++;
-            }
-          }
-
-          // Get accumulated points based on step progress
-          const accumulatedPoints: DataPoint[] =
-            pointData.persistence === false
-              ? // Only show the current step's point (no persistence)
-                matchingStepCount > 0 && allPoints[matchingStepCount - 1]
-                ? [allPoints[matchingStepCount - 1]]
-                : []
-              : // Default (true): show all points up to current step
-                allPoints.slice(0, matchingStepCount);
+          const accumulatedPoints = computationStore.getStepDataPoints(
+            pointData.graphId,
+            pointData.stepId,
+            pointData.persistence !== false
+          ) as unknown as DataPoint[];
 
           if (accumulatedPoints.length > 0) {
             stepPoints.push({ config: pointData, accumulatedPoints });
@@ -365,25 +1170,159 @@ const Plot2D: React.FC<Plot2DProps> = observer(({ config }) => {
         // If has stepId but not in stepping mode, point is not visible
       }
 
-      // Generate unique clipPath id for graph lines
-      const graphClipId = `graph-clip-${Math.random().toString(36).slice(2)}`;
+      // Render field arrows below areas and lines, one group per field
+      const renderField = (
+        fieldGroup: d3.Selection<SVGGElement, unknown, null, undefined>,
+        fieldData: GraphFieldData,
+        index: number
+      ) => {
+        const [xRange, yRange] = fieldData.sampleRanges;
+        renderFieldArrows(
+          fieldGroup,
+          fieldGroup.append("defs"),
+          fieldData.vectors,
+          index,
+          xScale,
+          yScale,
+          {
+            cellSize: Math.min(
+              getMinCellSize(xScale, xRange, fieldData.density),
+              getMinCellSize(yScale, yRange, fieldData.density)
+            ),
+            scale: fieldData.scale,
+            normalize: fieldData.normalize,
+            arrowheads: fieldData.arrowheads,
+            color: fieldData.color,
+            lineWidth: fieldData.lineWidth,
+          }
+        );
+      };
+      graphResults.fields.forEach((fieldData, index) => {
+        const fieldGroup = svg
+          .append("g")
+          .attr("class", `graph-field graph-field-${index}`)
+          .attr("clip-path", `url(#${graphClipId})`);
+        renderField(fieldGroup, fieldData, index);
+      });
+
+      // Redraw field arrows in place from the latest field samples
+      const updateFieldArrows = () => {
+        calculateFieldData(
+          graphs,
+          computationStore,
+          sampleFieldVectors
+        ).forEach((fieldData, index) => {
+          const fieldGroup = svg.select<SVGGElement>(`g.graph-field-${index}`);
+          fieldGroup.selectAll("*").remove();
+          renderField(fieldGroup, fieldData, index);
+        });
+      };
 
-      // Create clip path for graph lines
-      svg
-        .append("defs")
-        .append("clipPath")
-        .attr("id", graphClipId)
-        .append("rect")
-        .attr("width", plotWidth)
-        .attr("height", plotHeight);
+      // Points to leave out of paths: the breaks of sampled lines, and values
+      // a log axis cannot show
+      const isDrawable = (d: DataPoint) =>
+        !isLineBreak(d) &&
+        Number.isFinite(xScale(d.x)) &&
+        Number.isFinite(yScale(d.y));
 
-      // Create line generator
+      // Create line generator, leaving gaps at undrawable points
       const lineGenerator = d3
         .line<DataPoint>()
+        .defined(isDrawable)
         .x((d) => xScale(d.x))
         .y((d) => yScale(d.y))
         .curve(d3.curveLinear);
 
+      // Create area path generator: between the line and y = 0 (with gaps at
+      // line breaks), or the outline between two lines. Log axes have no 0,
+      // so areas reach down to the bottom edge.
+      const baselineY = Number.isFinite(yScale(0)) ? yScale(0) : plotHeight;
+      const areaGenerator = d3
+        .area<DataPoint>()
+        .defined(isDrawable)
+        .x((d) => xScale(d.x))
+        .y0(baselineY)
+        .y1((d) => yScale(d.y));
+      // Between two lines, one outline per x span where both are drawn, so
+      // the shading does not bridge asymptotes or gaps
+      const getAreaPath = (areaData: GraphAreaData): string | null => {
+        if (!areaData.lower) return areaGenerator(areaData.upper);
+        const lowerSegments = splitAtGaps(areaData.lower, isDrawable);
+        const paths = splitAtGaps(areaData.upper, isDrawable).flatMap((upper) =>
+          lowerSegments.flatMap((lower) => {
+            const [upperMin, upperMax] = d3.extent(upper, (d) => d.x);
+            const [lowerMin, lowerMax] = d3.extent(lower, (d) => d.x);
+            const from = Math.max(upperMin!, lowerMin!);
+            const to = Math.min(upperMax!, lowerMax!);
+            if (!(from < to)) return [];
+            const path = lineGenerator([
+              ...clipToBounds(upper, [from, to]),
+              ...clipToBounds(lower, [from, to]).reverse(),
+            ]);
+            return path ? [`${path}Z`] : [];
+          })
+        );
+        return paths.length > 0 ? paths.join("") : null;
+      };
+
+      // Render graph-based areas below the lines
+      graphResults.areas.forEach((areaData, index) => {
+        svg
+          .append("path")
+          .attr("class", `graph-area graph-area-${index}`)
+          .attr("d", getAreaPath(areaData))
+          .attr("fill", areaData.color)
+          .attr("fill-opacity", areaData.opacity)
+          .attr("stroke", "none")
+          .attr("clip-path", `url(#${graphClipId})`)
+          .style("pointer-events", "none");
+      });
+
+      // Update area paths in place from the latest line samples
+      const updateAreaPaths = () => {
+        calculateAreaData(graphs, computationStore, sampleLinePoints).forEach(
+          (areaData, index) => {
+            svg
+              .select(`path.graph-area-${index}`)
+              .attr("d", getAreaPath(areaData));
+          }
+        );
+      };
+
+      // Render implicit curves, one path per level
+      graphResults.implicits.forEach((implicitData, index) => {
+        implicitData.curves.forEach((curve, levelIndex) => {
+          svg
+            .append("path")
+            .attr(
+              "class",
+              `graph-implicit graph-implicit-${index}-${levelIndex}`
+            )
+            .datum(curve.points)
+            .attr("fill", "none")
+            .attr("stroke", curve.color)
+            .attr("stroke-width", implicitData.lineWidth)
+            .attr("clip-path", `url(#${graphClipId})`)
+            .attr("d", lineGenerator)
+            .style("pointer-events", "none");
+        });
+      });
+
+      // Update implicit curves in place from the latest scalar grids
+      const updateImplicitPaths = () => {
+        calculateImplicitData(
+          graphs,
+          computationStore,
+          sampleScalarGrid
+        ).forEach((implicitData, index) => {
+          implicitData.curves.forEach((curve, levelIndex) => {
+            svg
+              .select(`path.graph-implicit-${index}-${levelIndex}`)
+              .attr("d", lineGenerator(curve.points));
+          });
+        });
+      };
+
       // Render graph-based lines
       graphResults.lines.forEach((lineData, index) => {
         if (lineData.points.length > 0) {
@@ -400,6 +1339,85 @@ const Plot2D: React.FC<Plot2DProps> = observer(({ config }) => {
         }
       });
 
+      // Let async worker samples update line paths in place during a local drag
+      const lineConfigsForUpdate = graphs.filter(
+        (g) => g.type === "line"
+      ) as I2DLine[];
+      updateLinePathsRef.current = () => {
+        lineConfigsForUpdate.forEach((config, lineIndex) => {
+          const linePoints = lineSamplesRef.current.get(config.id);
+          if (linePoints && linePoints.length > 0) {
+            svg
+              .select(`path.graph-line-${lineIndex}`)
+              .attr("d", lineGenerator(linePoints));
+          }
+        });
+        updateAreaPaths();
+        updateFieldArrows();
+        updateImplicitPaths();
+        updateAnnotations();
+      };
+
+      // Render motion trails below the points. Positions are recorded on
+      // every redraw and drag update, so the trails follow the points.
+      const trailPoints = regularPoints.filter((pointData) => pointData.trail);
+      const trailGroup = svg
+        .append("g")
+        .attr("class", "point-trails")
+        .attr("clip-path", `url(#${graphClipId})`);
+      const drawTrails = () => {
+        if (trailTimerRef.current !== null) {
+          window.clearTimeout(trailTimerRef.current);
+          trailTimerRef.current = null;
+        }
+        trailGroup.selectAll("*").remove();
+        const now = Date.now();
+        let hasExpiringTrails = false;
+        trailPoints.forEach((pointData) => {
+          const options = pointData.trail as IPointTrail;
+          const trail = pruneTrail(
+            trailsRef.current.get(pointData.graphId) ?? [],
+            options,
+            now
+          );
+          trailsRef.current.set(pointData.graphId, trail);
+          hasExpiringTrails ||= isExpiringTrail(trail, options);
+          renderPointTrail(
+            trailGroup,
+            trail.map((position) => position.point),
+            xScale,
+            yScale,
+            options.color ?? pointData.color,
+            options.lineWidth ?? 2
+          );
+        });
+        // Keep dropping expired positions while the points are at rest
+        if (hasExpiringTrails) {
+          trailTimerRef.current = window.setTimeout(
+            drawTrails,
+            TRAIL_EXPIRY_INTERVAL
+          );
+        }
+      };
+      const recordTrail = (graphId: string, point: DataPoint) => {
+        const trail = trailPoints.find(
+          (pointData) => pointData.graphId === graphId
+        )?.trail;
+        if (!trail) return;
+        trailsRef.current.set(
+          graphId,
+          recordTrailPosition(
+            trailsRef.current.get(graphId) ?? [],
+            { x: point.x, y: point.y },
+            trail
+          )
+        );
+      };
+      trailPoints.forEach((pointData) =>
+        recordTrail(pointData.graphId, pointData.point)
+      );
+      drawTrails();
+
       // Store point data for rendering after interaction layer
       const graphPointsData = regularPoints;
 
@@ -408,9 +1426,13 @@ const Plot2D: React.FC<Plot2DProps> = observer(({ config }) => {
       const lineConfig = graphs.find((g) => g.type === "line") as
         | I2DLine
         | undefined;
+      const anyPointHasInteraction = graphPointsData.some(
+        (p) => !!p.interaction
+      );
 
-      if (lineConfig) {
-        const { parameter, interaction: lineInteraction } = lineConfig;
+      if (lineConfig || anyPointHasInteraction) {
+        const parameter = lineConfig?.parameter ?? "";
+        const lineInteraction = lineConfig?.interaction;
 
         // Only set up line drag if line has an interaction property
         const lineHasInteraction = !!lineInteraction;
@@ -428,6 +1450,7 @@ const Plot2D: React.FC<Plot2DProps> = observer(({ config }) => {
         // Create line generator for updating line path during drag
         const lineGenerator = d3
           .line<DataPoint>()
+          .defined(isDrawable)
           .x((d) => xScale(d.x))
           .y((d) => yScale(d.y))
           .curve(d3.curveLinear);
@@ -438,6 +1461,8 @@ const Plot2D: React.FC<Plot2DProps> = observer(({ config }) => {
         // Track initial values for relative drag (so clicking doesn't cause a jump)
         let dragStartMousePos: number | null = null;
         let dragStartValue: number | null = null;
+        // Variables of the current drag, for the store's drag states
+        let draggedVariables: string[] = [];
 
         // Helper function to update line and point position during drag
         // Updates ALL lines and ALL points since shared variables may affect multiple elements
@@ -454,23 +1479,13 @@ const Plot2D: React.FC<Plot2DProps> = observer(({ config }) => {
           const linePointsCache: Map<string, DataPoint[]> = new Map();
 
           lineConfigs.forEach((config, lineIndex) => {
-            const {
-              range,
-              samples = 100,
-              parameter: lineParam,
-              id: lineGraphId,
-            } = config;
+            const { range, parameter: lineParam, id: lineGraphId } = config;
             let sampleRange = range;
             if (!sampleRange) {
               const paramVariable = computationStore.variables.get(lineParam);
               sampleRange = paramVariable?.range ?? [xMin, xMax];
             }
-            const linePoints = computationStore.sample2DLine(
-              lineParam,
-              sampleRange,
-              samples,
-              lineGraphId
-            );
+            const linePoints = sampleLinePoints(config, sampleRange);
 
             // Cache for point updates
             linePointsCache.set(lineGraphId, linePoints);
@@ -482,6 +1497,10 @@ const Plot2D: React.FC<Plot2DProps> = observer(({ config }) => {
                 .attr("d", lineGenerator(linePoints));
             }
           });
+          updateAreaPaths();
+          updateFieldArrows();
+          updateImplicitPaths();
+          updateAnnotations();
 
           // Determine the focused point index (for tracking dragPointX on the focused point's curve)
           const focusState = focusStateRef.current;
@@ -504,9 +1523,12 @@ const Plot2D: React.FC<Plot2DProps> = observer(({ config }) => {
             // Get cached line points for this point's associated line
             const linePoints = linePointsCache.get(pointConfig.id) || [];
             let pointOnCurve: DataPoint | null = null;
+            // Freely dragged points are not bound to a curve
+            const tracksCurve = pointConfig.interaction?.[0] !== "xy-drag";
             // For the focused point, use dragPointX to find position on curve
             // For other points, just run the graph once to get current position
             if (
+              tracksCurve &&
               pointIndex === focusedPointIndex &&
               dragPointX !== null &&
               linePoints.length > 0
@@ -528,7 +1550,11 @@ const Plot2D: React.FC<Plot2DProps> = observer(({ config }) => {
               if (point) {
                 pointOnCurve = point;
                 // Initialize dragPointX for focused point if needed
-                if (pointIndex === focusedPointIndex && dragPointX === null) {
+                if (
+                  tracksCurve &&
+                  pointIndex === focusedPointIndex &&
+                  dragPointX === null
+                ) {
                   dragPointX = point.x;
                 }
               }
@@ -537,6 +1563,7 @@ const Plot2D: React.FC<Plot2DProps> = observer(({ config }) => {
             if (!pointOnCurve) {
               return;
             }
+            recordTrail(pointConfig.id, pointOnCurve);
 
             const newCx = xScale(pointOnCurve.x);
             const newCy = yScale(pointOnCurve.y);
@@ -557,6 +1584,7 @@ const Plot2D: React.FC<Plot2DProps> = observer(({ config }) => {
               .select(`text.graph-point-label-${pointIndex}`)
               .style("display", "none");
           });
+          drawTrails();
         };
 
         // Use refs for state so it persists across re-renders (closure fix)
@@ -598,7 +1626,8 @@ const Plot2D: React.FC<Plot2DProps> = observer(({ config }) => {
               computationStore.setValue(dragVariable, pendingValue);
               pendingValue = null;
             }
-            computationStore.setDragging(false);
+            computationStore.setDragging(false, draggedVariables);
+            draggedVariables = [];
             drawPlot();
           }
         };
@@ -653,9 +1682,6 @@ const Plot2D: React.FC<Plot2DProps> = observer(({ config }) => {
 
         // Create interaction rect (rendered first, under points)
         // Only enable pointer events if line has interaction OR any point has interaction
-        const anyPointHasInteraction = graphPointsData.some(
-          (p) => !!p.interaction
-        );
         const interactionRect = svg
           .append("rect")
           .attr("class", "graph-interaction-rect nodrag")
@@ -739,24 +1765,14 @@ const Plot2D: React.FC<Plot2DProps> = observer(({ config }) => {
             // Only consider lines with interaction
             if (!config.interaction) return;
 
-            const {
-              range,
-              samples = 100,
-              parameter: lineParam,
-              id: lineGraphId,
-            } = config;
+            const { range, parameter: lineParam } = config;
             let sampleRange = range;
             if (!sampleRange) {
               const paramVariable = computationStore.variables.get(lineParam);
               sampleRange = paramVariable?.range ?? [xMin, xMax];
             }
             // Get line points
-            const linePoints = computationStore.sample2DLine(
-              lineParam,
-              sampleRange,
-              samples,
-              lineGraphId
-            );
+            const linePoints = sampleLinePoints(config, sampleRange);
 
             // Find minimum distance from click to any point on this line
             for (const point of linePoints) {
@@ -779,10 +1795,12 @@ const Plot2D: React.FC<Plot2DProps> = observer(({ config }) => {
           event.preventDefault();
 
           // If line doesn't have interaction, only handle unfocusing point
+          // and panning
           if (!lineHasInteraction) {
             if (focusStateRef.current?.type === "point") {
               unfocus();
             }
+            startPan(event);
             return;
           }
 
@@ -792,10 +1810,15 @@ const Plot2D: React.FC<Plot2DProps> = observer(({ config }) => {
             // First click: find and focus the closest line
             const closestLineIndex = findClosestLine(mouseX, mouseY);
             if (closestLineIndex >= 0) {
-              focusStateRef.current = { type: "line", index: closestLineIndex };
+              focusStateRef.current = {
+                type: "line",
+                index: closestLineIndex,
+              };
               updateCursors();
+            } else {
+              // If no line is close enough, pan instead of focusing
+              startPan(event);
             }
-            // If no line is close enough, don't focus anything
           } else if (focusStateRef.current.type === "line") {
             // Check if user clicked on a different line
             const closestLineIndex = findClosestLine(mouseX, mouseY);
@@ -804,14 +1827,18 @@ const Plot2D: React.FC<Plot2DProps> = observer(({ config }) => {
               closestLineIndex !== focusStateRef.current.index
             ) {
               // Switch focus to the new line
-              focusStateRef.current = { type: "line", index: closestLineIndex };
+              focusStateRef.current = {
+                type: "line",
+                index: closestLineIndex,
+              };
               updateCursors();
               return; // Don't start dragging yet, just switch focus
             }
             // Already focused on line: start dragging
             isDraggingRef.current = true;
             isLocalDragRef.current = true;
-            computationStore.setDragging(true);
+            draggedVariables = [dragVariable];
+            computationStore.setDragging(true, draggedVariables);
 
             // Capture initial mouse position and variable value for relative drag
             // mouseX, mouseY already captured above
@@ -829,8 +1856,9 @@ const Plot2D: React.FC<Plot2DProps> = observer(({ config }) => {
             document.addEventListener("mouseup", handleGlobalMouseUp);
             // Don't set value immediately - wait for actual mouse movement
           } else if (focusStateRef.current.type === "point") {
-            // Clicking on line area while point is focused: unfocus
+            // Clicking on line area while point is focused: unfocus and pan
             unfocus();
+            startPan(event);
           }
         });
 
@@ -843,7 +1871,11 @@ const Plot2D: React.FC<Plot2DProps> = observer(({ config }) => {
           const pointIsVerticalDrag = pointInteraction
             ? pointInteraction[0] === "vertical-drag"
             : false;
+          const pointIsXYDrag = pointInteraction?.[0] === "xy-drag";
           const pointDragVariable = pointInteraction ? pointInteraction[1] : "";
+          // The y variable of a free (xy) drag
+          const pointDragYVariable =
+            pointInteraction?.[0] === "xy-drag" ? pointInteraction[2] : "";
           const pointDragVarConfig = pointInteraction
             ? computationStore.variables.get(pointDragVariable)
             : null;
@@ -887,6 +1919,9 @@ const Plot2D: React.FC<Plot2DProps> = observer(({ config }) => {
               // Track initial values for relative point drag
               let pointDragStartMousePos: number | null = null;
               let pointDragStartValue: number | null = null;
+              // Initial y position and value of a free (xy) drag
+              let pointDragStartMouseY: number | null = null;
+              let pointDragStartYValue: number | null = null;
 
               // Create point-specific mouse move handler that uses point's interaction config
               // Uses relative drag - calculates delta from initial position
@@ -903,24 +1938,42 @@ const Plot2D: React.FC<Plot2DProps> = observer(({ config }) => {
                 if (!svgNode) return;
                 const [mouseX, mouseY] = d3.pointer(event, svgNode);
 
-                // Calculate pixel delta and convert to AXIS range proportionally
-                // This makes the point visually track the mouse position
-                const axisRange = pointIsVerticalDrag
-                  ? yMax - yMin
-                  : xMax - xMin;
-                let pixelDelta: number;
-                let delta: number;
-
-                if (pointIsVerticalDrag) {
-                  // Vertical: moving up (negative pixel delta) should increase value
-                  pixelDelta = pointDragStartMousePos - mouseY;
-                  delta = (pixelDelta / plotHeight) * axisRange;
-                } else {
-                  // Horizontal: moving right (positive pixel delta) should increase value
-                  pixelDelta = mouseX - pointDragStartMousePos;
-                  delta = (pixelDelta / plotWidth) * axisRange;
+                if (pointIsXYDrag) {
+                  if (
+                    pointDragStartMouseY === null ||
+                    pointDragStartYValue === null
+                  )
+                    return;
+                  // Free drag: move both variables by the mouse offset in axis units
+                  const xValue = constrainDragValue(
+                    pointDragStartValue +
+                      xScale.invert(mouseX) -
+                      xScale.invert(pointDragStartMousePos),
+                    pointDragVariable,
+                    computationStore
+                  );
+                  const yValue = constrainDragValue(
+                    pointDragStartYValue +
+                      yScale.invert(mouseY) -
+                      yScale.invert(pointDragStartMouseY),
+                    pointDragYVariable,
+                    computationStore
+                  );
+                  computationStore.setValue(pointDragVariable, xValue);
+                  computationStore.setValue(pointDragYVariable, yValue);
+                  updatePointPosition();
+                  return;
                 }
 
+                // Convert the mouse offset to axis units through the axis scale
+                // This makes the point visually track the mouse position,
+                // on log and symlog axes as well
+                const delta = pointIsVerticalDrag
+                  ? yScale.invert(mouseY) -
+                    yScale.invert(pointDragStartMousePos)
+                  : xScale.invert(mouseX) -
+                    xScale.invert(pointDragStartMousePos);
+
                 const newValue = pointDragStartValue + delta;
                 // Still clamp to the variable's range (not axis range) to prevent invalid values
                 const clampedValue = Math.max(
@@ -941,6 +1994,8 @@ const Plot2D: React.FC<Plot2DProps> = observer(({ config }) => {
                 // Reset point drag start tracking
                 pointDragStartMousePos = null;
                 pointDragStartValue = null;
+                pointDragStartMouseY = null;
+                pointDragStartYValue = null;
                 if (focusStateRef.current?.type === "point") {
                   d3.select(
                     `#graph-point-hit-${focusStateRef.current.index}`
@@ -954,7 +2009,8 @@ const Plot2D: React.FC<Plot2DProps> = observer(({ config }) => {
                 event.preventDefault();
 
                 // Capture the point's x-coordinate for tracking during drag
-                dragPointX = point.x;
+                // (freely dragged points do not follow a curve)
+                dragPointX = pointIsXYDrag ? null : point.x;
 
                 // Capture initial mouse position and variable value for relative drag
                 const [mouseX, mouseY] = d3.pointer(event, svg.node());
@@ -962,6 +2018,10 @@ const Plot2D: React.FC<Plot2DProps> = observer(({ config }) => {
                 pointDragStartValue =
                   (computationStore.variables.get(pointDragVariable)
                     ?.value as number) ?? 0;
+                pointDragStartMouseY = mouseY;
+                pointDragStartYValue =
+                  (computationStore.variables.get(pointDragYVariable)
+                    ?.value as number) ?? 0;
 
                 if (
                   focusStateRef.current === null ||
@@ -974,7 +2034,10 @@ const Plot2D: React.FC<Plot2DProps> = observer(({ config }) => {
                   // Start drag immediately so user can click-and-drag in one motion
                   isDraggingRef.current = true;
                   isLocalDragRef.current = true;
-                  computationStore.setDragging(true);
+                  draggedVariables = pointIsXYDrag
+                    ? [pointDragVariable, pointDragYVariable]
+                    : [pointDragVariable];
+                  computationStore.setDragging(true, draggedVariables);
                   hitArea.style("cursor", "grabbing");
 
                   // Clean up any stale listeners before adding new ones
@@ -992,7 +2055,10 @@ const Plot2D: React.FC<Plot2DProps> = observer(({ config }) => {
 
                   isDraggingRef.current = true;
                   isLocalDragRef.current = true;
-                  computationStore.setDragging(true);
+                  draggedVariables = pointIsXYDrag
+                    ? [pointDragVariable, pointDragYVariable]
+                    : [pointDragVariable];
+                  computationStore.setDragging(true, draggedVariables);
                   hitArea.style("cursor", "grabbing");
 
                   // Clean up any stale listeners before adding new ones
@@ -1066,7 +2132,7 @@ const Plot2D: React.FC<Plot2DProps> = observer(({ config }) => {
           updateCursors();
         }
       } else {
-        // No line config - render points without interaction
+        // No line config or interactive points - render points without interaction
         graphPointsData.forEach((pointData, index) => {
           const { point, color } = pointData;
 
@@ -1167,14 +2233,16 @@ const Plot2D: React.FC<Plot2DProps> = observer(({ config }) => {
     // Note: Hover lines for variables removed - labels are now purely cosmetic
   }, [
     vectors,
+    annotations,
     graphs,
     plotWidth,
     plotHeight,
     margin,
-    xMin,
-    xMax,
-    yMin,
-    yMax,
+    xRange,
+    yRange,
+    autoRange,
+    viewXRange,
+    viewYRange,
     xAxisLabel,
     yAxisLabel,
     xAxisVar,
@@ -1187,23 +2255,100 @@ const Plot2D: React.FC<Plot2DProps> = observer(({ config }) => {
     yAxisPos,
     xGrid,
     yGrid,
+    xScaleType,
+    yScaleType,
+    xTickFormat,
+    yTickFormat,
+    xTickUnit,
+    yTickUnit,
     interaction,
     computationStore,
+    sampleLinePoints,
+    sampleFieldVectors,
+    sampleScalarGrid,
+    startPan,
   ]);
 
+  // Keep the latest drawPlot available to async sampling callbacks
+  useEffect(() => {
+    drawPlotRef.current = drawPlot;
+  }, [drawPlot]);
+
   // Set up reaction to re-render when any variable changes
   useEffect(() => {
     // Guard: computationStore must be available
     if (!computationStore) return;
 
+    // Cached samples belong to the previous config, so they are dropped
+    // before the reaction draws. Panning and zooming also re-subscribe, but
+    // keep the cached samples.
+    if (sampledConfigRef.current !== config) {
+      sampledConfigRef.current = config;
+      lineSamplesRef.current.clear();
+      lineSampleKeysRef.current.clear();
+      fieldSamplesRef.current.clear();
+      fieldSampleKeysRef.current.clear();
+      scalarGridsRef.current.clear();
+      scalarGridKeysRef.current.clear();
+      // Trails start over with a reloaded config
+      trailsRef.current.clear();
+    }
+
     const hasGraphs = graphs && graphs.length > 0;
 
+    // Variables that can change this plot, or null to track every variable.
+    // Graph dependencies come from the latest semantics run and the graph's
+    // samples, so this is only known once every graph has been reached.
+    const getPlotDependencies = (): Set<string> | null => {
+      if (!graphs || graphs.length === 0) return null;
+      const ids = new Set<string>();
+      for (const graph of graphs) {
+        // Areas follow their lines, which are graphs of this plot as well
+        if (graph.type === "area") {
+          graph.bounds?.forEach((bound) => {
+            if (typeof bound === "string") ids.add(bound);
+          });
+          continue;
+        }
+        const dependencies = computationStore.getGraphDependencies(graph.id);
+        if (!dependencies) return null;
+        dependencies.forEach((id) => ids.add(id));
+        if (graph.type === "line") ids.add(graph.parameter);
+        if (graph.type === "field" || graph.type === "implicit") {
+          graph.parameters.forEach((id) => ids.add(id));
+          continue;
+        }
+        if (graph.interaction) {
+          ids.add(graph.interaction[1]);
+          if (graph.interaction[0] === "xy-drag") ids.add(graph.interaction[2]);
+        }
+      }
+      annotations?.forEach((annotation) => {
+        getAnnotationVariables(annotation).forEach((id) => ids.add(id));
+      });
+      if (vectors && vectors.length > 0) {
+        const { allXVariables, allYVariables } = getAllVectorVariables(vectors);
+        allXVariables.forEach((id) => ids.add(id));
+        allYVariables.forEach((id) => ids.add(id));
+      }
+      if (interaction) {
+        ids.add(interaction[1]);
+        if (interaction[0] === "xy-drag") ids.add(interaction[2]);
+      }
+      if (xAxisVar) ids.add(xAxisVar);
+      if (yAxisVar) ids.add(yAxisVar);
+      return ids;
+    };
+
     const disposer = reaction(
       () => {
-        // ALWAYS track all variables to maintain proper MobX dependency tracking
-        // This ensures the reaction fires when any variable changes, even after local drag ends
+        // ALWAYS track the plot's variables to maintain proper MobX dependency tracking
+        // This ensures the reaction fires when any of them changes, even after local drag ends
+        // Variables that cannot affect this plot are skipped to avoid needless redraws
+        const plotDependencies = getPlotDependencies();
         const allVariables: Record<string, number | boolean | string> = {};
         for (const [id, variable] of computationStore.variables.entries()) {
+          if (plotDependencies && !plotDependencies.has(id)) continue;
           const value = variable.value;
           allVariables[id] = typeof value === "number" ? value : 0;
         }
@@ -1253,7 +2398,56 @@ const Plot2D: React.FC<Plot2DProps> = observer(({ config }) => {
     );
 
     return () => disposer();
-  }, [drawPlot, interaction, graphs, computationStore]);
+  }, [
+    config,
+    drawPlot,
+    interaction,
+    graphs,
+    vectors,
+    annotations,
+    xAxisVar,
+    yAxisVar,
+    computationStore,
+  ]);
+
+  // Zoom the view about the mouse position with the mouse wheel.
+  // Registered directly, as React wheel listeners cannot prevent scrolling.
+  useEffect(() => {
+    const svgNode = svgRef.current;
+    if (!computationStore || !svgNode) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      // Zooming redraws the plot, which would drop the drag target
+      if (computationStore.isDragging) return;
+      const [mouseX, mouseY] = d3.pointer(event, svgNode);
+      const x = mouseX - marginLeft;
+      const y = mouseY - marginTop;
+      if (x < 0 || x > plotWidth || y < 0 || y > plotHeight) return;
+      event.preventDefault();
+
+      const { xRange: fromXRange, yRange: fromYRange } =
+        visibleRangesRef.current;
+      const xScale = createScale(xScaleType, fromXRange, [0, plotWidth]);
+      const yScale = createScale(yScaleType, fromYRange, [plotHeight, 0]);
+      const factor = Math.exp(event.deltaY * WHEEL_ZOOM_SPEED);
+      computationStore.setPlotView(plotId, {
+        xRange: zoomRange(fromXRange, xScale.invert(x), factor, xScaleType),
+        yRange: zoomRange(fromYRange, yScale.invert(y), factor, yScaleType),
+      });
+    };
+
+    svgNode.addEventListener("wheel", handleWheel, { passive: false });
+    return () => svgNode.removeEventListener("wheel", handleWheel);
+  }, [
+    computationStore,
+    plotId,
+    plotWidth,
+    plotHeight,
+    marginLeft,
+    marginTop,
+    xScaleType,
+    yScaleType,
+  ]);
 
   // Clean up global event listeners on unmount
   useEffect(() => {
@@ -1264,13 +2458,23 @@ const Plot2D: React.FC<Plot2DProps> = observer(({ config }) => {
       if (globalMouseUpRef.current) {
         document.removeEventListener("mouseup", globalMouseUpRef.current);
       }
+      stopPanRef.current?.();
+      if (trailTimerRef.current !== null) {
+        window.clearTimeout(trailTimerRef.current);
+      }
     };
   }, []);
 
-  // Re-draw when config changes
-  useEffect(() => {
-    drawPlot();
-  }, [config, drawPlot]);
+  useImperativeHandle(
+    ref,
+    () => ({
+      exportImage: async (format: IImageFormat) => {
+        const container = svgRef.current?.parentElement;
+        if (container) await exportPlot2DImage(container, format, plotId);
+      },
+    }),
+    [plotId]
+  );
 
   // Guard: computationStore must be provided - placed after all hooks
   if (!computationStore) {
@@ -1278,7 +2482,11 @@ const Plot2D: React.FC<Plot2DProps> = observer(({ config }) => {
   }
 
   return (
-    <div className="mn-plot2d" style={{ position: "relative" }}>
+    <div
+      className="mn-plot2d"
+      data-plot-id={plotId}
+      style={{ position: "relative" }}
+    >
       <svg
         ref={svgRef}
         style={{
@@ -1288,25 +2496,55 @@ const Plot2D: React.FC<Plot2DProps> = observer(({ config }) => {
         }}
       />
       <AxisLabels
-        labelInfo={axisLabelInfoRef.current}
+        labelInfo={axisLabelInfo}
         xAxisHovered={
           xAxisVar
             ? computationStore.isVariableHighlighted(xAxisVar)
-            : axisLabelInfoRef.current.xLabel?.allXVariables.some((varId) =>
+            : axisLabelInfo.xLabel?.allXVariables.some((varId) =>
                 computationStore.isVariableHighlighted(varId)
               ) || false
         }
         yAxisHovered={
           yAxisVar
             ? computationStore.isVariableHighlighted(yAxisVar)
-            : axisLabelInfoRef.current.yLabel?.allYVariables.some((varId) =>
+            : axisLabelInfo.yLabel?.allYVariables.some((varId) =>
                 computationStore.isVariableHighlighted(varId)
               ) || false
         }
       />
+      <AnnotationLabels labels={annotationLabels} margin={margin} />
       <div ref={tooltipRef} className="tooltip" />
+      {hasTrails && (
+        <button
+          onClick={() => {
+            trailsRef.current.clear();
+            drawPlotRef.current?.();
+          }}
+          title="Clear trails"
+          className="absolute p-1 rounded-md border border-slate-200 bg-white hover:bg-slate-50"
+          style={{
+            left:
+              margin.left + plotWidth - (viewXRange || viewYRange ? 60 : 28),
+            top: margin.top + 4,
+          }}
+        >
+          <Eraser className="w-4 h-4" />
+        </button>
+      )}
+      {(viewXRange || viewYRange) && (
+        <button
+          onClick={() => computationStore.resetPlotView(plotId)}
+          title="Reset view"
+          className="absolute p-1 rounded-md border border-slate-200 bg-white hover:bg-slate-50"
+          style={{ left: margin.left + plotWidth - 28, top: margin.top + 4 }}
+        >
+          <RotateCcw className="w-4 h-4" />
+        </button>
+      )}
     </div>
   );
-});
+};
+
+const Plot2D = observer(forwardRef(Plot2DBase));
 
 export default Plot2D;
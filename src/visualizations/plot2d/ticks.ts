@@ -0,0 +1,140 @@
+import * as d3 from "d3";
+
+import { type I2DTickFormat } from "../../types/plot2d";
+
+/**
+ * A formatted tick label: LaTeX for MathJax, and plain text to measure and
+ * to fall back on
+ */
+export interface TickLabel {
+  text: string;
+  latex: string;
+}
+
+// Largest denominator of fraction and π-multiple tick labels
+const MAX_DENOMINATOR = 12;
+
+// Fractions of π tried as tick intervals on narrow axes, finest first
+const PI_FRACTIONS = [1 / 12, 1 / 6, 1 / 4, 1 / 3, 1 / 2, 1];
+
+/**
+ * Finds the fraction p/q with the smallest denominator up to MAX_DENOMINATOR
+ * that equals a value up to rounding errors.
+ * @returns [p, q], or null when the value is no such fraction
+ */
+function toFraction(value: number): [number, number] | null {
+  for (let q = 1; q <= MAX_DENOMINATOR; q++) {
+    const p = Math.round(value * q);
+    if (Math.abs(p / q - value) < 1e-6 * Math.max(1, Math.abs(value))) {
+      return [p, q];
+    }
+  }
+  return null;
+}
+
+/**
+ * Formats the fraction p/q times a symbol, e.g. 3π/2 or 1/3
+ */
+function formatFraction(
+  [p, q]: [number, number],
+  symbol?: { text: string; latex: string }
+): TickLabel {
+  if (p === 0) return { text: "0", latex: "0" };
+  const sign = p < 0 ? "-" : "";
+  const count = Math.abs(p);
+  // A symbol replaces a numerator of 1, as in π instead of 1π
+  const numerator = symbol
+    ? {
+        text: count === 1 ? symbol.text : `${count}${symbol.text}`,
+        latex: count === 1 ? symbol.latex : `${count}${symbol.latex}`,
+      }
+    : { text: `${count}`, latex: `${count}` };
+  if (q === 1) {
+    return {
+      text: `${sign}${numerator.text}`,
+      latex: `${sign}${numerator.latex}`,
+    };
+  }
+  return {
+    text: `${sign}${numerator.text}/${q}`,
+    latex: `${sign}\\frac{${numerator.latex}}{${q}}`,
+  };
+}
+
+/**
+ * Formats a value in scientific notation, e.g. 2.5 × 10³
+ */
+function formatScientific(value: number): TickLabel {
+  if (value === 0) return { text: "0", latex: "0" };
+  const [mantissa, exponent] = Number(value.toPrecision(3))
+    .toExponential()
+    .split("e");
+  const power = Number(exponent);
+  if (mantissa === "1" || mantissa === "-1") {
+    const sign = mantissa === "-1" ? "-" : "";
+    return { text: `${sign}10^${power}`, latex: `${sign}10^{${power}}` };
+  }
+  return {
+    text: `${mantissa}×10^${power}`,
+    latex: `${mantissa} \\times 10^{${power}}`,
+  };
+}
+
+/**
+ * Formats a tick value. Values that are no fraction or multiple of π with a
+ * small denominator fall back to the decimal format.
+ *
+ * @param value - The tick value
+ * @param format - The tick format
+ * @param decimalFormat - The axis' default number format
+ * @param unit - Optional LaTeX unit to append
+ */
+export function formatTick(
+  value: number,
+  format: I2DTickFormat,
+  decimalFormat: (value: number) => string,
+  unit?: string
+): TickLabel {
+  // d3 formats negative numbers with a Unicode minus sign
+  const decimal = decimalFormat(value).replace("−", "-");
+  let label: TickLabel = { text: decimal, latex: decimal };
+  if (format === "pi") {
+    const fraction = toFraction(value / Math.PI);
+    const multiple = d3
+      .format(".3~g")(value / Math.PI)
+      .replace("−", "-");
+    label = fraction
+      ? formatFraction(fraction, { text: "π", latex: "\\pi" })
+      : { text: `${multiple}π`, latex: `${multiple}\\pi` };
+  } else if (format === "fraction") {
+    const fraction = toFraction(value);
+    if (fraction) label = formatFraction(fraction);
+  } else if (format === "scientific") {
+    label = formatScientific(value);
+  }
+  if (!unit) return label;
+  return { text: `${label.text} ${unit}`, latex: `${label.latex}\\,${unit}` };
+}
+
+/**
+ * Whether an axis' tick labels need MathJax: any format other than decimal,
+ * or a unit
+ */
+export function isLatexTickFormat(
+  format: I2DTickFormat | undefined,
+  unit: string | undefined
+): boolean {
+  return (format !== undefined && format !== "decimal") || !!unit;
+}
+
+/**
+ * Gets a tick interval of π multiples for a domain: a fraction of π on
+ * narrow axes, a round multiple of π on wide ones.
+ */
+export function getPiTickInterval([min, max]: number[]): number {
+  const span = Math.abs(max - min) / Math.PI;
+  // Aim for about 8 ticks along the axis
+  const multiple = span / 8;
+  if (multiple > 1) return d3.tickStep(0, span, 8) * Math.PI;
+  return (PI_FRACTIONS.find((fraction) => fraction >= multiple) ?? 1) * Math.PI;
+}
@@ -0,0 +1,41 @@
+import * as d3 from "d3";
+
+import type { DataPoint } from "./plot-2d";
+import { type PlotScale } from "./utils";
+
+/**
+ * Renders a point's motion trail as a polyline that fades out towards the
+ * oldest position. Each segment is its own line, as SVG cannot vary the
+ * opacity along a path.
+ *
+ * @param svg - Group to render into, which should be clipped to the plot area
+ * @param positions - The trail's positions, oldest first
+ */
+export function renderPointTrail(
+  svg: d3.Selection<SVGGElement, unknown, null, undefined>,
+  positions: DataPoint[],
+  xScale: PlotScale,
+  yScale: PlotScale,
+  color: string,
+  lineWidth: number
+): void {
+  const segments = d3.pairs(positions);
+  segments.forEach(([from, to], index) => {
+    const x1 = xScale(from.x);
+    const y1 = yScale(from.y);
+    const x2 = xScale(to.x);
+    const y2 = yScale(to.y);
+    if (![x1, y1, x2, y2].every(Number.isFinite)) return;
+    svg
+      .append("line")
+      .attr("x1", x1)
+      .attr("y1", y1)
+      .attr("x2", x2)
+      .attr("y2", y2)
+      .attr("stroke", color)
+      .attr("stroke-width", lineWidth)
+      .attr("stroke-linecap", "round")
+      .attr("stroke-opacity", (index + 1) / segments.length)
+      .style("pointer-events", "none");
+  });
+}
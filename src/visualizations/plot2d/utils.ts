@@ -1,7 +1,15 @@
+import * as d3 from "d3";
+
 import { ComputationStore } from "../../store/computation";
+import { type I2DAxisScale } from "../../types/plot2d";
 import { INPUT_VARIABLE_DEFAULT } from "../../types/variable";
 import { getVariable } from "../../util/computation-helpers";
 
+/**
+ * A scale mapping plot values to pixels, linear or not
+ */
+export type PlotScale = d3.ScaleContinuousNumeric<number, number>;
+
 export interface PlotDimensions {
   plotWidth: number;
   plotHeight: number;
@@ -68,3 +76,149 @@ export function calculateSampleCount(plotWidthPx: number): number {
   const samples = Math.ceil(SAMPLE_DENSITY * plotWidthPx);
   return Math.max(samples, MIN_SAMPLES);
 }
+
+/**
+ * Gets the functions mapping values of an axis scale to the space where the
+ * scale is linear, and back. Matches d3's log and symlog (constant 1) scales.
+ */
+function getScaleTransform(
+  scaleType: I2DAxisScale
+): [(value: number) => number, (value: number) => number] {
+  switch (scaleType) {
+    case "log":
+      return [Math.log, Math.exp];
+    case "symlog":
+      return [
+        (value) => Math.sign(value) * Math.log1p(Math.abs(value)),
+        (value) => Math.sign(value) * Math.expm1(Math.abs(value)),
+      ];
+    default:
+      return [(value) => value, (value) => value];
+  }
+}
+
+/**
+ * Creates the scale of an axis. Log scales need a positive domain, so domain
+ * ends at or below zero are clamped to three decades below the maximum.
+ */
+export function createScale(
+  scaleType: I2DAxisScale,
+  [min, max]: [number, number],
+  range: [number, number]
+): PlotScale {
+  switch (scaleType) {
+    case "log": {
+      const positiveMax = max > 0 ? max : 10;
+      const positiveMin = min > 0 ? min : positiveMax / 1000;
+      return d3.scaleLog().domain([positiveMin, positiveMax]).range(range);
+    }
+    case "symlog":
+      return d3.scaleSymlog().domain([min, max]).range(range);
+    default:
+      return d3.scaleLinear().domain([min, max]).range(range);
+  }
+}
+
+/**
+ * Fits an axis range to data values with some padding, so the data does not
+ * touch the plot edges. Returns the fallback when there are no finite values.
+ * Padding is added where the scale is linear, and values a log scale cannot
+ * show are left out.
+ */
+export function fitRange(
+  values: number[],
+  fallback: [number, number],
+  scaleType: I2DAxisScale = "linear"
+): [number, number] {
+  const [transform, invert] = getScaleTransform(scaleType);
+  const finite = values
+    .map(transform)
+    .filter((value) => Number.isFinite(value));
+  if (finite.length === 0) return fallback;
+  const min = Math.min(...finite);
+  const max = Math.max(...finite);
+  // A constant value gets a unit-sized window around it
+  const padding = max > min ? (max - min) * 0.05 : Math.max(Math.abs(min), 1);
+  return [invert(min - padding), invert(max + padding)];
+}
+
+/**
+ * Zooms a range about an anchor value. Factors above 1 zoom out.
+ */
+export function zoomRange(
+  range: [number, number],
+  anchor: number,
+  factor: number,
+  scaleType: I2DAxisScale = "linear"
+): [number, number] {
+  const [transform, invert] = getScaleTransform(scaleType);
+  const [min, max] = range.map(transform);
+  const center = transform(anchor);
+  return [
+    invert(center - (center - min) * factor),
+    invert(center + (max - center) * factor),
+  ];
+}
+
+/**
+ * Pans a range by a pixel distance along an axis of the given pixel length.
+ * Positive distances move the range towards smaller values, so the content
+ * follows the mouse.
+ */
+export function panRange(
+  range: [number, number],
+  pixelDelta: number,
+  pixelLength: number,
+  scaleType: I2DAxisScale = "linear"
+): [number, number] {
+  const [transform, invert] = getScaleTransform(scaleType);
+  const [min, max] = range.map(transform);
+  const delta = (pixelDelta / pixelLength) * (max - min);
+  return [invert(min - delta), invert(max - delta)];
+}
+
+/**
+ * Gets the smallest on-screen size of the cells of a grid sampled evenly over
+ * a range. Cells differ in size on log and symlog scales.
+ */
+export function getMinCellSize(
+  scale: PlotScale,
+  [min, max]: [number, number],
+  cells: number
+): number {
+  const sizes = d3
+    .range(cells)
+    .map((i) =>
+      Math.abs(
+        scale(min + ((i + 1) * (max - min)) / cells) -
+          scale(min + (i * (max - min)) / cells)
+      )
+    )
+    .filter((size) => Number.isFinite(size));
+  return sizes.length > 0 ? Math.min(...sizes) : 0;
+}
+
+/**
+ * Snaps a dragged value to its variable's step and clamps it to the
+ * variable's range, where the variable defines them.
+ */
+export function constrainDragValue(
+  value: number,
+  variableName: string,
+  computationStore: ComputationStore
+): number {
+  const variable = computationStore.variables.get(variableName);
+  let constrained = value;
+  if (variable?.step) {
+    // Steps count from the start of the range, like slider steps
+    const origin = variable.range?.[0] ?? 0;
+    constrained =
+      origin +
+      Math.round((constrained - origin) / variable.step) * variable.step;
+  }
+  if (variable?.range) {
+    const [min, max] = variable.range;
+    constrained = Math.max(min, Math.min(max, constrained));
+  }
+  return constrained;
+}
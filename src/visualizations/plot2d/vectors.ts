@@ -2,11 +2,13 @@ import { runInAction } from "mobx";
 
 import * as d3 from "d3";
 
+import { type IFieldVector } from "../../engine/sampling";
 import { ComputationStore } from "../../store/computation";
 import { IVector } from "../../types/plot2d";
 import { getVariableValue } from "../../util/computation-helpers";
-import { VECTOR_DEFAULTS } from "./defaults";
+import { FIELD_DEFAULTS, VECTOR_DEFAULTS } from "./defaults";
 import { createArrowMarker, getMarkerUrl, renderPointMarkers } from "./markers";
+import { type PlotScale } from "./utils";
 
 export interface VectorData {
   x: number;
@@ -57,8 +59,8 @@ export function renderVector(
   defs: d3.Selection<SVGDefsElement, unknown, null, undefined>,
   vector: IVector,
   vectorIndex: number,
-  xScale: d3.ScaleLinear<number, number>,
-  yScale: d3.ScaleLinear<number, number>,
+  xScale: PlotScale,
+  yScale: PlotScale,
   plotWidth?: number,
   plotHeight?: number,
   computationStore?: ComputationStore
@@ -283,6 +285,11 @@ export function renderVector(
     let currentTipX = tipData.x;
     let currentTipY = tipData.y;
     let isDragging = false;
+    // The tip variables, dragged (and undone) together
+    const tipVariables =
+      xAxes.length > 0 && yAxes.length > 0
+        ? [xAxes[xAxes.length - 1], yAxes[yAxes.length - 1]]
+        : [];
     let lastMouseX = 0;
     let lastMouseY = 0;
 
@@ -290,6 +297,7 @@ export function renderVector(
       .drag<SVGCircleElement, unknown>()
       .on("start", function (event) {
         isDragging = true;
+        computationStore.setDragging(true, tipVariables);
         // Store initial mouse position in screen coordinates
         lastMouseX = event.sourceEvent.clientX;
         lastMouseY = event.sourceEvent.clientY;
@@ -430,9 +438,8 @@ export function renderVector(
         }
 
         // Update variables with new tip position
-        if (xAxes.length > 0 && yAxes.length > 0) {
-          const endxAxis = xAxes[xAxes.length - 1];
-          const endyAxis = yAxes[yAxes.length - 1];
+        if (tipVariables.length > 0) {
+          const [endxAxis, endyAxis] = tipVariables;
 
           try {
             runInAction(() => {
@@ -448,6 +455,7 @@ export function renderVector(
       })
       .on("end", function () {
         isDragging = false;
+        computationStore.setDragging(false, tipVariables);
         d3.select(this).attr("stroke", "none");
         path.attr(
           "stroke-width",
@@ -485,8 +493,8 @@ export function renderVectors(
   svg: d3.Selection<SVGGElement, unknown, null, undefined>,
   defs: d3.Selection<SVGDefsElement, unknown, null, undefined>,
   vectors: IVector[],
-  xScale: d3.ScaleLinear<number, number>,
-  yScale: d3.ScaleLinear<number, number>,
+  xScale: PlotScale,
+  yScale: PlotScale,
   plotWidth?: number,
   plotHeight?: number,
   computationStore?: ComputationStore
@@ -506,3 +514,77 @@ export function renderVectors(
     );
   });
 }
+
+/**
+ * Options for rendering the arrows of a field graph
+ */
+export interface FieldArrowOptions {
+  // Size of a grid cell in pixels
+  cellSize: number;
+  scale?: number;
+  normalize: boolean;
+  arrowheads: boolean;
+  color: string;
+  lineWidth: number;
+}
+
+/**
+ * Renders the arrows of a vector or slope field, centered on their grid
+ * points. Directions are measured on screen, so arrows keep their angle when
+ * the axes have different scales.
+ */
+export function renderFieldArrows(
+  svg: d3.Selection<SVGGElement, unknown, null, undefined>,
+  defs: d3.Selection<SVGDefsElement, unknown, null, undefined>,
+  vectors: IFieldVector[],
+  fieldIndex: number,
+  xScale: PlotScale,
+  yScale: PlotScale,
+  options: FieldArrowOptions
+): void {
+  const { cellSize, scale, normalize, arrowheads, color, lineWidth } = options;
+  const markerId = `field-arrowhead-${fieldIndex}`;
+  if (arrowheads) {
+    createArrowMarker(defs, {
+      id: markerId,
+      color,
+      size: FIELD_DEFAULTS.markerSize,
+    });
+  }
+
+  // Pixel offsets of (dx, dy) from each grid point
+  const directions = vectors.map(({ x, y, dx, dy }) => [
+    xScale(x + dx) - xScale(x),
+    yScale(y + dy) - yScale(y),
+  ]);
+  const maxLength = Math.max(
+    0,
+    ...directions.map(([u, v]) => Math.hypot(u, v))
+  );
+  const arrowLength = FIELD_DEFAULTS.cellFraction * cellSize;
+
+  vectors.forEach((vector, i) => {
+    const [u, v] = directions[i];
+    const length = Math.hypot(u, v);
+    if (length === 0) return;
+    // Factor from the (dx, dy) offset to the drawn arrow
+    const factor = normalize
+      ? (arrowLength * (scale ?? 1)) / length
+      : scale ?? arrowLength / maxLength;
+    const centerX = xScale(vector.x);
+    const centerY = yScale(vector.y);
+    const halfX = (u * factor) / 2;
+    const halfY = (v * factor) / 2;
+    svg
+      .append("line")
+      .attr("class", `field-arrow field-arrow-${fieldIndex}`)
+      .attr("x1", centerX - halfX)
+      .attr("y1", centerY - halfY)
+      .attr("x2", centerX + halfX)
+      .attr("y2", centerY + halfY)
+      .attr("stroke", color)
+      .attr("stroke-width", lineWidth)
+      .attr("marker-end", arrowheads ? getMarkerUrl(markerId) : "none")
+      .style("pointer-events", "none");
+  });
+}
@@ -0,0 +1,40 @@
+import * as Plotly from "plotly.js-dist";
+
+import { type IImageFormat } from "../../types/visualization";
+
+// The part of Plotly's API used for image export
+interface IPlotlyDownloadImage {
+  downloadImage(
+    element: HTMLElement,
+    options: {
+      format: IImageFormat;
+      filename: string;
+      width: number;
+      height: number;
+      scale?: number;
+    }
+  ): Promise<string>;
+}
+
+/**
+ * Exports a Plot3D as an image with Plotly's image export, which renders the
+ * WebGL scene in the browser.
+ *
+ * @param plotElement - The Plotly graph div
+ * @param format - Image format
+ * @param filename - Name of the downloaded file, without extension
+ */
+export async function exportPlot3DImage(
+  plotElement: HTMLElement,
+  format: IImageFormat,
+  filename: string
+): Promise<void> {
+  await (Plotly as unknown as IPlotlyDownloadImage).downloadImage(plotElement, {
+    format,
+    filename,
+    width: plotElement.clientWidth,
+    height: plotElement.clientHeight,
+    // Sharp PNGs for slides and prints, as for Plot2D
+    scale: format === "png" ? 2 : 1,
+  });
+}
@@ -1,6 +1,14 @@
-import React, { useCallback, useEffect, useRef, useState } from "react";
-
-import { reaction, runInAction } from "mobx";
+import React, {
+  type ForwardedRef,
+  forwardRef,
+  useCallback,
+  useEffect,
+  useImperativeHandle,
+  useRef,
+  useState,
+} from "react";
+
+import { reaction } from "mobx";
 import { observer } from "mobx-react-lite";
 
 // Import Plotly as any to avoid type issues since @types/plotly.js-dist might not be available
@@ -9,9 +17,20 @@ import * as Plotly from "plotly.js-dist";
 import { IPlot3D } from "../..";
 import { useStore } from "../../core/hooks";
 import { ComputationStore } from "../../store/computation";
+import { IPointTrail } from "../../types/plot2d";
 import { I3DLine, I3DPoint, I3DSurface, IPoint3D } from "../../types/plot3d";
+import { ICamera3D } from "../../types/state";
+import { type IImageFormat, type IPlotHandle } from "../../types/visualization";
 import { getVariable, getVariableValue } from "../../util/computation-helpers";
+import {
+  TRAIL_EXPIRY_INTERVAL,
+  type TrailPosition,
+  isExpiringTrail,
+  pruneTrail,
+  recordTrailPosition,
+} from "../trail";
 import { resolveColor, resolveLineColor } from "./color";
+import { exportPlot3DImage } from "./export";
 
 interface Plot3DProps {
   config: IPlot3D;
@@ -20,6 +39,8 @@ interface Plot3DProps {
 interface Plot3DInnerProps {
   config: IPlot3D;
   computationStore: ComputationStore;
+  // Handle of the outer component, which forwards its ref
+  handleRef?: ForwardedRef<IPlotHandle>;
 }
 
 interface LineData {
@@ -28,14 +49,18 @@ interface LineData {
   color: string;
   width: number;
   showInLegend: boolean;
+  showMarkers: boolean;
 }
 
 interface PointData {
+  id: string;
   name: string;
-  point: IPoint3D;
+  points: IPoint3D[];
   color: string;
   size: number;
   showInLegend: boolean;
+  // Motion trail options and recorded positions, oldest first
+  trail?: { options: IPointTrail; points: IPoint3D[] };
 }
 
 interface GraphSurfaceData {
@@ -49,9 +74,29 @@ interface GraphSurfaceData {
   showColorbar: boolean;
 }
 
+// The parts of Plotly's API used to keep the camera in sync with the store
+interface IPlotlyElement {
+  on(
+    event: "plotly_relayout",
+    handler: (update: { "scene.camera"?: ICamera3D }) => void
+  ): void;
+}
+
+// Built-in modebar icons, for the clear trails button
+interface IPlotlyIcons {
+  Icons: Record<string, unknown>;
+}
+
+interface IPlotlyRelayout {
+  relayout(
+    element: HTMLElement,
+    update: { "scene.camera": ICamera3D }
+  ): Promise<void>;
+}
+
 // Inner component that receives computationStore as a required prop
 const Plot3DInner: React.FC<Plot3DInnerProps> = observer(
-  ({ config, computationStore }) => {
+  ({ config, computationStore, handleRef }) => {
     const plotRef = useRef<HTMLDivElement>(null);
     const clickHandlerRegistered = useRef(false);
     const [currentPoint, setCurrentPoint] = useState<IPoint3D | null>(null);
@@ -77,6 +122,15 @@ const Plot3DInner: React.FC<Plot3DInnerProps> = observer(
       graphs = null,
     } = config;
 
+    // Key for the camera in state snapshots
+    const plotId = config.id ?? "plot3d";
+    // Whether any point has a motion trail, which adds the clear trails button
+    const hasTrails = !!graphs?.some(
+      (graph) => graph.type === "point" && graph.trail
+    );
+    // Recorded positions of points with motion trails (graph ID -> trail)
+    const trailsRef = useRef(new Map<string, TrailPosition<IPoint3D>[]>());
+
     // Get min/max values from ranges
     const [xMin, xMax] = xRange;
     const [yMin, yMax] = yRange;
@@ -92,8 +146,37 @@ const Plot3DInner: React.FC<Plot3DInnerProps> = observer(
       [computationStore]
     );
 
+    // Incremented per calculation so that results from superseded async
+    // sampling runs are dropped and the last good frame stays on screen
+    const calculationIdRef = useRef(0);
+    // Latest sampled line/surface points keyed by graph ID. A graph is only
+    // resampled when a variable it depends on (other than its parameters) changes.
+    const sampleCacheRef = useRef(
+      new Map<string, { key: string; points: IPoint3D[] }>()
+    );
+
+    // Reuse cached points when the graph's inputs match, otherwise sample
+    const sampleCached = useCallback(
+      async (
+        graphId: string,
+        parameters: string[],
+        extraKey: string,
+        sample: () => Promise<IPoint3D[] | null>
+      ): Promise<IPoint3D[] | null> => {
+        const key = `${computationStore.getDependencyKey(graphId, parameters)}|${extraKey}`;
+        const cached = sampleCacheRef.current.get(graphId);
+        if (cached && cached.key === key) return cached.points;
+        const points = await sample();
+        if (points) sampleCacheRef.current.set(graphId, { key, points });
+        return points;
+      },
+      [computationStore]
+    );
+
     // Calculate all graph-based visualizations using the graph() collection mechanism
-    const calculateGraphData = useCallback(() => {
+    // Sampling is async so it can run in the sampling worker when enabled.
+    // Resolves to null when any sampling request was superseded by a newer one.
+    const calculateGraphData = useCallback(async () => {
       const lineResults: LineData[] = [];
       const pointResults: PointData[] = [];
       const surfaceResults: GraphSurfaceData[] = [];
@@ -118,7 +201,28 @@ const Plot3DInner: React.FC<Plot3DInnerProps> = observer(
             samples = 100,
             color = "blue",
             width = 4,
+            stepId,
+            persistence,
           } = lineConfig;
+          if (stepId) {
+            // Path through the points collected up to the current step. Kept
+            // when empty so that stepping back clears the previous frame.
+            const points = computationStore.getStepDataPoints(
+              graphId,
+              stepId,
+              persistence !== false
+            ) as unknown as IPoint3D[];
+            lineResults.push({
+              name: displayName,
+              points,
+              color: resolveLineColor(color),
+              width,
+              showInLegend,
+              showMarkers: true,
+            });
+            continue;
+          }
+          if (!parameter) continue;
           // Get range from config or from parameter variable's range
           let sampleRange = range;
           if (!sampleRange) {
@@ -126,12 +230,20 @@ const Plot3DInner: React.FC<Plot3DInnerProps> = observer(
             sampleRange = paramVariable?.range ?? [0, 10];
           }
           // Sample the manual function across the range by varying the parameter
-          const points = computationStore.sample3DLine(
-            parameter,
-            sampleRange,
-            samples,
-            graphId
+          const lineRange = sampleRange;
+          const points = await sampleCached(
+            graphId,
+            [parameter],
+            `line|${lineRange.join(",")}|${samples}`,
+            () =>
+              computationStore.sample3DLineAsync(
+                parameter,
+                lineRange,
+                samples,
+                graphId
+              )
           );
+          if (!points) return null;
           if (points.length > 0) {
             lineResults.push({
               name: displayName,
@@ -139,6 +251,7 @@ const Plot3DInner: React.FC<Plot3DInnerProps> = observer(
               color: resolveLineColor(color),
               width,
               showInLegend,
+              showMarkers: false,
             });
           }
         } else if (graphType === "surface") {
@@ -150,7 +263,9 @@ const Plot3DInner: React.FC<Plot3DInnerProps> = observer(
             color = "Viridis",
             opacity = 0.8,
             showColorbar = false,
+            stepId,
           } = surfaceConfig;
+          if (stepId && !computationStore.hasReachedStep(stepId)) continue;
 
           // Get ranges from config or from parameter variables' ranges
           let sampleRanges = ranges;
@@ -163,12 +278,20 @@ const Plot3DInner: React.FC<Plot3DInnerProps> = observer(
             ];
           }
           // Sample the manual function across the 2D grid by varying the parameters
-          const points = computationStore.sampleSurface(
+          const surfaceRanges = sampleRanges;
+          const points = await sampleCached(
+            graphId,
             parameters,
-            sampleRanges,
-            samples,
-            graphId
+            `surface|${surfaceRanges.flat().join(",")}|${samples}`,
+            () =>
+              computationStore.sampleSurfaceAsync(
+                parameters,
+                surfaceRanges,
+                samples,
+                graphId
+              )
           );
+          if (!points) return null;
           if (points.length > 0) {
             surfaceResults.push({
               id: graphId,
@@ -183,15 +306,47 @@ const Plot3DInner: React.FC<Plot3DInnerProps> = observer(
           }
         } else if (graphType === "point") {
           const pointConfig = graphConfig as I3DPoint;
-          const { color = "red", size = 8 } = pointConfig;
-          const point = computationStore.sample3DPoint(graphId);
-          if (point) {
+          const {
+            color = "red",
+            size = 8,
+            stepId,
+            persistence,
+            trail: trailOptions,
+          } = pointConfig;
+          let points: IPoint3D[] = [];
+          let trail: PointData["trail"];
+          if (stepId) {
+            points = computationStore.getStepDataPoints(
+              graphId,
+              stepId,
+              persistence !== false
+            ) as unknown as IPoint3D[];
+          } else {
+            const point = computationStore.sample3DPoint(graphId);
+            if (point) points = [point];
+            if (point && trailOptions) {
+              const positions = recordTrailPosition(
+                trailsRef.current.get(graphId) ?? [],
+                { x: point.x, y: point.y, z: point.z },
+                trailOptions
+              );
+              trailsRef.current.set(graphId, positions);
+              trail = {
+                options: trailOptions,
+                points: positions.map((position) => position.point),
+              };
+            }
+          }
+          // Step points are kept when empty, like step paths
+          if (stepId || points.length > 0) {
             pointResults.push({
+              id: graphId,
               name: displayName,
-              point,
+              points,
               color: resolveLineColor(color),
               size,
               showInLegend,
+              trail,
             });
           }
         }
@@ -202,12 +357,21 @@ const Plot3DInner: React.FC<Plot3DInnerProps> = observer(
         points: pointResults,
         surfaces: surfaceResults,
       };
-    }, [graphs, computationStore, xAxis, yAxis]);
+    }, [graphs, computationStore, sampleCached, xAxis, yAxis]);
 
     // Direct calculation function without debouncing
-    const calculateDataPoints = useCallback(() => {
+    const calculateDataPoints = useCallback(async () => {
+      const calculationId = ++calculationIdRef.current;
+      // Capture the current point before awaiting so it matches the sampled values
+      const currentX = getVariableValue(xAxis, computationStore);
+      const currentY = getVariableValue(yAxis, computationStore);
+      const currentZ = getVariableValue(zVar, computationStore);
       try {
-        const graphResults = calculateGraphData();
+        const graphResults = await calculateGraphData();
+        // Keep the last good frame if a newer calculation has started
+        if (!graphResults || calculationId !== calculationIdRef.current) {
+          return;
+        }
 
         // Set graph-based data
         setGraphSurfacesData(graphResults.surfaces);
@@ -215,9 +379,6 @@ const Plot3DInner: React.FC<Plot3DInnerProps> = observer(
         setGraphPointsData(graphResults.points);
 
         // Update current point
-        const currentX = getVariableValue(xAxis, computationStore);
-        const currentY = getVariableValue(yAxis, computationStore);
-        const currentZ = getVariableValue(zVar, computationStore);
         setCurrentPoint({ x: currentX, y: currentY, z: currentZ });
       } catch (error) {
         console.error("Error calculating 3D plot data:", error);
@@ -229,9 +390,58 @@ const Plot3DInner: React.FC<Plot3DInnerProps> = observer(
     useEffect(() => {
       setLinesData([]);
       setCurrentPoint(null);
+      sampleCacheRef.current.clear();
       calculateDataPoints();
     }, [calculateDataPoints]);
 
+    // Trails start over with a reloaded config
+    useEffect(() => {
+      trailsRef.current.clear();
+    }, [config]);
+
+    // Drop the trail positions past each trail's length or duration
+    const pruneTrails = useCallback(() => {
+      const now = Date.now();
+      setGraphPointsData((pointsData) =>
+        pointsData.map((pointData) => {
+          if (!pointData.trail) return pointData;
+          const positions = pruneTrail(
+            trailsRef.current.get(pointData.id) ?? [],
+            pointData.trail.options,
+            now
+          );
+          trailsRef.current.set(pointData.id, positions);
+          return {
+            ...pointData,
+            trail: {
+              ...pointData.trail,
+              points: positions.map((position) => position.point),
+            },
+          };
+        })
+      );
+    }, []);
+
+    const clearTrails = useCallback(() => {
+      trailsRef.current.clear();
+      pruneTrails();
+    }, [pruneTrails]);
+
+    // Keep dropping expired positions while the points are at rest
+    useEffect(() => {
+      const hasExpiringTrails = graphPointsData.some(
+        (pointData) =>
+          pointData.trail &&
+          isExpiringTrail(
+            trailsRef.current.get(pointData.id) ?? [],
+            pointData.trail.options
+          )
+      );
+      if (!hasExpiringTrails) return;
+      const timer = window.setTimeout(pruneTrails, TRAIL_EXPIRY_INTERVAL);
+      return () => window.clearTimeout(timer);
+    }, [graphPointsData, pruneTrails]);
+
     // Optimized MobX reaction without debouncing
     // Watch all input variables (not just axis variables) to update point graphs
     useEffect(() => {
@@ -241,18 +451,39 @@ const Plot3DInner: React.FC<Plot3DInnerProps> = observer(
           const yValue = getVariableValue(yAxis, computationStore);
           const zValue = getVariableValue(zVar, computationStore);
 
-          // Also track all input variables for point graph updates
+          // Also track input variables for point graph updates, skipping
+          // those no graph depends on once the dependencies are known
+          const graphDependencies = graphs?.map((graph) =>
+            computationStore.getGraphDependencies(graph.id)
+          );
+          const knownDependencies = graphDependencies?.every(Boolean)
+            ? new Set(graphDependencies.flatMap((deps) => [...(deps ?? [])]))
+            : null;
           const inputVarValues: Record<string, number> = {};
           for (const [
             varName,
             variable,
           ] of computationStore.variables.entries()) {
+            if (knownDependencies && !knownDependencies.has(varName)) continue;
             if (variable.input && typeof variable.value === "number") {
               inputVarValues[varName] = variable.value;
             }
           }
 
-          return { xValue, yValue, zValue, inputVarValues };
+          // Track step state for step-dependent graphs
+          const stepIndex = computationStore.stepping
+            ? computationStore.currentStepIndex
+            : -1;
+          const stepCount = computationStore.steps.length;
+
+          return {
+            xValue,
+            yValue,
+            zValue,
+            inputVarValues,
+            stepIndex,
+            stepCount,
+          };
         },
         (newValues, oldValues) => {
           // Check if axis values changed significantly
@@ -270,7 +501,12 @@ const Plot3DInner: React.FC<Plot3DInnerProps> = observer(
                 newValues.inputVarValues[key] !== oldValues.inputVarValues[key]
             );
 
-          if (axisChanged || inputVarsChanged) {
+          const stepChanged =
+            !oldValues ||
+            newValues.stepIndex !== oldValues.stepIndex ||
+            newValues.stepCount !== oldValues.stepCount;
+
+          if (axisChanged || inputVarsChanged || stepChanged) {
             calculateDataPoints();
           }
         },
@@ -280,7 +516,7 @@ const Plot3DInner: React.FC<Plot3DInnerProps> = observer(
       );
 
       return disposer;
-    }, [xAxis, yAxis, zVar, calculateDataPoints, computationStore]);
+    }, [xAxis, yAxis, zVar, graphs, calculateDataPoints, computationStore]);
 
     // Optimized plotting effect
     useEffect(() => {
@@ -300,7 +536,7 @@ const Plot3DInner: React.FC<Plot3DInnerProps> = observer(
         if (validPoints.length > 0) {
           plotData.push({
             type: "scatter3d",
-            mode: "lines",
+            mode: lineData.showMarkers ? "lines+markers" : "lines",
             x: validPoints.map((p) => p.x),
             y: validPoints.map((p) => p.y),
             z: validPoints.map((p) => p.z),
@@ -308,6 +544,10 @@ const Plot3DInner: React.FC<Plot3DInnerProps> = observer(
               width: lineData.width,
               color: lineData.color,
             },
+            marker: {
+              size: lineData.width,
+              color: lineData.color,
+            },
             name: lineData.name,
             showlegend: lineData.showInLegend,
           });
@@ -389,13 +629,40 @@ const Plot3DInner: React.FC<Plot3DInnerProps> = observer(
 
       // Process graph-based points
       graphPointsData.forEach((pointData) => {
-        if (pointData.point.z !== null) {
+        // Motion trail below the point, fading towards its oldest position
+        const trailPoints =
+          pointData.trail?.points.filter((p) => p.z !== null) ?? [];
+        if (pointData.trail && trailPoints.length > 1) {
+          const { options } = pointData.trail;
+          plotData.push({
+            type: "scatter3d",
+            mode: "lines",
+            x: trailPoints.map((p) => p.x),
+            y: trailPoints.map((p) => p.y),
+            z: trailPoints.map((p) => p.z),
+            line: {
+              width: options.lineWidth ?? 4,
+              color: trailPoints.map((_, i) => (i + 1) / trailPoints.length),
+              colorscale: [
+                [0, "#ffffff"],
+                [1, options.color ?? pointData.color],
+              ],
+              cmin: 0,
+              cmax: 1,
+            },
+            name: `${pointData.name} trail`,
+            showlegend: false,
+            hoverinfo: "skip",
+          });
+        }
+        const validPoints = pointData.points.filter((p) => p.z !== null);
+        if (validPoints.length > 0) {
           plotData.push({
             type: "scatter3d",
             mode: "markers",
-            x: [pointData.point.x],
-            y: [pointData.point.y],
-            z: [pointData.point.z],
+            x: validPoints.map((p) => p.x),
+            y: validPoints.map((p) => p.y),
+            z: validPoints.map((p) => p.z),
             marker: {
               size: pointData.size,
               color: pointData.color,
@@ -463,6 +730,7 @@ const Plot3DInner: React.FC<Plot3DInnerProps> = observer(
           },
           aspectratio: { x: 1, y: 1, z: 1 },
           aspectmode: "manual",
+          camera: computationStore.getPlotView(plotId)?.camera,
         },
         margin: { l: 0, r: 0, b: 0, t: 0 },
         legend: {
@@ -493,6 +761,15 @@ const Plot3DInner: React.FC<Plot3DInnerProps> = observer(
         displaylogo: false,
         responsive: true, // This is the key for proper container sizing
         modeBarButtonsToRemove: [], // Keep all buttons but position them properly
+        modeBarButtonsToAdd: hasTrails
+          ? [
+              {
+                name: "Clear trails",
+                icon: (Plotly as unknown as IPlotlyIcons).Icons.eraseshape,
+                click: clearTrails,
+              },
+            ]
+          : [],
       };
 
       // Use newPlot for initial creation, react for updates to preserve user interactions
@@ -515,7 +792,8 @@ const Plot3DInner: React.FC<Plot3DInnerProps> = observer(
               if (data.points && data.points.length > 0) {
                 const point = data.points[0];
                 try {
-                  runInAction(() => {
+                  // One click is undone as a whole
+                  computationStore.groupHistory(() => {
                     // First try to use xAxis/yAxis if they exist as variables
                     let xVarId = config.xAxis || "x";
                     let yVarId = config.yAxis || "y";
@@ -548,6 +826,17 @@ const Plot3DInner: React.FC<Plot3DInnerProps> = observer(
                 }
               }
             });
+
+            // Keep the camera in the store so it is part of state snapshots
+            (plotRef.current as unknown as IPlotlyElement).on(
+              "plotly_relayout",
+              (update) => {
+                const camera = update["scene.camera"];
+                if (camera) {
+                  computationStore.setPlotView(plotId, { camera });
+                }
+              }
+            );
           }
         })
         .catch((error: any) => {
@@ -573,8 +862,26 @@ const Plot3DInner: React.FC<Plot3DInnerProps> = observer(
       yAxis,
       zVar,
       config,
+      plotId,
+      hasTrails,
+      clearTrails,
     ]);
 
+    // Move the camera when it is changed in the store (e.g. by setState)
+    useEffect(() => {
+      const disposer = reaction(
+        () => computationStore.getPlotView(plotId)?.camera,
+        (camera) => {
+          if (camera && plotRef.current && isPlotInitialized) {
+            (Plotly as unknown as IPlotlyRelayout).relayout(plotRef.current, {
+              "scene.camera": camera,
+            });
+          }
+        }
+      );
+      return () => disposer();
+    }, [computationStore, plotId, isPlotInitialized]);
+
     // Cleanup on unmount
     useEffect(() => {
       const currentPlotRef = plotRef.current;
@@ -592,9 +899,23 @@ const Plot3DInner: React.FC<Plot3DInnerProps> = observer(
       };
     }, []);
 
+    useImperativeHandle(
+      handleRef,
+      () => ({
+        exportImage: async (format: IImageFormat) => {
+          if (plotRef.current) {
+            await exportPlot3DImage(plotRef.current, format, plotId);
+          }
+        },
+      }),
+      [plotId]
+    );
+
     return (
       <div
         ref={plotRef}
+        className="mn-plot3d"
+        data-plot-id={plotId}
         style={{
           width: typeof width === "number" ? `${width}px` : width,
           height: typeof height === "number" ? `${height}px` : height,
@@ -605,7 +926,10 @@ const Plot3DInner: React.FC<Plot3DInnerProps> = observer(
 );
 
 // Outer component that handles the null check for computationStore
-const Plot3D: React.FC<Plot3DProps> = observer(({ config }) => {
+const Plot3DBase = (
+  { config }: Plot3DProps,
+  ref: ForwardedRef<IPlotHandle>
+) => {
   const context = useStore();
   const computationStore = context?.computationStore;
 
@@ -614,7 +938,15 @@ const Plot3D: React.FC<Plot3DProps> = observer(({ config }) => {
     return <div className="plot3d-loading">Loading plot...</div>;
   }
 
-  return <Plot3DInner config={config} computationStore={computationStore} />;
-});
+  return (
+    <Plot3DInner
+      config={config}
+      computationStore={computationStore}
+      handleRef={ref}
+    />
+  );
+};
+
+const Plot3D = observer(forwardRef(Plot3DBase));
 
 export default Plot3D;
@@ -0,0 +1,66 @@
+import { type IPointTrail } from "../types/plot2d";
+
+// Positions kept when a trail sets neither a length nor a duration
+const DEFAULT_TRAIL_LENGTH = 50;
+
+// Interval for dropping expired positions of trails with a duration, in ms
+export const TRAIL_EXPIRY_INTERVAL = 100;
+
+/**
+ * A recorded position of a point, with the time it was recorded in ms
+ */
+export interface TrailPosition<Point> {
+  point: Point;
+  time: number;
+}
+
+/**
+ * Drops the positions past a trail's length or duration
+ */
+export function pruneTrail<Point>(
+  trail: TrailPosition<Point>[],
+  options: IPointTrail,
+  now: number = Date.now()
+): TrailPosition<Point>[] {
+  const { duration } = options;
+  const length =
+    options.length ??
+    (duration === undefined ? DEFAULT_TRAIL_LENGTH : Infinity);
+  const recent =
+    duration === undefined
+      ? trail
+      : trail.filter((position) => now - position.time <= duration * 1000);
+  return recent.length > length ? recent.slice(-length) : recent;
+}
+
+/**
+ * Records a point's position in its trail. Repeats of the latest position are
+ * skipped, so a point at rest does not push out its history.
+ * @returns The trail with the position, pruned to the trail's length and duration
+ */
+export function recordTrailPosition<Point>(
+  trail: TrailPosition<Point>[],
+  point: Point,
+  options: IPointTrail,
+  now: number = Date.now()
+): TrailPosition<Point>[] {
+  const latest = trail[trail.length - 1];
+  const moved =
+    !latest || JSON.stringify(latest.point) !== JSON.stringify(point);
+  return pruneTrail(
+    moved ? [...trail, { point, time: now }] : trail,
+    options,
+    now
+  );
+}
+
+/**
+ * Whether a trail loses positions over time, so it must be pruned while the
+ * point is at rest
+ */
+export function isExpiringTrail(
+  trail: TrailPosition<unknown>[],
+  options: IPointTrail
+): boolean {
+  return options.duration !== undefined && trail.length > 0;
+}